@@ -0,0 +1,133 @@
+// engage-api/engage-health.ts
+import { config } from 'dotenv';
+import { logger } from '../utils/logger';
+import { CircuitBreaker, describeOutage, isCancelledRequest, type CircuitBreakerStatus } from '../utils/circuit-breaker';
+import { AdaptiveConcurrency, type AdaptiveConcurrencyStatus } from '../utils/semaphore';
+import { createSharedRateLimiter } from '../services/rate-limit-service';
+
+config();
+
+/**
+ * Shared state of the Engage client: the request rate limit, the circuit breaker that stops
+ * requests during outages, and the crawl concurrency derived from how Engage is responding.
+ */
+
+// Request limits for Engage, shared by the crawler and on-demand API fetches of all instances
+const CRAWLER_REQUESTS_PER_MINUTE = parseInt(process.env.CRAWLER_REQUESTS_PER_MINUTE || '0', 10); // 0 = unlimited
+const CRAWLER_RATE_LIMIT_BURST = parseInt(process.env.CRAWLER_RATE_LIMIT_BURST || '1', 10);
+
+// Circuit breaker
+const ENGAGE_BREAKER_FAILURE_THRESHOLD = parseInt(process.env.ENGAGE_BREAKER_FAILURE_THRESHOLD || '10', 10);
+const ENGAGE_BREAKER_OPEN_SECONDS = parseInt(process.env.ENGAGE_BREAKER_OPEN_SECONDS || '60', 10);
+const ENGAGE_BREAKER_HALF_OPEN_PROBES = parseInt(process.env.ENGAGE_BREAKER_HALF_OPEN_PROBES || '2', 10);
+
+// Adaptive crawl concurrency, between CRAWLER_MIN_CONCURRENCY and CONCURRENT_API_CALLS
+const CONCURRENT_API_CALLS = parseInt(process.env.CONCURRENT_API_CALLS || '8', 10);
+const CRAWLER_MIN_CONCURRENCY = parseInt(process.env.CRAWLER_MIN_CONCURRENCY || '1', 10);
+const CRAWLER_TARGET_LATENCY_MS = parseInt(process.env.CRAWLER_TARGET_LATENCY_MS || '5000', 10);
+const CRAWLER_MAX_ERROR_RATE = parseFloat(process.env.CRAWLER_MAX_ERROR_RATE || '0.2');
+const CRAWLER_CONCURRENCY_WINDOW = parseInt(process.env.CRAWLER_CONCURRENCY_WINDOW || '20', 10);
+
+const RATE_LIMIT_KEY = 'engage:rate-limit'; // hash: tokens, at (Redis time, ms)
+
+// Every request to Engage, retries included, takes a token
+export const engageRateLimiter = createSharedRateLimiter(RATE_LIMIT_KEY, CRAWLER_REQUESTS_PER_MINUTE, CRAWLER_RATE_LIMIT_BURST);
+
+export const engageCircuitBreaker = new CircuitBreaker('engage', {
+  failureThreshold: ENGAGE_BREAKER_FAILURE_THRESHOLD,
+  openDurationMs: ENGAGE_BREAKER_OPEN_SECONDS * 1000,
+  halfOpenProbes: ENGAGE_BREAKER_HALF_OPEN_PROBES
+});
+
+export const engageConcurrency = new AdaptiveConcurrency({
+  min: CRAWLER_MIN_CONCURRENCY,
+  max: CONCURRENT_API_CALLS,
+  targetLatencyMs: CRAWLER_TARGET_LATENCY_MS,
+  maxErrorRate: CRAWLER_MAX_ERROR_RATE,
+  windowSize: CRAWLER_CONCURRENCY_WINDOW
+});
+
+engageCircuitBreaker.onStateChange(state => {
+  if (state === 'open') {
+    const { retryAt, lastFailure } = engageCircuitBreaker.getStatus();
+    logger.warn(`Engage circuit opened after repeated failures (last: ${lastFailure}). Pausing requests until ${retryAt}.`);
+    // Come back slowly once Engage recovers
+    engageConcurrency.reset();
+  } else if (state === 'half-open') {
+    logger.info('Engage circuit half-open. Sending probe requests.');
+  } else {
+    logger.info('Engage circuit closed. Requests resumed.');
+  }
+});
+engageConcurrency.onChange(limit => {
+  logger.info(`Crawl concurrency adjusted to ${limit}.`);
+});
+
+/**
+ * Records the outcome of one request to Engage.
+ * @param latencyMs - Time from sending to response or failure
+ * @param outage - Reason if the failure points at Engage being down or overloaded
+ *                 (timeout, network error, 502/503/504); omit for any other response
+ */
+export function recordEngageResponse(latencyMs: number, outage?: string): void {
+  if (outage) {
+    engageCircuitBreaker.recordFailure(outage);
+  } else {
+    engageCircuitBreaker.recordSuccess();
+  }
+  engageConcurrency.record(latencyMs, !outage);
+}
+
+/**
+ * Sends one request to Engage through the circuit breaker and records how it went.
+ * @param request - Sends the request
+ * @throws CircuitOpenError without calling request while the circuit is open
+ */
+export async function trackEngageRequest<T>(request: () => Promise<T>): Promise<T> {
+  engageCircuitBreaker.acquire();
+  const startedAt = Date.now();
+  try {
+    const result = await request();
+    recordEngageResponse(Date.now() - startedAt);
+    return result;
+  } catch (error) {
+    if (isCancelledRequest(error)) {
+      // Cancelled on our side: not a sign of how Engage is doing
+      engageCircuitBreaker.recordCancelled();
+    } else {
+      recordEngageResponse(Date.now() - startedAt, describeOutage(error));
+    }
+    throw error;
+  }
+}
+
+/**
+ * Waits until the circuit lets requests through again.
+ * @param signal - Stops waiting early
+ */
+export async function waitForEngageAvailable(signal?: AbortSignal): Promise<void> {
+  while (!engageCircuitBreaker.isAvailable() && !signal?.aborted) {
+    const waitMs = Math.max(250, Math.min(engageCircuitBreaker.getRetryAt() - Date.now(), 5000));
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+}
+
+export interface EngageStatus {
+  circuit: CircuitBreakerStatus;
+  concurrency: AdaptiveConcurrencyStatus;
+  rateLimit: { requestsPerMinute: number | null; waiting: number };
+}
+
+/**
+ * Gets the Engage client state for the status endpoint.
+ */
+export function getEngageStatus(): EngageStatus {
+  return {
+    circuit: engageCircuitBreaker.getStatus(),
+    concurrency: engageConcurrency.getStatus(),
+    rateLimit: {
+      requestsPerMinute: engageRateLimiter ? CRAWLER_REQUESTS_PER_MINUTE : null,
+      waiting: engageRateLimiter?.getWaitingCount() ?? 0
+    }
+  };
+}
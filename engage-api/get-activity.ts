@@ -1,6 +1,11 @@
 // engage-api/get-activity.ts
 import axios, { type AxiosRequestConfig } from 'axios';
+import { config } from 'dotenv';
 import { logger } from '../utils/logger';
+import { retryBackoffMs } from '../utils/rate-limiter';
+import { CircuitOpenError } from '../utils/circuit-breaker';
+import { engageFetchDuration, startTimer, type EngageFetchOutcome } from '../utils/metrics';
+import { engageRateLimiter, trackEngageRequest } from './engage-health';
 import {
   ensureSingleLogin,
   saveCookiesToCache,
@@ -9,8 +14,19 @@ import {
   backupCookies,
   restoreCookieBackup,
   tryAcquireAuthLock,
-  releaseAuthCooldown
+  releaseAuthCooldown,
+  markCookiesBad
 } from '../services/playwright-auth';
+import { getAccountsInTurn } from '../services/account-pool';
+import { countCrawlEvent } from '../services/crawl-report-service';
+import type { EngageAccount } from '../utils/engage-accounts';
+
+config();
+
+// Retries for Engage requests
+const CRAWLER_MAX_RETRIES = parseInt(process.env.CRAWLER_MAX_RETRIES || '3', 10);
+const CRAWLER_RETRY_DELAY_MS = parseInt(process.env.CRAWLER_RETRY_DELAY_MS || '1000', 10);
+const CRAWLER_RETRY_MAX_DELAY_MS = parseInt(process.env.CRAWLER_RETRY_MAX_DELAY_MS || '30000', 10);
 
 // Define interfaces for our data structures
 interface ActivityResponse {
@@ -30,33 +46,127 @@ class AuthenticationError extends Error {
   }
 }
 
+// found: Engage returned the activity; empty: Engage answered without one (isError);
+// failed: no usable answer (outage, timeout, no session), which says nothing about the activity
+export type ActivityFetchResult =
+  | { status: 'found'; data: any }
+  | { status: 'empty' }
+  | { status: 'failed'; error: string; timedOut?: boolean };
+
+// What one account's attempt at fetching an activity came to. sessionFailed means the
+// account could not get a working session, so another account might do better.
+interface AccountFetchResult {
+  result: ActivityFetchResult;
+  sessionFailed: boolean;
+}
+
+/**
+ * Aborts a fetch once it has run for timeoutMs. The clock is paused while the fetch waits
+ * for a rate limit token, so a long queue for tokens does not use up the fetch's time.
+ */
+class FetchDeadline {
+  readonly signal: AbortSignal;
+  private readonly controller = new AbortController();
+  private readonly timeoutMs: number;
+  private remainingMs: number;
+  private resumedAt = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param timeoutMs - Running time allowed; 0 means no limit
+   * @param parent - Also aborts the fetch
+   */
+  constructor(timeoutMs: number, parent?: AbortSignal) {
+    this.timeoutMs = timeoutMs;
+    this.remainingMs = timeoutMs;
+    this.signal = parent ? AbortSignal.any([parent, this.controller.signal]) : this.controller.signal;
+    this.resume();
+  }
+
+  get timedOut(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  pause(): void {
+    if (!this.timer) return;
+    clearTimeout(this.timer);
+    this.timer = null;
+    this.remainingMs -= Date.now() - this.resumedAt;
+  }
+
+  resume(): void {
+    if (this.timer || this.timeoutMs <= 0 || this.signal.aborted) return;
+    this.resumedAt = Date.now();
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.controller.abort();
+    }, Math.max(0, this.remainingMs));
+  }
+}
+
 /**
- * Get complete cookies using Playwright with single login lock
+ * Get complete cookies for an account using Playwright with single login lock
  */
-async function getCompleteCookies(userName: string, userPwd: string): Promise<string> {
-  logger.info('Attempting to get complete cookie string using Playwright login...');
+async function getCompleteCookies(account: EngageAccount): Promise<string> {
+  logger.info(`Attempting to get complete cookie string for account ${account.id} using Playwright login...`);
   
-  const cookies = await ensureSingleLogin(userName, userPwd);
+  const cookies = await ensureSingleLogin(account);
   
   if (!cookies || cookies.length === 0) {
     throw new Error("Login failed: Could not obtain cookies.");
   }
 
+  // Counted in the report of the crawl that needed the login, if any
+  countCrawlEvent('reLogins');
   const cookieString = cookies.map((c: any) => `${c.name}=${c.value}`).join('; ');
   return cookieString;
 }
 
+/**
+ * Forces a fresh login, e.g. from the admin API after the school rotated the password.
+ * The current cookies are restored if the login fails.
+ * @param account - The account to log in with.
+ * @returns true if a new session was obtained
+ */
+export async function forceRelogin(account: EngageAccount): Promise<boolean> {
+  // The current cookies stay in use until the login replaces them
+  await backupCookies(account);
+  try {
+    await getCompleteCookies(account);
+    await releaseAuthCooldown(account);
+    logger.info(`Forced re-login of account ${account.id} successful.`);
+    return true;
+  } catch (error) {
+    logger.error(`Forced re-login of account ${account.id} failed: ${(error as Error).message}`);
+    await restoreCookieBackup(account);
+    return false;
+  }
+}
+
+/**
+ * Classifies a failed Engage request for metrics.
+ */
+function classifyFetchFailure(error: any): EngageFetchOutcome {
+  const status = error?.response?.status;
+  if (status === 500 || status === 401 || status === 403) return 'auth';
+  if (status >= 500 && status < 600) return 'server_error';
+  if (status === undefined && (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT' || error?.code === 'ERR_CANCELED')) return 'timeout';
+  return 'error';
+}
+
 /**
  * Get activity details from API
- * Only returns data on HTTP 200. Returns null on any error (5xx, timeout, etc.)
+ * Only returns data on HTTP 200. Any error (5xx, timeout, etc.) is reported as failed, so
+ * callers can tell it from Engage answering that there is no such activity.
  */
 async function getActivityDetailsRaw(
   activityId: string,
   cookies: string,
-  maxRetries: number = 3,
+  maxRetries: number = CRAWLER_MAX_RETRIES,
   timeoutMilliseconds: number = 10000,
-  signal?: AbortSignal
-): Promise<string | null> {
+  deadline?: FetchDeadline
+): Promise<ActivityFetchResult> {
+  const signal = deadline?.signal;
   const url = 'https://engage.nkcswx.cn/Services/ActivitiesService.asmx/GetActivityDetails';
   const headers = {
     'Content-Type': 'application/json; charset=UTF-8',
@@ -71,21 +181,41 @@ async function getActivityDetailsRaw(
   for (let attempt = 0; attempt < maxRetries; attempt++) {
     if (signal?.aborted) {
       logger.debug(`Activity ${activityId} aborted before attempt ${attempt + 1}`);
-      return null;
+      return { status: 'failed', error: 'Aborted' };
+    }
+    if (engageRateLimiter) {
+      // Waiting for a token does not count against the fetch's time
+      deadline?.pause();
+      try {
+        await engageRateLimiter.acquire(signal);
+      } catch {
+        logger.debug(`Activity ${activityId} aborted while waiting for the rate limiter`);
+        return { status: 'failed', error: 'Aborted' };
+      } finally {
+        deadline?.resume();
+      }
     }
+    const elapsed = startTimer();
+    let observed = false;
+    const observe = (outcome: EngageFetchOutcome) => {
+      observed = true;
+      engageFetchDuration.observe({ outcome }, elapsed());
+    };
     try {
       logger.debug(`Attempt ${attempt + 1}/${maxRetries} for activity ${activityId} - Sending POST request to ${url}`);
-      const response = await axios.post(url, payload, {
+      // Throws CircuitOpenError while Engage is down, so callers can tell an outage from "no data"
+      const response = await trackEngageRequest(() => axios.post(url, payload, {
         headers,
         timeout: timeoutMilliseconds,
         responseType: 'text',
         signal,
         maxRedirects: 5
-      });
+      }));
       
       // CRITICAL: Only accept HTTP 200. Reject all other status codes including 5xx
       if (response.status !== 200) {
         logger.error(`Non-200 status ${response.status} for activity ${activityId}. NOT updating cache to preserve local data.`);
+        observe(response.status === 500 ? 'auth' : response.status >= 500 ? 'server_error' : 'error');
         
         // IMPORTANT: Only 500 is cookie expiration. Other 5xx (502/503/504) are real server outages.
         // The backend returns 500 when cookie is expired but session not yet invalidated.
@@ -99,8 +229,8 @@ async function getActivityDetailsRaw(
           logger.error(`Real server outage ${response.status} - preserving local cache, not re-login.`);
         }
         
-        // Return null immediately on non-200 errors
-        return null;
+        // Report non-200 errors immediately
+        return { status: 'failed', error: `HTTP ${response.status}` };
       }
       
       logger.debug(`Attempt ${attempt + 1}/${maxRetries} for activity ${activityId} - Received response status ${response.status}`);
@@ -109,14 +239,21 @@ async function getActivityDetailsRaw(
         const innerData = JSON.parse(outerData.d);
         if (innerData.isError) {
           logger.warn(`API reported isError:true for activity ${activityId}.`);
-          return null;
+          observe('empty');
+          return { status: 'empty' };
         }
-        return response.data;
+        observe('success');
+        return { status: 'found', data: innerData };
       } else {
         logger.error(`Unexpected API response structure for activity ${activityId}.`);
+        observe('empty');
       }
     } catch (error: any) {
-      
+      if (error instanceof CircuitOpenError) {
+        throw error;
+      }
+      if (!observed) observe(classifyFetchFailure(error));
+
       // Only treat 401 (Unauthorized) and 403 (Forbidden) as authentication errors
       // 404 (Not Found) is valid - activity doesn't exist
       // Other 4xx/5xx errors should not trigger re-authentication
@@ -141,51 +278,135 @@ async function getActivityDetailsRaw(
       }
       if (attempt === maxRetries - 1) {
         logger.error(`All ${maxRetries} retries failed for activity ${activityId}.`);
-        // Don't throw on network/timeout errors, just return null to preserve cache
-        return null;
+        // Don't throw on network/timeout errors, just report the failure to preserve cache
+        return { status: 'failed', error: error.message };
+      }
+      if (signal?.aborted) {
+        return { status: 'failed', error: 'Aborted' };
       }
-      await new Promise(resolve => setTimeout(resolve, 1000 * (attempt + 1)));
+      await new Promise(resolve => setTimeout(resolve, retryBackoffMs(attempt + 1, CRAWLER_RETRY_DELAY_MS, CRAWLER_RETRY_MAX_DELAY_MS)));
     }
   }
-  return null;
+  return { status: 'failed', error: `No usable response for activity ${activityId}` };
 }
 
+export type SessionProbeResult = 'valid' | 'expired' | 'inconclusive';
+
 /**
- * Main exported function. Handles cookie caching, validation, re-authentication, and fetches activity details.
+ * Checks whether a session cookie still works with a single request for a known activity.
+ * Only an authentication error counts as expired; timeouts, outages and empty answers say
+ * nothing about the session.
+ * @param cookies - Cookie header value
+ * @param activityId - An activity that exists
+ */
+export async function probeSession(cookies: string, activityId: string): Promise<SessionProbeResult> {
+  try {
+    const result = await getActivityDetailsRaw(activityId, cookies, 1, 10000);
+    return result.status === 'found' ? 'valid' : 'inconclusive';
+  } catch (error) {
+    if (error instanceof AuthenticationError) return 'expired';
+    logger.debug(`Session probe inconclusive: ${(error as Error).message}`);
+    return 'inconclusive';
+  }
+}
+
+/**
+ * Main exported function. Fetches activity details with the configured Engage accounts,
+ * starting from a different healthy account each call and moving on to the next one if an
+ * account cannot get a working session.
  * @param activityId - The ID of the activity to fetch.
- * @param userName - URL-encoded username.
- * @param userPwd - URL-encoded password.
- * @param forceLogin - If true, bypasses cached cookie and forces a new login.
- * @returns The parsed JSON object of activity details, or null on failure.
+ * @param forceLogin - If true, bypasses cached cookies and forces a new login.
+ * @param signal - Aborts the fetch.
+ * @param timeoutMs - Aborts the fetch once it has run this long, not counting time spent
+ *                    waiting for the rate limiter; 0 means no limit.
+ * @returns The activity, Engage having none, or why the fetch failed.
+ * @throws CircuitOpenError if Engage is considered down and no request was made.
+ */
+export async function fetchActivity(
+  activityId: string,
+  forceLogin: boolean = false,
+  signal?: AbortSignal,
+  timeoutMs: number = 0
+): Promise<ActivityFetchResult> {
+  const deadline = new FetchDeadline(timeoutMs, signal);
+  try {
+    const result = await fetchWithAccountsInTurn(activityId, forceLogin, deadline);
+    if (deadline.timedOut) {
+      return { status: 'failed', error: `Timeout after ${timeoutMs}ms`, timedOut: true };
+    }
+    return result;
+  } finally {
+    deadline.pause();
+  }
+}
+
+async function fetchWithAccountsInTurn(
+  activityId: string,
+  forceLogin: boolean,
+  deadline: FetchDeadline
+): Promise<ActivityFetchResult> {
+  const accounts = await getAccountsInTurn();
+  if (accounts.length === 0) {
+    logger.error('No Engage account configured. Cannot fetch activity data.');
+    return { status: 'failed', error: 'No Engage account configured' };
+  }
+
+  for (const [index, account] of accounts.entries()) {
+    const { result, sessionFailed } = await fetchActivityWithAccount(activityId, account, forceLogin, deadline);
+    if (!sessionFailed || deadline.signal.aborted) return result;
+    if (index < accounts.length - 1) {
+      logger.warn(`Account ${account.id} has no working session. Trying activity ${activityId} with the next account.`);
+    }
+  }
+  logger.error(`No Engage account could fetch activity ${activityId}.`);
+  return { status: 'failed', error: 'No Engage account has a working session' };
+}
+
+/**
+ * Like fetchActivity, for callers that only need the activity.
+ * @returns The parsed JSON object of activity details, or null if there is none or the fetch failed.
+ * @throws CircuitOpenError if Engage is considered down and no request was made.
  */
 export async function fetchActivityData(
   activityId: string,
-  userName: string,
-  userPwd: string,
   forceLogin: boolean = false,
   signal?: AbortSignal
 ): Promise<any | null> {
-  let currentCookie = forceLogin ? null : await getCachedCookieString();
+  const result = await fetchActivity(activityId, forceLogin, signal);
+  return result.status === 'found' ? result.data : null;
+}
+
+/**
+ * Handles cookie caching, validation, re-authentication, and fetches activity details
+ * with one account.
+ */
+async function fetchActivityWithAccount(
+  activityId: string,
+  account: EngageAccount,
+  forceLogin: boolean,
+  deadline: FetchDeadline
+): Promise<AccountFetchResult> {
+  let currentCookie = forceLogin ? null : await getCachedCookieString(account);
 
   if (forceLogin && currentCookie) {
-    logger.info('Forcing new login. Clearing cached cookie.');
-    await clearCookieCache();
+    logger.info(`Forcing new login of account ${account.id}. Clearing cached cookie.`);
+    await clearCookieCache(account);
     currentCookie = null;
   }
 
   if (!currentCookie) {
-    logger.info('No cached cookie found. Attempting login...');
+    logger.info(`No cached cookie found for account ${account.id}. Attempting login...`);
     try {
-      currentCookie = await getCompleteCookies(userName, userPwd);
+      currentCookie = await getCompleteCookies(account);
     } catch (loginError) {
       logger.error(`Login process failed: ${(loginError as Error).message}`);
-      return null;
+      return { result: { status: 'failed', error: `Login failed: ${(loginError as Error).message}` }, sessionFailed: true };
     }
   }
 
   if (!currentCookie) {
     logger.error('Critical: No cookie available after login attempt. Cannot fetch activity data.');
-    return null;
+    return { result: { status: 'failed', error: 'No cookie after login' }, sessionFailed: true };
   }
 
 
@@ -193,52 +414,62 @@ export async function fetchActivityData(
 
   try {
     logger.debug(`Calling getActivityDetailsRaw for activity ${activityId}...`);
-    const rawActivityDetailsString = await getActivityDetailsRaw(activityId, currentCookie, 3, 10000, signal);
+    const result = await getActivityDetailsRaw(activityId, currentCookie, CRAWLER_MAX_RETRIES, 10000, deadline);
     logger.debug(`getActivityDetailsRaw returned for activity ${activityId}`);
-    if (rawActivityDetailsString) {
-      const parsedOuter = JSON.parse(rawActivityDetailsString);
-      return JSON.parse(parsedOuter.d);
+    if (result.status === 'empty') {
+      logger.warn(`Engage has no data for activity ${activityId}.`);
     }
-    logger.warn(`No data returned from getActivityDetailsRaw for activity ${activityId}, but no authentication error was thrown.`);
-    return null;
+    return { result, sessionFailed: false };
   } catch (error) {
-    if (signal?.aborted) {
+    if (error instanceof CircuitOpenError) {
+      logger.debug(`Engage circuit open. Not fetching activity ${activityId}.`);
+      throw error;
+    }
+    if (deadline.signal.aborted) {
       logger.debug(`Activity ${activityId} fetch aborted.`);
-      return null;
+      return { result: { status: 'failed', error: 'Aborted' }, sessionFailed: false };
     }
     if (error instanceof AuthenticationError) {
       // Throttle: prevent thundering herd from multiple 500 errors
-      if (!tryAcquireAuthLock()) {
+      if (!(await tryAcquireAuthLock(account))) {
         logger.info(`Auth throttled for activity ${activityId}. Reusing current cookies — likely still valid.`);
-        return null;
+        return { result: { status: 'failed', error: 'Re-login throttled' }, sessionFailed: true };
       }
 
-      // Backup cookies before clearing so we can restore on re-login failure
-      backupCookies();
-      await clearCookieCache();
+      // Backup cookies so we can restore on re-login failure. They are not cleared: the
+      // login swaps in new cookies in one step, so other requests and replicas never find none.
+      await backupCookies(account);
 
       try {
-        logger.info('Attempting re-login due to authentication failure...');
-        currentCookie = await getCompleteCookies(userName, userPwd);
-        releaseAuthCooldown();
+        logger.info(`Attempting re-login of account ${account.id} due to authentication failure...`);
+        currentCookie = await getCompleteCookies(account);
+        await releaseAuthCooldown(account);
+      } catch (loginError) {
+        const message = (loginError as Error).message;
+        logger.error(`Re-login failed for activity ${activityId}: ${message}`);
+        // Restore old cookies instead of leaving cache empty
+        await restoreCookieBackup(account);
+        markCookiesBad(account, `Re-login failed after an authentication error: ${message}`);
+        return { result: { status: 'failed', error: `Re-login failed: ${message}` }, sessionFailed: true };
+      }
 
+      // The new session is good; a failed retry is an ordinary fetch failure
+      try {
         logger.info('Re-login successful. Retrying request for activity details...');
-        const rawActivityDetailsStringRetry = await getActivityDetailsRaw(activityId, currentCookie, 1, 10000, signal);
-        if (rawActivityDetailsStringRetry) {
-          const parsedOuterRetry = JSON.parse(rawActivityDetailsStringRetry);
-          return JSON.parse(parsedOuterRetry.d);
+        const retry = await getActivityDetailsRaw(activityId, currentCookie, 1, 10000, deadline);
+        if (retry.status !== 'found') {
+          logger.warn(`Still no details for activity ${activityId} after re-login and retry.`);
         }
-        logger.warn(`Still no details for activity ${activityId} after re-login and retry.`);
-        return null;
-      } catch (retryLoginOrFetchError) {
-        logger.error(`Re-login or retry failed for activity ${activityId}: ${(retryLoginOrFetchError as Error).message}`);
-        // Restore old cookies instead of leaving cache empty
-        await restoreCookieBackup();
-        return null;
+        return { result: retry, sessionFailed: false };
+      } catch (retryError) {
+        if (retryError instanceof CircuitOpenError) throw retryError;
+        const message = (retryError as Error).message;
+        logger.error(`Retry after re-login failed for activity ${activityId}: ${message}`);
+        return { result: { status: 'failed', error: message }, sessionFailed: false };
       }
     } else {
       logger.error(`Failed to fetch activity data for ${activityId} due to non-authentication error: ${(error as Error).message}`);
-      return null;
+      return { result: { status: 'failed', error: (error as Error).message }, sessionFailed: false };
     }
   }
 }
@@ -1,6 +1,7 @@
 // engage-api/struct-activity.ts
 import pangu from 'pangu';
 import { logger } from '../utils/logger';
+import { normalizeSchedule } from '../utils/schedule-parser';
 import type { ActivityData } from '../models/activity';
 
 // Define interfaces
@@ -73,6 +74,7 @@ const clubSchema: ActivityData = {
     startTime: null
   },
   name: null,
+  normalizedSchedule: null,
   photo: null,
   poorWeatherPlan: null,
   requirements: [],
@@ -200,6 +202,8 @@ async function postProcess(structuredActivityData: ActivityData): Promise<void>
     structuredActivityData.grades.min = null;
     structuredActivityData.grades.max = null;
   }
+  // Parse meeting day and times so they can be filtered on
+  structuredActivityData.normalizedSchedule = normalizeSchedule(structuredActivityData);
 }
 
 export async function structActivityData(rawActivityData: RawActivityData): Promise<ActivityData> {
@@ -20,17 +20,19 @@ axios.defaults.httpsAgent = new https.Agent({
   maxFreeSockets: 10,
   timeout: 30000
 });
-import { fetchActivityData } from './engage-api/get-activity';
+import { fetchActivity, fetchActivityData } from './engage-api/get-activity';
+import { CircuitOpenError } from './utils/circuit-breaker';
 import { structActivityData } from './engage-api/struct-activity';
 import { structStaffData } from './engage-api/struct-staff';
 import {
   getActivityData,
-  setActivityData,
   getStaffData,
-  setStaffData,
   getRedisClient,
-  getAllActivityKeys,
-  ACTIVITY_KEY_PREFIX,
+  queryActivityIds,
+  getActivitiesByIds,
+  getActivityIndexCounts,
+  isListableActivity,
+  rebuildActivityIndexes,
   closeRedisConnection
 } from './services/redis-service';
 import { uploadImageFromBase64 } from './services/s3-service';
@@ -38,9 +40,48 @@ import { extractBase64Image } from './utils/image-processor';
 import {
   initializeClubCache,
   updateStaleClubs,
-  initializeOrUpdateStaffCache
+  initializeOrUpdateStaffCache,
+  storeActivityData,
+  storeStaffData,
+  runCacheJob,
+  enqueueMissedActivity,
+  updateCrawlMetrics
 } from './services/cache-manager';
+import { rebuildSearchIndex, searchActivities, searchStaff, startSearchIndexSync, stopSearchIndexSync } from './services/search-service';
+import { getActivityHistory, getChangesSince } from './services/history-service';
+import { startWebhookDispatcher, stopWebhookDispatcher } from './services/webhook-service';
+import { startEventStream, stopEventStream, addEventClient, canAcceptEventClient } from './services/event-stream-service';
+import { interruptCrawlReports } from './services/crawl-report-service';
+import { startSessionMonitor, stopSessionMonitor } from './services/session-monitor';
+import { hasEngageAccounts } from './services/account-pool';
+import { getReadiness, getServiceStatus } from './services/health-service';
+import { APP_EVENT_TYPES, type AppEventType } from './services/event-bus';
+import { adminRouter } from './routes/admin';
 import { logger } from './utils/logger';
+import { metricsRegistry, httpMetricsMiddleware } from './utils/metrics';
+import {
+  ACTIVITY_LIST_SORTS,
+  ACTIVITY_LIST_FIELDS,
+  DEFAULT_LIST_PAGE_SIZE,
+  MAX_LIST_PAGE_SIZE,
+  decodeListCursor,
+  paginateActivities,
+  pickActivityFields,
+  matchesMeetingFilters,
+  type MeetingFilters,
+  type ActivityListSort,
+  type SortOrder
+} from './utils/activity-list';
+import { parseWeekday, parseClockTime, parseGradeLabel, getNormalizedSchedule } from './utils/schedule-parser';
+import { buildActivityCalendar, hasCalendarEvent } from './utils/ical';
+import {
+  findClashes,
+  findAlternatives,
+  isOpenToGrade,
+  isSchedulable,
+  toTimetableSlot,
+  type TimetableSlot
+} from './utils/timetable';
 import type { ActivityData } from './models/activity'
 
 // Define interfaces for our data structures
@@ -62,17 +103,13 @@ interface ProcessedActivityResult {
 
 config();
 
-const USERNAME = process.env.API_USERNAME;
-const PASSWORD = process.env.API_PASSWORD;
 const PORT = process.env.PORT || 3000;
 
-// Mutex flags to prevent overlapping cron runs
-let isUpdatingClubs = false;
-let isUpdatingStaff = false;
 const FIXED_STAFF_ACTIVITY_ID = process.env.FIXED_STAFF_ACTIVITY_ID;
 const allowedOriginsEnv = process.env.ALLOWED_ORIGINS || '*';
 const CLUB_CHECK_INTERVAL_SECONDS = parseInt(process.env.CLUB_CHECK_INTERVAL_SECONDS || '300', 10);
 const STAFF_CHECK_INTERVAL_SECONDS = parseInt(process.env.STAFF_CHECK_INTERVAL_SECONDS || '300', 10);
+const SSE_HEARTBEAT_SECONDS = parseInt(process.env.SSE_HEARTBEAT_SECONDS || '25', 10);
 
 // CORS configuration
 type CorsOptions = {
@@ -96,22 +133,29 @@ if (allowedOriginsEnv === '*') {
 }
 
 const app = express();
+app.use(httpMetricsMiddleware);
 app.use(cors(corsOptions));
 app.use(express.json());
+app.use('/v1/admin', adminRouter);
 
 // Helper function to process activity data (fetch, struct, S3, cache) for API calls
 async function fetchProcessAndStoreActivity(activityId: string): Promise<ProcessedActivityResult> {
   logger.info(`API call: Cache miss or forced fetch for activity ID: ${activityId}.`);
-  const activityJson = await fetchActivityData(activityId, USERNAME as string, PASSWORD as string);
+  const fetched = await fetchActivity(activityId);
 
-  if (!activityJson) {
+  if (fetched.status === 'failed') {
+    // Says nothing about the activity, so nothing is cached
+    logger.warn(`API call: Fetching activity ${activityId} failed: ${fetched.error}`);
+    return { data: { lastCheck: new Date().toISOString(), error: 'Could not reach the school activity service.' }, status: 502 };
+  }
+  if (fetched.status === 'empty') {
     logger.warn(`API call: No data from engage API for activity ${activityId}. Caching as empty.`);
     const emptyData: ActivityData = { lastCheck: new Date().toISOString(), source: 'api-fetch-empty' };
-    await setActivityData(activityId, emptyData);
+    await storeActivityData(activityId, emptyData);
     return { data: emptyData, status: 404 };
   }
 
-  let structuredActivity = await structActivityData(activityJson);
+  let structuredActivity = await structActivityData(fetched.data);
   if (structuredActivity && structuredActivity.photo && 
     typeof structuredActivity.photo === 'string' && 
     structuredActivity.photo.startsWith('data:image')) {
@@ -127,22 +171,80 @@ async function fetchProcessAndStoreActivity(activityId: string): Promise<Process
     }
   }
   structuredActivity.lastCheck = new Date().toISOString();
-  await setActivityData(activityId, structuredActivity);
+  await storeActivityData(activityId, structuredActivity);
   return { data: structuredActivity, status: 200 };
 }
 
+// Engage is down and the circuit breaker is refusing requests; tell clients when to retry
+function sendEngageUnavailable(res: Response, error: CircuitOpenError, extra: Record<string, string> = {}) {
+  res.setHeader('Retry-After', String(Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000))));
+  return res.status(503).json({ error: 'The school activity service is unavailable. Try again later.', ...extra });
+}
+
 // --- API Endpoints ---
 app.get('/', (_req: Request, res: Response) => {
   res.send('Welcome to the DSAS CCA API!<br/>\
     GET /v1/activity/list<br/>\
     GET /v1/activity/list?category={categoryName}<br/>\
     GET /v1/activity/list?academicYear={YYYY/YYYY}<br/>\
-    GET /v1/activity/list?grade={1-12}<br/>\
+    GET /v1/activity/list?grade={1-12|KG1-KG3}<br/>\
     GET /v1/activity/list?isStudentLed={true|false}<br/>\
+    GET /v1/activity/list?day={monday-sunday}&startAfter={HH:mm}&endBefore={HH:mm}&site={site}&room={room}<br/>\
+    GET /v1/activity/list?limit={1-500}&cursor={cursor}&sort={name|id|category|lastCheck}&order={asc|desc}&fields={field,...}<br/>\
     GET /v1/activity/category<br/>\
     GET /v1/activity/academicYear<br/>\
+    GET /v1/activity/search?q={query}<br/>\
     GET /v1/activity/:activityId<br/>\
-    GET /v1/staffs');
+    GET /v1/activity/:activityId/calendar.ics<br/>\
+    GET /v1/activity/:activityId/history?limit={1-200}<br/>\
+    GET /v1/calendar.ics?ids={id,id,...}<br/>\
+    GET /v1/changes?since={ISO timestamp|eventId}&limit={1-1000}<br/>\
+    GET /v1/events?types={type,...} (server-sent events)<br/>\
+    GET /v1/timetable/clashes?ids={id,id,...}&grade={1-12|KG1-KG3}<br/>\
+    GET /v1/staffs<br/>\
+    GET /v1/staffs/search?q={query}<br/>\
+    GET /healthz<br/>\
+    GET /readyz<br/>\
+    GET /status<br/>\
+    GET /metrics (Prometheus)');
+});
+
+// Liveness: answering at all means the process is up
+app.get('/healthz', (_req: Request, res: Response) => {
+  res.json({ status: 'ok' });
+});
+
+// Readiness: 503 while a dependency check fails
+app.get('/readyz', async (_req: Request, res: Response) => {
+  try {
+    const readiness = await getReadiness();
+    res.status(readiness.ready ? 200 : 503).json(readiness);
+  } catch (error) {
+    logger.error('Error in /readyz endpoint:', error);
+    res.status(503).json({ ready: false, error: 'Readiness check failed.' });
+  }
+});
+
+app.get('/status', async (_req: Request, res: Response) => {
+  try {
+    const status = await getServiceStatus();
+    res.status(status.ready ? 200 : 503).json(status);
+  } catch (error) {
+    logger.error('Error in /status endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while collecting status.' });
+  }
+});
+
+// Prometheus scrape endpoint
+app.get('/metrics', async (_req: Request, res: Response) => {
+  try {
+    await updateCrawlMetrics();
+    res.set('Content-Type', metricsRegistry.contentType);
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    logger.error('Error in /metrics endpoint:', error);
+    res.status(500).send('Failed to collect metrics.');
+  }
 });
 
 // Activity list endpoint with filtering capabilities
@@ -152,6 +254,18 @@ app.get('/v1/activity/list', async (req: Request, res: Response) => {
     const academicYear   = req.query.academicYear as string | undefined;
     const grade          = req.query.grade as string | undefined;
     const isStudentLedQ  = req.query.isStudentLed as string | undefined;
+    const limitQ         = req.query.limit as string | undefined;
+    const cursorQ        = req.query.cursor as string | undefined;
+    const sortQ          = req.query.sort as string | undefined;
+    const orderQ         = req.query.order as string | undefined;
+    const fieldsQ        = req.query.fields as string | undefined;
+    const dayQ           = req.query.day as string | undefined;
+    const startAfterQ    = req.query.startAfter as string | undefined;
+    const endBeforeQ     = req.query.endBefore as string | undefined;
+    const siteQ          = req.query.site as string | undefined;
+    const roomQ          = req.query.room as string | undefined;
+    // Any of these switches the response to the paginated shape; without them the old map is returned
+    const isPaginated = [limitQ, cursorQ, sortQ, orderQ, fieldsQ].some(v => v !== undefined);
 
     /* ---------- validate query params ---------- */
     // academicYear (YYYY/YYYY)
@@ -161,14 +275,14 @@ app.get('/v1/activity/list', async (req: Request, res: Response) => {
         return res.status(400).json({ error: 'Invalid academicYear format. Expected format: YYYY/YYYY' });
       }
     }
-    // grade (1 – 12)
-    let validGrade: number | null = null;
+    // grade (1 – 12, or KG1 – KG3)
+    let validGrade: string | null = null;
     if (grade !== undefined) {
-      const parsedGrade = parseInt(grade, 10);
-      if (isNaN(parsedGrade) || parsedGrade < 1 || parsedGrade > 12) {
-        return res.status(400).json({ error: 'Invalid grade parameter. Must be a number between 1 and 12.' });
+      const gradeLabel = parseGradeLabel(grade);
+      if (!gradeLabel) {
+        return res.status(400).json({ error: 'Invalid grade parameter. Must be a number between 1 and 12, or KG1 to KG3.' });
       }
-      validGrade = parsedGrade;
+      validGrade = gradeLabel;
     }
     // isStudentLed ("true" | "false")
     let isStudentLedFilter: boolean | null = null;
@@ -179,69 +293,112 @@ app.get('/v1/activity/list', async (req: Request, res: Response) => {
         return res.status(400).json({ error: 'Invalid isStudentLed parameter. Must be "true" or "false".' });
       }
     }
-    logger.info(`Request /v1/activity/list filters: ${JSON.stringify({ category, academicYear, grade: validGrade, isStudentLed: isStudentLedFilter })}`);
-
-    /* ---------- fetch & cache ---------- */
-    const activityKeys = await getAllActivityKeys();
-    const clubList: Record<string, { name: string; photo: string }> = {};
+    // day / startAfter / endBefore / site / room
+    const meetingFilters: MeetingFilters = {};
+    if (dayQ !== undefined) {
+      const day = parseWeekday(dayQ);
+      if (!day) {
+        return res.status(400).json({ error: 'Invalid day parameter. Must be a weekday name such as "tuesday" or "tue".' });
+      }
+      meetingFilters.day = day;
+    }
+    if (startAfterQ !== undefined) {
+      const startAfter = parseClockTime(startAfterQ);
+      if (!startAfter) {
+        return res.status(400).json({ error: 'Invalid startAfter parameter. Expected a time such as 15:30 or 3:30pm.' });
+      }
+      meetingFilters.startAfter = startAfter;
+    }
+    if (endBeforeQ !== undefined) {
+      const endBefore = parseClockTime(endBeforeQ);
+      if (!endBefore) {
+        return res.status(400).json({ error: 'Invalid endBefore parameter. Expected a time such as 17:00 or 5pm.' });
+      }
+      meetingFilters.endBefore = endBefore;
+    }
+    if (siteQ !== undefined && siteQ.trim()) meetingFilters.site = siteQ.trim();
+    if (roomQ !== undefined && roomQ.trim()) meetingFilters.room = roomQ.trim();
+
+    // limit (1 – MAX_LIST_PAGE_SIZE)
+    let pageSize = DEFAULT_LIST_PAGE_SIZE;
+    if (limitQ !== undefined) {
+      const parsedLimit = parseInt(limitQ, 10);
+      if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > MAX_LIST_PAGE_SIZE) {
+        return res.status(400).json({ error: `Invalid limit parameter. Must be a number between 1 and ${MAX_LIST_PAGE_SIZE}.` });
+      }
+      pageSize = parsedLimit;
+    }
+    // sort & order
+    const sort = (sortQ ?? 'id') as ActivityListSort;
+    if (!ACTIVITY_LIST_SORTS.includes(sort)) {
+      return res.status(400).json({ error: 'Invalid sort parameter.', availableSorts: ACTIVITY_LIST_SORTS });
+    }
+    const order = (orderQ ?? 'asc') as SortOrder;
+    if (order !== 'asc' && order !== 'desc') {
+      return res.status(400).json({ error: 'Invalid order parameter. Must be "asc" or "desc".' });
+    }
+    // cursor (must come from a page with the same sort & order)
+    let cursor: ReturnType<typeof decodeListCursor> = null;
+    if (cursorQ !== undefined) {
+      cursor = decodeListCursor(cursorQ);
+      if (!cursor) {
+        return res.status(400).json({ error: 'Invalid cursor parameter.' });
+      }
+      if (cursor.sort !== sort || cursor.order !== order) {
+        return res.status(400).json({ error: 'Cursor does not match the sort and order parameters.' });
+      }
+    }
+    // fields (comma-separated ActivityData fields)
+    const fields = fieldsQ ? [...new Set(fieldsQ.split(',').map(f => f.trim()).filter(Boolean))] : [];
+    const unknownFields = fields.filter(f => !ACTIVITY_LIST_FIELDS.includes(f));
+    if (unknownFields.length > 0) {
+      return res.status(400).json({ error: `Invalid fields parameter: ${unknownFields.join(', ')}.`, availableFields: ACTIVITY_LIST_FIELDS });
+    }
+    logger.info(`Request /v1/activity/list filters: ${JSON.stringify({ category, academicYear, grade: validGrade, isStudentLed: isStudentLedFilter, ...meetingFilters })}`);
 
-    if (!activityKeys || activityKeys.length === 0) {
-      logger.info('No activity keys found in Redis for list.');
-      return res.json({});
+    /* ---------- validate against indexed values ---------- */
+    if (category) {
+      const availableCategories = await getActivityIndexCounts('category');
+      if (!(category in availableCategories)) {
+        return res.status(400).json({ error: 'Invalid category parameter. Category not found.', availableCategories: Object.keys(availableCategories) });
+      }
+    }
+    if (academicYear) {
+      const availableAcademicYears = await getActivityIndexCounts('academicYear');
+      if (!(academicYear in availableAcademicYears)) {
+        return res.status(400).json({ error: 'Invalid academicYear parameter. Academic year not found.', availableAcademicYears: Object.keys(availableAcademicYears) });
+      }
     }
 
-    const allActivities: (ActivityData | null)[] = [];
-    for (const k of activityKeys) {
-      const activityData = await getActivityData(k.substring(ACTIVITY_KEY_PREFIX.length));
-      allActivities.push(activityData);
+    /* ---------- resolve filters from indexes ---------- */
+    const activityIds = await queryActivityIds({
+      category: category || undefined,
+      academicYear: academicYear || undefined,
+      grade: validGrade ?? undefined,
+      isStudentLed: isStudentLedFilter ?? undefined
+    });
+    const clubList: Record<string, { name: string; photo: string }> = {};
+
+    if (activityIds.length === 0) {
+      logger.info('No indexed activities match the list filters.');
+      return res.json(isPaginated ? { items: [], total: 0, nextCursor: null } : {});
     }
 
-    /* ---------- gather available filter values for validation ---------- */
-    const availableCategories    = new Set<string>();
-    const availableAcademicYears = new Set<string>();
+    const activities: ActivityData[] = (await getActivitiesByIds(activityIds))
+      .filter(a => isListableActivity(a) && matchesMeetingFilters(a, meetingFilters));
 
-    allActivities.forEach(a => {
-      if (a && !a.error && a.source !== 'api-fetch-empty') {
-        if (a.category)      availableCategories.add(a.category);
-        if (a.academicYear)  availableAcademicYears.add(a.academicYear);
-      }
-    });
+    if (isPaginated) {
+      const { page, nextCursor } = paginateActivities(activities, sort, order, pageSize, cursor);
+      logger.info(`Returning page of ${page.length} of ${activities.length} clubs after filtering.`);
+      return res.json({
+        items: page.map(a => pickActivityFields(a, fields)),
+        total: activities.length,
+        nextCursor
+      });
+    }
 
-    if (category && !availableCategories.has(category)) {
-      return res.status(400).json({ error: 'Invalid category parameter. Category not found.', availableCategories: [...availableCategories] });
-    }
-    if (academicYear && !availableAcademicYears.has(academicYear)) {
-      return res.status(400).json({ error: 'Invalid academicYear parameter. Academic year not found.', availableAcademicYears: [...availableAcademicYears] });
-    }
-
-    /* ---------- apply filters ---------- */
-    allActivities.forEach(a => {
-      if (
-        a &&
-        a.id &&
-        a.name &&
-        !a.error &&
-        a.source !== 'api-fetch-empty'
-      ) {
-        // category
-        if (category && a.category !== category) return;
-        // academicYear
-        if (academicYear && a.academicYear !== academicYear) return;
-        // grade
-        if (validGrade !== null) {
-          if (!a.grades || a.grades.min == null || a.grades.max == null) return;
-          const minG = parseInt(a.grades.min, 10);
-          const maxG = parseInt(a.grades.max, 10);
-          if (isNaN(minG) || isNaN(maxG) || validGrade < minG || validGrade > maxG) return;
-        }
-        // isStudentLed
-        if (isStudentLedFilter !== null) {
-          // Treat missing value as false
-          const led = a.isStudentLed ?? false;
-          if (led !== isStudentLedFilter) return;
-        }
-        clubList[a.id] = { name: a.name, photo: a.photo || '' };
-      }
+    activities.forEach(a => {
+      clubList[a.id as string] = { name: a.name as string, photo: a.photo || '' };
     });
     logger.info(`Returning ${Object.keys(clubList).length} clubs after filtering.`);
     res.json(clubList);
@@ -255,33 +412,7 @@ app.get('/v1/activity/list', async (req: Request, res: Response) => {
 app.get('/v1/activity/category', async (_req: Request, res: Response) => {
   try {
     logger.info('Request received for /v1/activity/category');
-    const activityKeys = await getAllActivityKeys();
-    const categoryMap: Record<string, number> = {};
-
-    if (!activityKeys || activityKeys.length === 0) {
-      logger.info('No activity keys found in Redis for categories.');
-      return res.json({});
-    }
-    // Fetch all activity data sequentially
-    const allActivities: (ActivityData | null)[] = [];
-    for (const key of activityKeys) {
-      const activityId = key.substring(ACTIVITY_KEY_PREFIX.length);
-      const activityData = await getActivityData(activityId);
-      allActivities.push(activityData);
-    }
-
-    allActivities.forEach((activityData: ActivityData | null) => {
-      if (activityData && 
-        activityData.category && 
-        !activityData.error && 
-        activityData.source !== 'api-fetch-empty') {
-        if (categoryMap[activityData.category]) {
-          categoryMap[activityData.category] = (categoryMap[activityData.category] ?? 0) + 1;
-        } else {
-          categoryMap[activityData.category] = 1;
-        }
-      }
-    });
+    const categoryMap = await getActivityIndexCounts('category');
 
     logger.info(`Returning list of ${Object.keys(categoryMap).length} categories.`);
     res.json(categoryMap);
@@ -295,37 +426,13 @@ app.get('/v1/activity/category', async (_req: Request, res: Response) => {
 app.get('/v1/activity/academicYear', async (_req: Request, res: Response) => {
   try {
     logger.info('Request received for /v1/activity/academicYear');
-    const activityKeys = await getAllActivityKeys();
-    const academicYearMap: Record<string, number> = {};
-
-    if (!activityKeys?.length) {
-      logger.info('No activity keys found in Redis for academic years.');
-      return res.json({});
-    }
-    // 1. Fetch all activity data sequentially
-    const allActivities: (ActivityData | null)[] = [];
-    for (const key of activityKeys) {
-      const activityId = key.substring(ACTIVITY_KEY_PREFIX.length);
-      const activityData = await getActivityData(activityId);
-      allActivities.push(activityData);
-    }
-    // 2. Count activities per academic year
-    allActivities.forEach((activityData: ActivityData | null) => {
-      if (
-        activityData &&
-        activityData.academicYear &&
-        !activityData.error &&
-        activityData.source !== 'api-fetch-empty'
-      ) {
-        academicYearMap[activityData.academicYear] =
-          (academicYearMap[activityData.academicYear] ?? 0) + 1;
-      }
-    });
-    // 3. Sort the years in descending order (based on the start year)
+    const academicYearMap = await getActivityIndexCounts('academicYear');
+
+    // Sort the years in descending order (based on the start year)
     const sortedAcademicYearMap: Record<string, number> = Object.fromEntries(
       Object.entries(academicYearMap).sort(([yearA], [yearB]) => {
-        const startA = parseInt(yearA.split('/')[0], 10);
-        const startB = parseInt(yearB.split('/')[0], 10);
+        const startA = parseInt(yearA.split('/')[0] ?? '', 10);
+        const startB = parseInt(yearB.split('/')[0] ?? '', 10);
         return startB - startA;
       })
     );
@@ -342,6 +449,58 @@ app.get('/v1/activity/academicYear', async (_req: Request, res: Response) => {
   }
 });
 
+/**
+ * Validates the q and limit query parameters shared by the search endpoints.
+ * @returns The trimmed query and limit, or an error message for a 400 response
+ */
+function parseSearchParams(req: Request): { query: string; limit: number } | { error: string } {
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  const limitQ = req.query.limit as string | undefined;
+
+  if (!query) {
+    return { error: 'Missing search query. Use ?q={query}.' };
+  }
+  if (query.length > 100) {
+    return { error: 'Search query is too long. Maximum length is 100 characters.' };
+  }
+  let limit = 20;
+  if (limitQ !== undefined) {
+    const parsedLimit = parseInt(limitQ, 10);
+    if (isNaN(parsedLimit) || parsedLimit < 1 || parsedLimit > 100) {
+      return { error: 'Invalid limit parameter. Must be a number between 1 and 100.' };
+    }
+    limit = parsedLimit;
+  }
+  return { query, limit };
+}
+
+// Full-text search endpoint (registered before /:activityId so "search" is not taken as an ID)
+app.get('/v1/activity/search', async (req: Request, res: Response) => {
+  const params = parseSearchParams(req);
+  if ('error' in params) {
+    return res.status(400).json({ error: params.error });
+  }
+
+  try {
+    logger.info(`Request /v1/activity/search q=${JSON.stringify(params.query)} limit=${params.limit}`);
+    const result = await searchActivities(params.query, params.limit);
+    logger.info(`Search returned ${result.results.length} of ${result.total} matches.`);
+    res.json(result);
+  } catch (error) {
+    logger.error('Error in /v1/activity/search endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while searching activities.' });
+  }
+});
+
+/**
+ * Queues a crawl of an activity the API could not serve, without holding up the response.
+ */
+function queueMissedActivity(activityId: string): void {
+  void enqueueMissedActivity(activityId).catch(err => {
+    logger.error(`Error queueing a crawl of missed activity ${activityId}:`, err);
+  });
+}
+
 // Single activity endpoint
 app.get('/v1/activity/:activityId', async (req: Request, res: Response) => {
   const { activityId } = req.params;
@@ -349,8 +508,8 @@ app.get('/v1/activity/:activityId', async (req: Request, res: Response) => {
   if (!/^\d{1,4}$/.test(activityId)) {
     return res.status(400).json({ error: 'Invalid Activity ID format.' });
   }
-  if (!USERNAME || !PASSWORD) {
-    logger.error('API username or password not configured.');
+  if (!hasEngageAccounts()) {
+    logger.error('No Engage account configured (API_USERNAME/API_PASSWORD or ENGAGE_ACCOUNTS).');
     return res.status(500).json({ error: 'Server configuration error.' });
   }
 
@@ -373,17 +532,290 @@ app.get('/v1/activity/:activityId', async (req: Request, res: Response) => {
     if (status === 404 && Object.keys(liveActivity).filter(k => k !== 'lastCheck' && k !== 'cache' && k !== 'source').length === 0) {
       return res.status(404).json({ error: `Activity ${activityId} not found.`, ...liveActivity });
     }
+    if (status === 502) {
+      // A failed fetch may be transient; let the next crawl try again
+      queueMissedActivity(activityId);
+    }
     res.status(status).json(liveActivity);
   } catch (error) {
+    queueMissedActivity(activityId);
+    if (error instanceof CircuitOpenError) {
+      return sendEngageUnavailable(res, error, { cache: "MISS" });
+    }
     logger.error(`Error in /v1/activity/${activityId} endpoint:`, error);
     res.status(500).json({ error: 'An internal server error occurred.', cache: "ERROR" });
   }
 });
 
+const MAX_CALENDAR_ACTIVITIES = 50;
+
+/**
+ * Parses the comma-separated ids query parameter shared by the selection endpoints.
+ * @returns Unique activity IDs in request order, or an error message
+ */
+function parseActivityIdsParam(req: Request, maxIds: number): string[] | { error: string } {
+  const idsParam = req.query.ids;
+  if (typeof idsParam !== 'string' || !idsParam.trim()) {
+    return { error: 'Missing ids parameter. Expected a comma-separated list of activity IDs.' };
+  }
+  const activityIds = [...new Set(idsParam.split(',').map(id => id.trim()).filter(Boolean))];
+  if (activityIds.some(id => !/^\d{1,4}$/.test(id))) {
+    return { error: 'Invalid Activity ID format in ids.' };
+  }
+  if (activityIds.length > maxIds) {
+    return { error: `Too many activities. At most ${maxIds} IDs are allowed.` };
+  }
+  return activityIds;
+}
+
+function sendCalendar(res: Response, filename: string, body: string): void {
+  res.set('Content-Type', 'text/calendar; charset=utf-8');
+  res.set('Content-Disposition', `inline; filename="${filename}"`);
+  res.send(body);
+}
+
+// iCalendar feed for a single activity (served from cache only)
+app.get('/v1/activity/:activityId/calendar.ics', async (req: Request, res: Response) => {
+  const { activityId } = req.params;
+
+  if (!/^\d{1,4}$/.test(activityId)) {
+    return res.status(400).json({ error: 'Invalid Activity ID format.' });
+  }
+
+  try {
+    const activity = await getActivityData(activityId);
+    if (!isListableActivity(activity)) {
+      return res.status(404).json({ error: `Activity ${activityId} not found.` });
+    }
+    if (!hasCalendarEvent(activity)) {
+      return res.status(422).json({ error: `Activity ${activityId} has no regular meeting time.` });
+    }
+    logger.info(`Request /v1/activity/${activityId}/calendar.ics`);
+    sendCalendar(res, `activity-${activityId}.ics`, buildActivityCalendar([activity], activity.name));
+  } catch (error) {
+    logger.error(`Error in /v1/activity/${activityId}/calendar.ics endpoint:`, error);
+    res.status(500).json({ error: 'An internal server error occurred while building the calendar.' });
+  }
+});
+
+// iCalendar feed for a personal selection of activities
+app.get('/v1/calendar.ics', async (req: Request, res: Response) => {
+  const activityIds = parseActivityIdsParam(req, MAX_CALENDAR_ACTIVITIES);
+  if ('error' in activityIds) {
+    return res.status(400).json({ error: activityIds.error });
+  }
+
+  try {
+    logger.info(`Request /v1/calendar.ics with ${activityIds.length} IDs`);
+    const activities = (await getActivitiesByIds(activityIds)).filter(isListableActivity);
+    if (activities.length === 0) {
+      return res.status(404).json({ error: 'None of the requested activities were found.' });
+    }
+    sendCalendar(res, 'cca-calendar.ics', buildActivityCalendar(activities, 'DSAS CCA'));
+  } catch (error) {
+    logger.error('Error in /v1/calendar.ics endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while building the calendar.' });
+  }
+});
+
+const DEFAULT_HISTORY_LIMIT = 50;
+const MAX_HISTORY_LIMIT = 200;
+const DEFAULT_CHANGES_LIMIT = 100;
+const MAX_CHANGES_LIMIT = 1000;
+const DEFAULT_CHANGES_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parses an optional limit query parameter.
+ * @returns The limit, or null if it is not an integer within 1..max
+ */
+function parseLimitParam(value: unknown, defaultLimit: number, maxLimit: number): number | null {
+  if (value === undefined) return defaultLimit;
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) return null;
+  const limit = parseInt(value, 10);
+  return limit >= 1 && limit <= maxLimit ? limit : null;
+}
+
+// Field-level change history of one activity, newest first
+app.get('/v1/activity/:activityId/history', async (req: Request, res: Response) => {
+  const { activityId } = req.params;
+
+  if (!/^\d{1,4}$/.test(activityId)) {
+    return res.status(400).json({ error: 'Invalid Activity ID format.' });
+  }
+  const limit = parseLimitParam(req.query.limit, DEFAULT_HISTORY_LIMIT, MAX_HISTORY_LIMIT);
+  if (limit === null) {
+    return res.status(400).json({ error: `Invalid limit parameter. Expected an integer from 1 to ${MAX_HISTORY_LIMIT}.` });
+  }
+
+  try {
+    logger.info(`Request /v1/activity/${activityId}/history limit=${limit}`);
+    const history = await getActivityHistory(activityId, limit);
+    res.json({ activityId, history });
+  } catch (error) {
+    logger.error(`Error in /v1/activity/${activityId}/history endpoint:`, error);
+    res.status(500).json({ error: 'An internal server error occurred while getting the history.' });
+  }
+});
+
+// Changes across all activities, oldest first. since= is an ISO timestamp or the nextSince of a previous page.
+app.get('/v1/changes', async (req: Request, res: Response) => {
+  const sinceQ = req.query.since as string | undefined;
+  let since: { timestamp: number } | { eventId: string };
+  if (sinceQ === undefined) {
+    since = { timestamp: Date.now() - DEFAULT_CHANGES_WINDOW_MS };
+  } else if (/^\d+-\d+$/.test(sinceQ)) {
+    since = { eventId: sinceQ };
+  } else {
+    const timestamp = Date.parse(sinceQ);
+    if (Number.isNaN(timestamp)) {
+      return res.status(400).json({ error: 'Invalid since parameter. Expected an ISO timestamp or an event ID.' });
+    }
+    since = { timestamp };
+  }
+  const limit = parseLimitParam(req.query.limit, DEFAULT_CHANGES_LIMIT, MAX_CHANGES_LIMIT);
+  if (limit === null) {
+    return res.status(400).json({ error: `Invalid limit parameter. Expected an integer from 1 to ${MAX_CHANGES_LIMIT}.` });
+  }
+
+  try {
+    logger.info(`Request /v1/changes since=${sinceQ ?? 'default'} limit=${limit}`);
+    const changes = await getChangesSince(since, limit);
+    const last = changes[changes.length - 1];
+    res.json({
+      changes,
+      // Pass back as since= to continue after the last change returned
+      nextSince: last ? last.eventId : ('eventId' in since ? since.eventId : `${since.timestamp}-0`)
+    });
+  } catch (error) {
+    logger.error('Error in /v1/changes endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while getting changes.' });
+  }
+});
+
+// Live cache updates as server-sent events. Resume with the Last-Event-ID header (or lastEventId=).
+app.get('/v1/events', async (req: Request, res: Response) => {
+  const typesQ = req.query.types as string | undefined;
+  let types: Set<AppEventType> | null = null;
+  if (typesQ !== undefined) {
+    const requested = typesQ.split(',').map(t => t.trim()).filter(Boolean);
+    const invalid = requested.filter(t => !APP_EVENT_TYPES.includes(t as AppEventType));
+    if (requested.length === 0 || invalid.length > 0) {
+      return res.status(400).json({ error: `Invalid types parameter. Valid types: ${APP_EVENT_TYPES.join(', ')}.` });
+    }
+    types = new Set(requested as AppEventType[]);
+  }
+  const lastEventIdRaw = req.get('Last-Event-ID') ?? (req.query.lastEventId as string | undefined);
+  if (lastEventIdRaw !== undefined && !/^\d+-\d+$/.test(lastEventIdRaw)) {
+    return res.status(400).json({ error: 'Invalid Last-Event-ID. Expected an event ID like 1718000000000-0.' });
+  }
+  if (!canAcceptEventClient()) {
+    return res.status(503).json({ error: 'Too many event stream clients. Try again later.' });
+  }
+
+  res.status(200).set({
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    'Connection': 'keep-alive',
+    // Stop reverse proxies (nginx) from buffering the stream
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  const heartbeat = setInterval(() => {
+    res.write(': ping\n\n');
+  }, SSE_HEARTBEAT_SECONDS * 1000);
+  let removeClient: (() => void) | null = null;
+  let closed = false;
+  req.on('close', () => {
+    closed = true;
+    clearInterval(heartbeat);
+    removeClient?.();
+    logger.debug('SSE client disconnected.');
+  });
+
+  logger.debug(`SSE client connected (types=${typesQ ?? 'all'}, lastEventId=${lastEventIdRaw ?? 'none'}).`);
+  const remove = await addEventClient({ types, write: frame => res.write(frame) }, lastEventIdRaw ?? null);
+  if (closed) {
+    remove();
+  } else {
+    removeClient = remove;
+  }
+});
+
+const MAX_TIMETABLE_ACTIVITIES = 20;
+const MAX_TIMETABLE_ALTERNATIVES = 5;
+
+// Timetable check: clashes within a selection, grade eligibility and same-category alternatives
+app.get('/v1/timetable/clashes', async (req: Request, res: Response) => {
+  const activityIds = parseActivityIdsParam(req, MAX_TIMETABLE_ACTIVITIES);
+  if ('error' in activityIds) {
+    return res.status(400).json({ error: activityIds.error });
+  }
+  const gradeQ = req.query.grade as string | undefined;
+  let grade: string | null = null;
+  if (gradeQ !== undefined) {
+    grade = parseGradeLabel(gradeQ);
+    if (!grade) {
+      return res.status(400).json({ error: 'Invalid grade parameter. Expected a grade from 1 to 12 or KG1 to KG3.' });
+    }
+  }
+
+  try {
+    logger.info(`Request /v1/timetable/clashes with ${activityIds.length} IDs, grade=${grade ?? 'any'}`);
+    const selection: ActivityData[] = (await getActivitiesByIds(activityIds)).filter(isListableActivity);
+    const foundIds = new Set(selection.map(activity => String(activity.id)));
+    const notFound = activityIds.filter(id => !foundIds.has(id));
+
+    const clashes = findClashes(selection);
+    const outsideGrade = grade ? selection.filter(activity => !isOpenToGrade(activity, grade)) : [];
+    const unscheduled = selection
+      .filter(activity => !isSchedulable(getNormalizedSchedule(activity)))
+      .map(activity => String(activity.id));
+
+    // Suggest replacements for every activity that clashes or is not open to the grade
+    const problemIds = new Set([...clashes.flatMap(clash => clash.ids), ...outsideGrade.map(activity => String(activity.id))]);
+    const candidatesByGroup = new Map<string, ActivityData[]>();
+    const alternatives: Record<string, TimetableSlot[]> = {};
+    for (const activity of selection) {
+      if (!problemIds.has(String(activity.id)) || !activity.category) continue;
+      const groupKey = `${activity.category}\u0000${activity.academicYear ?? ''}`;
+      let candidates = candidatesByGroup.get(groupKey);
+      if (!candidates) {
+        const candidateIds = await queryActivityIds({
+          category: activity.category,
+          academicYear: activity.academicYear || undefined
+        });
+        candidates = (await getActivitiesByIds(candidateIds)).filter(isListableActivity);
+        candidatesByGroup.set(groupKey, candidates);
+      }
+      alternatives[String(activity.id)] = findAlternatives(activity, selection, candidates, grade, MAX_TIMETABLE_ALTERNATIVES)
+        .map(toTimetableSlot);
+    }
+
+    res.json({
+      grade,
+      activities: selection.map(toTimetableSlot),
+      clashes,
+      outsideGrade: outsideGrade.map(activity => ({
+        id: String(activity.id),
+        name: activity.name,
+        gradeRange: getNormalizedSchedule(activity).gradeRange
+      })),
+      unscheduled,
+      notFound,
+      alternatives
+    });
+  } catch (error) {
+    logger.error('Error in /v1/timetable/clashes endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while checking the timetable.' });
+  }
+});
+
 // Staff endpoint
 app.get('/v1/staffs', async (_req: Request, res: Response) => {
-  if (!USERNAME || !PASSWORD) {
-    logger.error('API username or password not configured.');
+  if (!hasEngageAccounts()) {
+    logger.error('No Engage account configured (API_USERNAME/API_PASSWORD or ENGAGE_ACCOUNTS).');
     return res.status(500).json({ error: 'Server configuration error.' });
   }
 
@@ -396,57 +828,64 @@ app.get('/v1/staffs', async (_req: Request, res: Response) => {
     }
 
     logger.info('Cache MISS for staffs. Fetching from source.');
-    const activityJson = await fetchActivityData(FIXED_STAFF_ACTIVITY_ID as string, USERNAME, PASSWORD);
+    const activityJson = await fetchActivityData(FIXED_STAFF_ACTIVITY_ID as string);
     if (activityJson) {
       const staffMap = await structStaffData(activityJson);
       let staffObject: StaffData = Object.fromEntries(staffMap);
       staffObject.lastCheck = new Date().toISOString();
       staffObject.cache = "MISS";
-      await setStaffData(staffObject);
+      await storeStaffData(staffObject);
       res.json(staffObject);
     } else {
       logger.error(`Could not retrieve base data for staffs (activity ID ${FIXED_STAFF_ACTIVITY_ID}).`);
       res.status(404).json({ error: `Could not retrieve base data for staff details.`, cache: "MISS" });
     }
   } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      return sendEngageUnavailable(res, error, { cache: "MISS" });
+    }
     logger.error('Error in /v1/staffs endpoint:', error);
     res.status(500).json({ error: 'An internal server error occurred while fetching staff data.', cache: "ERROR" });
   }
 });
 
+// Staff search endpoint (pinyin and typo tolerant)
+app.get('/v1/staffs/search', async (req: Request, res: Response) => {
+  const params = parseSearchParams(req);
+  if ('error' in params) {
+    return res.status(400).json({ error: params.error });
+  }
+
+  try {
+    logger.info(`Request /v1/staffs/search q=${JSON.stringify(params.query)} limit=${params.limit}`);
+    const result = await searchStaff(params.query, params.limit);
+    res.json(result);
+  } catch (error) {
+    logger.error('Error in /v1/staffs/search endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while searching staff.' });
+  }
+});
+
 // Function to perform background initialization and periodic tasks
 async function performBackgroundTasks(): Promise<void> {
   logger.info('Starting background initialization tasks...');
   try {
-    await initializeClubCache();
-    await initializeOrUpdateStaffCache(true);
+    await runCacheJob('clubs', 'initializeClubCache', 'startup', initializeClubCache);
+    await runCacheJob('staff', 'initializeOrUpdateStaffCache', 'startup', () => initializeOrUpdateStaffCache(true));
     // NOTE: Removed immediate cleanupOrphanedS3Images() call.
     // Cleanup will run during periodic updateStaleClubs() instead.
     // Running cleanup immediately after initialization caused race condition
     // where newly uploaded images were deleted before they could be referenced.
     
     logger.info(`Setting up periodic club cache updates every ${CLUB_CHECK_INTERVAL_SECONDS} seconds.`);
+    // runCacheJob skips the run (and logs it) while a previous club update, or an admin-triggered one, is still going
     setInterval(() => {
-      if (isUpdatingClubs) {
-        logger.warn('Previous club update still running, skipping this run');
-        return;
-      }
-      isUpdatingClubs = true;
-      updateStaleClubs().finally(() => {
-        isUpdatingClubs = false;
-      });
+      runCacheJob('clubs', 'updateStaleClubs', 'schedule', updateStaleClubs);
     }, CLUB_CHECK_INTERVAL_SECONDS * 1000);
 
     logger.info(`Setting up periodic staff cache updates every ${STAFF_CHECK_INTERVAL_SECONDS} seconds.`);
     setInterval(() => {
-      if (isUpdatingStaff) {
-        logger.warn('Previous staff update still running, skipping this run');
-        return;
-      }
-      isUpdatingStaff = true;
-      initializeOrUpdateStaffCache(false).finally(() => {
-        isUpdatingStaff = false;
-      });
+      runCacheJob('staff', 'initializeOrUpdateStaffCache', 'schedule', () => initializeOrUpdateStaffCache(false));
     }, STAFF_CHECK_INTERVAL_SECONDS * 1000);
     
     logger.info('Background initialization and periodic task setup complete.');
@@ -469,11 +908,19 @@ async function startServer(): Promise<void> {
     await redis.del('connection-test');
     logger.info('Redis connection confirmed.');
 
+    // Activities cached before the indexes existed need indexing before list endpoints can see them
+    await rebuildActivityIndexes();
+    await rebuildSearchIndex();
+    await startWebhookDispatcher();
+    await startEventStream();
+    startSearchIndexSync();
+    startSessionMonitor();
+
     app.listen(PORT, () => {
       logger.info(`Server is running on http://localhost:${PORT}`);
       logger.info(`Allowed CORS origins: ${allowedOriginsEnv === '*' ? 'All (*)' : allowedOriginsEnv}`);
-      if (!USERNAME || !PASSWORD) {
-        logger.warn('Warning: API_USERNAME or API_PASSWORD is not set.');
+      if (!hasEngageAccounts()) {
+        logger.warn('Warning: no Engage account is configured. Set API_USERNAME and API_PASSWORD or ENGAGE_ACCOUNTS.');
       }
     });
 
@@ -490,12 +937,22 @@ async function startServer(): Promise<void> {
 // Bun's process event handlers
 process.on('SIGINT', async () => {
   logger.info('Server shutting down (SIGINT)...');
+  stopWebhookDispatcher();
+  stopEventStream();
+  stopSearchIndexSync();
+  stopSessionMonitor();
+  await interruptCrawlReports();
   await closeRedisConnection();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   logger.info('Server shutting down (SIGTERM)...');
+  stopWebhookDispatcher();
+  stopEventStream();
+  stopSearchIndexSync();
+  stopSessionMonitor();
+  await interruptCrawlReports();
   await closeRedisConnection();
   process.exit(0);
 });
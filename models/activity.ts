@@ -1,4 +1,31 @@
 // src/models/activity.ts
+export type Weekday = 'monday' | 'tuesday' | 'wednesday' | 'thursday' | 'friday' | 'saturday' | 'sunday';
+
+export type SchoolStage = 'kg' | 'primary' | 'secondary';
+
+// Grades covered by an activity, as labels like "KG2" or "G7"
+export interface GradeRange {
+  min: string;
+  max: string;
+  stages: SchoolStage[]; // in school order
+  labels: string[]; // every grade from min to max, in school order
+}
+
+// Parsed form of the raw schedule, meeting and duration fields, see utils/schedule-parser.ts.
+// The raw strings stay where Engage put them (schedule, meeting.*, duration.*).
+export interface NormalizedSchedule {
+  version: number;
+  weekdays: Weekday[];
+  startTime: string | null; // 24h "HH:mm"
+  endTime: string | null; // 24h "HH:mm"
+  startDate: string | null; // ISO "YYYY-MM-DD"
+  endDate: string | null; // ISO "YYYY-MM-DD"
+  isRecurringWeekly: boolean | null;
+  term: string | null; // "S1", "S2", "T1"-"T3" or "FY" (full year)
+  semester: 1 | 2 | null;
+  gradeRange: GradeRange | null;
+}
+
 export interface ActivityData {
   // Include all common properties
   id?: string | null;
@@ -13,6 +40,7 @@ export interface ActivityData {
   poorWeatherPlan?: string | null;
   requirements?: any[];
   schedule?: string | null;
+  normalizedSchedule?: NormalizedSchedule | null;
   semesterCost?: string | null;
   staff?: string[];
   staffForReports?: string[];
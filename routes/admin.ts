@@ -0,0 +1,332 @@
+// routes/admin.ts
+import express, { Request, Response } from 'express';
+import { config } from 'dotenv';
+import { requireAdminApiKey } from '../utils/admin-auth';
+import {
+  initializeClubCache,
+  updateStaleClubs,
+  initializeOrUpdateStaffCache,
+  processAndCacheActivity,
+  purgeActivity,
+  runCacheJob,
+  getCacheJobStatus,
+  enqueueActivityCrawl,
+  type CacheJobName
+} from '../services/cache-manager';
+import { getCrawlQueueStatus, setCrawlPaused, stopCrawl } from '../services/crawl-queue';
+import { getRefreshTierCounts } from '../services/refresh-service';
+import { getCrawlReport, listCrawlReports } from '../services/crawl-report-service';
+import { getSessionStatus } from '../services/session-monitor';
+import { getEngageAccounts, getEngageAccount, getAccountStatus, releaseAccountQuarantine } from '../services/account-pool';
+import { forceRelogin } from '../engage-api/get-activity';
+import { getEngageStatus } from '../engage-api/engage-health';
+import {
+  listWebhookSubscriptions,
+  getWebhookSubscription,
+  validateWebhookInput,
+  createWebhookSubscription,
+  deleteWebhookSubscription,
+  sendTestWebhook,
+  getDeadLetters,
+  type WebhookSubscription
+} from '../services/webhook-service';
+import { logger } from '../utils/logger';
+
+config();
+
+/**
+ * Admin endpoints, mounted at /v1/admin. Every route requires an admin API key.
+ */
+export const adminRouter = express.Router();
+adminRouter.use(requireAdminApiKey);
+
+const MAX_DEAD_LETTERS = 1000;
+const MAX_CRAWL_ENQUEUE_IDS = 500;
+const MAX_CRAWL_REPORTS = 200;
+
+// Secrets are only shown when a subscription is created
+function redactSubscription(subscription: WebhookSubscription): Omit<WebhookSubscription, 'secret'> & { secret: string } {
+  return { ...subscription, secret: `${subscription.secret.slice(0, 4)}…` };
+}
+
+// --- Cache and crawl control ---
+
+// Jobs that can be started on demand; each takes the same lock as its scheduled run
+const ADMIN_JOBS: Record<string, { job: CacheJobName; task: string; run: () => Promise<void> }> = {
+  'initialize-clubs': { job: 'clubs', task: 'initializeClubCache', run: initializeClubCache },
+  'update-stale-clubs': { job: 'clubs', task: 'updateStaleClubs', run: updateStaleClubs },
+  'update-staff': { job: 'staff', task: 'initializeOrUpdateStaffCache', run: () => initializeOrUpdateStaffCache(true) }
+};
+
+adminRouter.get('/jobs', (_req: Request, res: Response) => {
+  res.json(getCacheJobStatus());
+});
+
+adminRouter.post('/jobs/:jobName', (req: Request, res: Response) => {
+  const definition = ADMIN_JOBS[req.params.jobName];
+  if (!definition) {
+    return res.status(404).json({ error: `Unknown job. Valid jobs: ${Object.keys(ADMIN_JOBS).join(', ')}.` });
+  }
+  const started = runCacheJob(definition.job, definition.task, 'admin', definition.run);
+  if (!started) {
+    return res.status(409).json({ error: `Job "${definition.job}" is already running.`, status: getCacheJobStatus()[definition.job] });
+  }
+  logger.info(`Admin started ${definition.task}.`);
+  res.status(202).json({ started: definition.task, status: getCacheJobStatus()[definition.job] });
+});
+
+adminRouter.get('/crawl', async (_req: Request, res: Response) => {
+  try {
+    res.json({ ...(await getCrawlQueueStatus()), refreshTiers: await getRefreshTierCounts() });
+  } catch (error) {
+    logger.error('Error in /v1/admin/crawl endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while reading the crawl queue.' });
+  }
+});
+
+adminRouter.post('/crawl/pause', async (_req: Request, res: Response) => {
+  try {
+    await setCrawlPaused(true);
+    res.json(await getCrawlQueueStatus());
+  } catch (error) {
+    logger.error('Error in /v1/admin/crawl/pause endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while pausing the crawl.' });
+  }
+});
+
+adminRouter.post('/crawl/resume', async (_req: Request, res: Response) => {
+  try {
+    await setCrawlPaused(false);
+    res.json(await getCrawlQueueStatus());
+  } catch (error) {
+    logger.error('Error in /v1/admin/crawl/resume endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while resuming the crawl.' });
+  }
+});
+
+adminRouter.post('/crawl/stop', async (_req: Request, res: Response) => {
+  try {
+    const dropped = await stopCrawl();
+    res.json({ dropped, ...(await getCrawlQueueStatus()) });
+  } catch (error) {
+    logger.error('Error in /v1/admin/crawl/stop endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while stopping the crawl.' });
+  }
+});
+
+adminRouter.post('/crawl/enqueue', async (req: Request, res: Response) => {
+  const ids = req.body?.ids;
+  if (!Array.isArray(ids) || ids.length === 0 || ids.length > MAX_CRAWL_ENQUEUE_IDS) {
+    return res.status(400).json({ error: `ids must be an array of 1 to ${MAX_CRAWL_ENQUEUE_IDS} activity IDs.` });
+  }
+  const activityIds = ids.map(String);
+  if (activityIds.some(id => !/^\d{1,4}$/.test(id))) {
+    return res.status(400).json({ error: 'Invalid Activity ID format.' });
+  }
+  try {
+    const queued = await enqueueActivityCrawl([...new Set(activityIds)], 'admin', 'admin');
+    logger.info(`Admin queued ${queued} activities for crawling.`);
+    res.status(202).json({ queued, status: await getCrawlQueueStatus() });
+  } catch (error) {
+    logger.error('Error in /v1/admin/crawl/enqueue endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while queueing activities.' });
+  }
+});
+
+// Reports of recent crawl runs, newest first
+adminRouter.get('/crawls', async (req: Request, res: Response) => {
+  const limitQ = req.query.limit as string | undefined;
+  const limit = limitQ === undefined ? 20 : parseInt(limitQ, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_CRAWL_REPORTS) {
+    return res.status(400).json({ error: `Invalid limit parameter. Expected an integer from 1 to ${MAX_CRAWL_REPORTS}.` });
+  }
+  try {
+    res.json(await listCrawlReports(limit));
+  } catch (error) {
+    logger.error('Error in /v1/admin/crawls endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while listing crawl reports.' });
+  }
+});
+
+adminRouter.get('/crawls/:runId', async (req: Request, res: Response) => {
+  try {
+    const report = await getCrawlReport(req.params.runId);
+    if (!report) {
+      return res.status(404).json({ error: 'Crawl report not found.' });
+    }
+    res.json(report);
+  } catch (error) {
+    logger.error(`Error in /v1/admin/crawls/${req.params.runId} endpoint:`, error);
+    res.status(500).json({ error: 'An internal server error occurred while reading the crawl report.' });
+  }
+});
+
+// Circuit breaker, adaptive concurrency and rate limiter state for the Engage client
+adminRouter.get('/engage', (_req: Request, res: Response) => {
+  res.json(getEngageStatus());
+});
+
+adminRouter.post('/activity/:activityId/refresh', async (req: Request, res: Response) => {
+  const { activityId } = req.params;
+  if (!/^\d{1,4}$/.test(activityId)) {
+    return res.status(400).json({ error: 'Invalid Activity ID format.' });
+  }
+  try {
+    logger.info(`Admin forced refresh of activity ${activityId}.`);
+    const data = await processAndCacheActivity(activityId, true);
+    res.json(data);
+  } catch (error) {
+    logger.error(`Error in /v1/admin/activity/${activityId}/refresh endpoint:`, error);
+    res.status(500).json({ error: 'An internal server error occurred while refreshing the activity.' });
+  }
+});
+
+adminRouter.delete('/activity/:activityId', async (req: Request, res: Response) => {
+  const { activityId } = req.params;
+  if (!/^\d{1,4}$/.test(activityId)) {
+    return res.status(400).json({ error: 'Invalid Activity ID format.' });
+  }
+  try {
+    const existed = await purgeActivity(activityId);
+    if (!existed) {
+      return res.status(404).json({ error: `Activity ${activityId} is not cached.` });
+    }
+    res.status(204).end();
+  } catch (error) {
+    logger.error(`Error in DELETE /v1/admin/activity/${activityId} endpoint:`, error);
+    res.status(500).json({ error: 'An internal server error occurred while purging the activity.' });
+  }
+});
+
+// Per account: session age, last probe, last login and consecutive probe failures
+adminRouter.get('/auth/session', async (_req: Request, res: Response) => {
+  try {
+    res.json(await getSessionStatus());
+  } catch (error) {
+    logger.error('Error in /v1/admin/auth/session endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while reading session status.' });
+  }
+});
+
+// Per account: login failures and quarantine
+adminRouter.get('/auth/accounts', async (_req: Request, res: Response) => {
+  try {
+    res.json(await getAccountStatus());
+  } catch (error) {
+    logger.error('Error in /v1/admin/auth/accounts endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while reading account status.' });
+  }
+});
+
+adminRouter.post('/auth/accounts/:accountId/release', async (req: Request, res: Response) => {
+  try {
+    if (!(await releaseAccountQuarantine(req.params.accountId))) {
+      return res.status(404).json({ error: 'Engage account not found.' });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    logger.error(`Error in /v1/admin/auth/accounts/${req.params.accountId}/release endpoint:`, error);
+    res.status(500).json({ error: 'An internal server error occurred while releasing the account.' });
+  }
+});
+
+// Logs in again with one account (?account=<id>) or all of them
+adminRouter.post('/auth/relogin', async (req: Request, res: Response) => {
+  const accountId = req.query.account as string | undefined;
+  const accounts = accountId === undefined ? getEngageAccounts() : [getEngageAccount(accountId)].filter(account => account !== undefined);
+  if (accountId !== undefined && accounts.length === 0) {
+    return res.status(404).json({ error: 'Engage account not found.' });
+  }
+  if (accounts.length === 0) {
+    logger.error('No Engage account configured.');
+    return res.status(500).json({ error: 'Server configuration error.' });
+  }
+  logger.info(`Admin forced re-login of ${accountId ? `account ${accountId}` : 'all accounts'}.`);
+  const results = [];
+  for (const account of accounts) {
+    results.push({ id: account.id, success: await forceRelogin(account) });
+  }
+  if (results.every(result => !result.success)) {
+    return res.status(502).json({ error: 'Login failed. The previous session was kept.', accounts: results });
+  }
+  res.json({ success: results.every(result => result.success), accounts: results });
+});
+
+// --- Webhooks ---
+
+adminRouter.get('/webhooks', async (_req: Request, res: Response) => {
+  try {
+    const subscriptions = await listWebhookSubscriptions();
+    res.json(subscriptions.map(redactSubscription));
+  } catch (error) {
+    logger.error('Error in /v1/admin/webhooks endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while listing webhooks.' });
+  }
+});
+
+adminRouter.post('/webhooks', async (req: Request, res: Response) => {
+  const body = req.body ?? {};
+  const validationError = validateWebhookInput(body);
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
+  }
+  if (body.description !== undefined && typeof body.description !== 'string') {
+    return res.status(400).json({ error: 'description must be a string.' });
+  }
+
+  try {
+    const subscription = await createWebhookSubscription({
+      url: body.url,
+      events: body.events,
+      secret: body.secret,
+      description: body.description
+    });
+    if (!subscription) {
+      return res.status(500).json({ error: 'Failed to create webhook subscription.' });
+    }
+    res.status(201).json(subscription);
+  } catch (error) {
+    logger.error('Error in POST /v1/admin/webhooks endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while creating the webhook.' });
+  }
+});
+
+// Registered before /webhooks/:subscriptionId so "dead-letters" is not taken as an ID
+adminRouter.get('/webhooks/dead-letters', async (req: Request, res: Response) => {
+  const limitQ = req.query.limit as string | undefined;
+  const limit = limitQ === undefined ? 100 : parseInt(limitQ, 10);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_DEAD_LETTERS) {
+    return res.status(400).json({ error: `Invalid limit parameter. Expected an integer from 1 to ${MAX_DEAD_LETTERS}.` });
+  }
+  try {
+    res.json(await getDeadLetters(limit));
+  } catch (error) {
+    logger.error('Error in /v1/admin/webhooks/dead-letters endpoint:', error);
+    res.status(500).json({ error: 'An internal server error occurred while listing dead letters.' });
+  }
+});
+
+adminRouter.get('/webhooks/:subscriptionId', async (req: Request, res: Response) => {
+  const subscription = await getWebhookSubscription(req.params.subscriptionId);
+  if (!subscription) {
+    return res.status(404).json({ error: 'Webhook subscription not found.' });
+  }
+  res.json(redactSubscription(subscription));
+});
+
+adminRouter.delete('/webhooks/:subscriptionId', async (req: Request, res: Response) => {
+  const deleted = await deleteWebhookSubscription(req.params.subscriptionId);
+  if (!deleted) {
+    return res.status(404).json({ error: 'Webhook subscription not found.' });
+  }
+  res.status(204).end();
+});
+
+adminRouter.post('/webhooks/:subscriptionId/test', async (req: Request, res: Response) => {
+  const subscription = await getWebhookSubscription(req.params.subscriptionId);
+  if (!subscription) {
+    return res.status(404).json({ error: 'Webhook subscription not found.' });
+  }
+  const error = await sendTestWebhook(subscription);
+  res.json({ delivered: !error, error });
+});
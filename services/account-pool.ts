@@ -0,0 +1,165 @@
+// services/account-pool.ts
+import { config } from 'dotenv';
+import { getRedisClient } from './redis-service';
+import { logger } from '../utils/logger';
+import {
+  parseEngageAccounts,
+  initialAccountHealth,
+  recordLoginResult,
+  isQuarantined,
+  orderAccounts,
+  type EngageAccount,
+  type AccountHealth,
+  type QuarantinePolicy
+} from '../utils/engage-accounts';
+
+config();
+
+/**
+ * The Engage accounts from API_USERNAME/API_PASSWORD and ENGAGE_ACCOUNTS, and their login
+ * health. An account whose logins keep failing (locked, password rotated) is quarantined:
+ * requests go to the other accounts first and it is not logged in again until the
+ * quarantine ends. Health is kept in Redis so every instance skips the same accounts.
+ */
+
+const ACCOUNT_MAX_LOGIN_FAILURES = parseInt(process.env.ACCOUNT_MAX_LOGIN_FAILURES || '3', 10);
+const ACCOUNT_QUARANTINE_MINS = parseInt(process.env.ACCOUNT_QUARANTINE_MINS || '60', 10);
+
+const ACCOUNT_HEALTH_KEY = 'auth:accounts'; // hash: account id -> AccountHealth JSON
+
+const quarantinePolicy: QuarantinePolicy = {
+  maxLoginFailures: ACCOUNT_MAX_LOGIN_FAILURES,
+  quarantineMs: ACCOUNT_QUARANTINE_MINS * 60 * 1000
+};
+
+const { accounts: engageAccounts, invalid } = parseEngageAccounts(process.env.ENGAGE_ACCOUNTS, {
+  username: process.env.API_USERNAME,
+  password: process.env.API_PASSWORD
+});
+if (invalid.length > 0) {
+  logger.warn(`Ignoring ${invalid.length} ENGAGE_ACCOUNTS entries not in username:password form: ${invalid.join(', ')}`);
+}
+
+// Used without Redis, and as the last known state if Redis fails
+const localHealth = new Map<string, AccountHealth>();
+let turn = 0;
+
+export interface AccountStatus {
+  id: string;
+  primary: boolean; // configured through API_USERNAME
+  quarantined: boolean;
+  health: AccountHealth;
+}
+
+/**
+ * Whether any Engage account is configured.
+ */
+export function hasEngageAccounts(): boolean {
+  return engageAccounts.length > 0;
+}
+
+/**
+ * All configured accounts, API_USERNAME first.
+ */
+export function getEngageAccounts(): EngageAccount[] {
+  return engageAccounts;
+}
+
+/**
+ * The account with the given id, or undefined.
+ */
+export function getEngageAccount(id: string): EngageAccount | undefined {
+  return engageAccounts.find(account => account.id === id);
+}
+
+async function loadAccountHealth(): Promise<Map<string, AccountHealth>> {
+  const client = getRedisClient();
+  if (!client) return new Map(localHealth);
+  try {
+    const reply = await client.send('HGETALL', [ACCOUNT_HEALTH_KEY]);
+    // HGETALL arrives as a map or as a flat [field, value, ...] array depending on the protocol
+    const entries: [string, string][] = Array.isArray(reply)
+      ? Array.from({ length: reply.length / 2 }, (_, i) => [String(reply[i * 2]), String(reply[i * 2 + 1])])
+      : Object.entries(reply ?? {}).map(([k, v]) => [k, String(v)]);
+    const health = new Map<string, AccountHealth>();
+    for (const [id, json] of entries) {
+      health.set(id, { ...initialAccountHealth(), ...JSON.parse(json) });
+    }
+    return health;
+  } catch (err) {
+    logger.error('Error loading account health:', err);
+    return new Map(localHealth);
+  }
+}
+
+async function saveAccountHealth(id: string, health: AccountHealth): Promise<void> {
+  localHealth.set(id, health);
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.send('HSET', [ACCOUNT_HEALTH_KEY, id, JSON.stringify(health)]);
+  } catch (err) {
+    logger.error(`Error saving health of account ${id}:`, err);
+  }
+}
+
+/**
+ * The accounts to try for one request, in order: healthy accounts, starting from a
+ * different one each call so requests spread across sessions, then quarantined ones.
+ */
+export async function getAccountsInTurn(): Promise<EngageAccount[]> {
+  if (engageAccounts.length <= 1) return engageAccounts;
+  return orderAccounts(engageAccounts, await loadAccountHealth(), Date.now(), turn++);
+}
+
+/**
+ * Time left in an account's quarantine, in ms; 0 if it may log in.
+ */
+export async function getQuarantineRemaining(account: EngageAccount): Promise<number> {
+  const health = (await loadAccountHealth()).get(account.id) ?? initialAccountHealth();
+  return isQuarantined(health, Date.now()) ? health.quarantinedUntil! - Date.now() : 0;
+}
+
+/**
+ * Records the result of a login with an account, quarantining it after
+ * ACCOUNT_MAX_LOGIN_FAILURES failures in a row.
+ * @param error - Why the login failed; omit for a success
+ */
+export async function recordAccountLogin(account: EngageAccount, error?: string): Promise<void> {
+  const now = Date.now();
+  const previous = (await loadAccountHealth()).get(account.id) ?? initialAccountHealth();
+  const health = recordLoginResult(previous, now, quarantinePolicy, error);
+  if (isQuarantined(health, now) && !isQuarantined(previous, now)) {
+    logger.error(
+      `Engage account ${account.id} quarantined for ${ACCOUNT_QUARANTINE_MINS} minutes after ` +
+      `${health.consecutiveLoginFailures} failed logins. Last error: ${error}`
+    );
+  } else if (!error && previous.quarantinedUntil !== null) {
+    logger.info(`Engage account ${account.id} logged in again and left quarantine.`);
+  }
+  await saveAccountHealth(account.id, health);
+}
+
+/**
+ * Ends an account's quarantine, e.g. after its password was fixed.
+ * @returns false if the account is unknown
+ */
+export async function releaseAccountQuarantine(id: string): Promise<boolean> {
+  const account = getEngageAccount(id);
+  if (!account) return false;
+  await saveAccountHealth(id, initialAccountHealth());
+  logger.info(`Quarantine of Engage account ${id} lifted.`);
+  return true;
+}
+
+/**
+ * Health of every account, for the status endpoints. Usernames are left out.
+ */
+export async function getAccountStatus(): Promise<AccountStatus[]> {
+  const healthById = await loadAccountHealth();
+  const now = Date.now();
+  return engageAccounts.map(account => {
+    const health = healthById.get(account.id) ?? initialAccountHealth();
+    return { id: account.id, primary: account.storageKey === '', quarantined: isQuarantined(health, now), health };
+  });
+}
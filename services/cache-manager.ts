@@ -1,30 +1,65 @@
 // services/cache-manager.ts
 import { config } from 'dotenv';
-import { fetchActivityData } from '../engage-api/get-activity';
+import { fetchActivity, fetchActivityData } from '../engage-api/get-activity';
+import { hasEngageAccounts } from './account-pool';
+import { engageConcurrency, engageRateLimiter, waitForEngageAvailable } from '../engage-api/engage-health';
 import { structActivityData } from '../engage-api/struct-activity';
 import { structStaffData } from '../engage-api/struct-staff';
 import {
   getActivityData,
   setActivityData,
+  deleteActivityData,
   getStaffData,
   setStaffData,
   getAllActivityKeys,
+  isListableActivity,
   ACTIVITY_KEY_PREFIX
 } from './redis-service';
 import { uploadImageFromBase64, listS3Objects, constructS3Url } from './s3-service';
+import { updateSearchIndex, removeFromSearchIndex, updateStaffSearchIndex } from './search-service';
+import { recordActivityChange } from './history-service';
+import { publishEvent } from './event-bus';
+import { planActivityRefresh, refreshCacheTtl, scheduleActivityRefresh, removeActivityRefresh, getDueActivities } from './refresh-service';
+import {
+  getLearnedIdRange,
+  recordActivityFound,
+  recordActivityEmpty,
+  recordListedActivityEmpty,
+  getEmptyProbeStates,
+  getEmptyProbeState
+} from './id-range-service';
+import { runWithCrawlReport, countCrawlEvent, recordCrawlError, recordCrawlSuccess } from './crawl-report-service';
 import { extractBase64Image } from '../utils/image-processor';
+import { diffStaffMaps } from '../utils/diff';
+import { planScanRange, probeAheadIds, isProbeDue, emptyAnswerAction } from '../utils/id-range';
 import { logger } from '../utils/logger';
-import { BatchProcessor } from '../utils/semaphore';
+import { CircuitOpenError } from '../utils/circuit-breaker';
+import { crawlQueueItems, engageConcurrencyLimit, engageRateLimitWaiting } from '../utils/metrics';
+import {
+  enqueueCrawlItems,
+  startCrawlRun,
+  getCrawlRun,
+  getUnfinishedCrawlRun,
+  getCrawlQueueCounts,
+  drainCrawlQueue,
+  claimRequestedCrawl,
+  type CrawlMode,
+  type CrawlRunKind,
+  type CrawlItemOutcome,
+  type DrainResult
+} from './crawl-queue';
 
 import type { ActivityData } from '../models/activity';
 
 config();
 
 // Environment configuration
-const USERNAME = process.env.API_USERNAME;
-const PASSWORD = process.env.API_PASSWORD;
 const MIN_ACTIVITY_ID_SCAN = parseInt(process.env.MIN_ACTIVITY_ID_SCAN || '0', 10);
 const MAX_ACTIVITY_ID_SCAN = parseInt(process.env.MAX_ACTIVITY_ID_SCAN || '9999', 10);
+// IDs past the highest known activity probed on every crawl, so new activities are discovered
+const ID_PROBE_AHEAD = parseInt(process.env.ID_PROBE_AHEAD || '200', 10);
+const API_MISS_CRAWL_WINDOW_SECS = parseInt(process.env.API_MISS_CRAWL_WINDOW_SECS || '600', 10);
+const ACTIVITY_REMOVE_AFTER_EMPTY = parseInt(process.env.ACTIVITY_REMOVE_AFTER_EMPTY || '3', 10); // 0 = never
 const CLUB_UPDATE_INTERVAL_MINS = parseInt(process.env.CLUB_UPDATE_INTERVAL_MINS || '60', 10);
 const STAFF_UPDATE_INTERVAL_MINS = parseInt(process.env.STAFF_UPDATE_INTERVAL_MINS || '60', 10);
 const FIXED_STAFF_ACTIVITY_ID = process.env.FIXED_STAFF_ACTIVITY_ID;
@@ -33,72 +68,231 @@ const S3_IMAGE_PREFIX = (process.env.S3_PUBLIC_URL_PREFIX || 'files').replace(/\
 // Crawler concurrency configuration
 const CONCURRENT_API_CALLS = parseInt(process.env.CONCURRENT_API_CALLS || '8', 10);
 const CRAWLER_REQUEST_TIMEOUT_MS = parseInt(process.env.CRAWLER_REQUEST_TIMEOUT_MS || '25000', 10);
-const CRAWLER_MAX_RETRIES = parseInt(process.env.CRAWLER_MAX_RETRIES || '3', 10);
-const CRAWLER_RETRY_DELAY_MS = parseInt(process.env.CRAWLER_RETRY_DELAY_MS || '1000', 10);
 
-// Module-level counter for skipped activities (reset at start of each scan)
-let skippedCount = 0;
+// Minimum time between crawl.progress events per crawl (the final event is always sent)
+const CRAWL_PROGRESS_INTERVAL_MS = parseInt(process.env.CRAWL_PROGRESS_INTERVAL_MS || '2000', 10);
+
 
 /**
- * Process and cache a single activity
+ * Background jobs that must not overlap with themselves.
+ * "clubs" covers both the full scan and the stale update, since they write the same keys.
+ */
+export type CacheJobName = 'clubs' | 'staff';
+export type CacheJobTrigger = 'startup' | 'schedule' | 'admin';
+
+export interface CacheJobStatus {
+  running: boolean;
+  task: string | null; // function currently running, e.g. "updateStaleClubs"
+  trigger: CacheJobTrigger | null;
+  startedAt: string | null;
+  lastTask: string | null;
+  lastFinishedAt: string | null;
+  lastDurationMs: number | null;
+  lastError: string | null;
+}
+
+function idleJobStatus(): CacheJobStatus {
+  return {
+    running: false,
+    task: null,
+    trigger: null,
+    startedAt: null,
+    lastTask: null,
+    lastFinishedAt: null,
+    lastDurationMs: null,
+    lastError: null
+  };
+}
+
+const jobStatus: Record<CacheJobName, CacheJobStatus> = {
+  clubs: idleJobStatus(),
+  staff: idleJobStatus()
+};
+const lastProgressEventAt = new Map<CrawlRunKind, number>();
+
+/**
+ * Publish a throttled crawl.progress event for live dashboards.
+ * @param crawl - Which crawl is reporting
+ * @param completed - Items processed so far
+ * @param total - Items in this crawl
+ * @param counts - Extra counters to include, e.g. errors
+ */
+function publishCrawlProgress(crawl: CrawlRunKind, completed: number, total: number, counts: Record<string, number> = {}): void {
+  const now = Date.now();
+  if (completed < total && now - (lastProgressEventAt.get(crawl) ?? 0) < CRAWL_PROGRESS_INTERVAL_MS) return;
+  lastProgressEventAt.set(crawl, now);
+  publishEvent('crawl.progress', {
+    crawl,
+    completed,
+    total,
+    percent: total > 0 ? Math.round(completed / total * 100) : 100,
+    ...counts
+  });
+}
+
+/**
+ * Write an activity to the cache and keep derived data (search index, change history,
+ * refresh schedule) in step.
+ * All activity writes should go through here rather than setActivityData directly.
+ * @param activityId - The activity ID
+ * @param data - The activity data to store
+ */
+export async function storeActivityData(activityId: string, data: ActivityData): Promise<void> {
+  const previous = await getActivityData(activityId);
+  const refresh = await planActivityRefresh(activityId, data);
+  await setActivityData(activityId, data, refreshCacheTtl(refresh));
+  await scheduleActivityRefresh(activityId, refresh);
+  updateSearchIndex(activityId, data);
+  const change = await recordActivityChange(activityId, previous, data);
+  countCrawlEvent(change ? change.type : 'unchanged');
+  if (change) {
+    publishEvent(`activity.${change.type}`, change, change.eventId);
+  }
+}
+
+/**
+ * Write the staff map to the cache and keep the staff search index in step.
+ * Publishes a staff.updated event when staff were added, removed or renamed.
+ * @param data - Staff ID to name map plus lastCheck
+ */
+export async function storeStaffData(data: Record<string, any>): Promise<void> {
+  const previous = await getStaffData();
+  await setStaffData(data);
+  updateStaffSearchIndex(data);
+  // The first write after an empty cache lists every staff member as added; that is not a change
+  const staffDiff = previous ? diffStaffMaps(previous, data) : null;
+  if (staffDiff) {
+    publishEvent('staff.updated', staffDiff);
+  }
+}
+
+/**
+ * Runs a background job unless the same job is already running.
+ * @param job - Which job lock to take
+ * @param task - Name of the task, shown in the job status
+ * @param trigger - What started the job
+ * @param fn - The job itself
+ * @returns A promise that settles when the job finishes (it never rejects), or null if the job was already running
+ */
+export function runCacheJob(
+  job: CacheJobName,
+  task: string,
+  trigger: CacheJobTrigger,
+  fn: () => Promise<void>
+): Promise<void> | null {
+  const status = jobStatus[job];
+  if (status.running) {
+    logger.warn(`Cache job "${job}" is already running (${status.task}), not starting ${task}.`);
+    return null;
+  }
+  const startedAt = Date.now();
+  Object.assign(status, { running: true, task, trigger, startedAt: new Date(startedAt).toISOString() });
+  return fn()
+    .then(() => {
+      status.lastError = null;
+    })
+    .catch(error => {
+      logger.error(`Cache job ${task} failed:`, error);
+      status.lastError = (error as Error).message;
+    })
+    .finally(() => {
+      Object.assign(status, {
+        running: false,
+        task: null,
+        trigger: null,
+        startedAt: null,
+        lastTask: task,
+        lastFinishedAt: new Date().toISOString(),
+        lastDurationMs: Date.now() - startedAt
+      });
+    });
+}
+
+/**
+ * Gets the state of the background jobs.
+ */
+export function getCacheJobStatus(): Record<CacheJobName, CacheJobStatus> {
+  return { clubs: { ...jobStatus.clubs }, staff: { ...jobStatus.staff } };
+}
+
+/**
+ * Removes an activity from the cache, its indexes and the search index.
+ * It will be fetched again on the next scan or API request.
+ * @param activityId - The activity ID
+ * @returns true if the activity was cached
+ */
+export async function purgeActivity(activityId: string): Promise<boolean> {
+  const existed = await deleteActivityData(activityId);
+  removeFromSearchIndex(activityId);
+  await removeActivityRefresh(activityId);
+  logger.info(`Purged activity ${activityId} from cache (existed: ${existed}).`);
+  return existed;
+}
+
+/**
+ * Result of fetching one activity: "updated" when fresh data was stored, "empty" when the
+ * API had nothing for the ID, "failed" when the fetch timed out or threw, "deferred" when
+ * the Engage circuit breaker was open and no request was made.
+ */
+interface ActivityRefreshResult {
+  data: ActivityData;
+  outcome: 'updated' | 'empty' | 'failed' | 'deferred';
+  error?: string;
+}
+
+/**
+ * Fetch an activity from the API and cache it
  * @param activityId - The activity ID to process
- * @param forceUpdate - If true, update cache even on fetch failure (default: false)
- * @returns The processed activity data
+ * @param forceUpdate - If true, update cache even on fetch failure
+ * @returns The activity data plus what happened
  */
-async function processAndCacheActivity(activityId: string, forceUpdate: boolean = false): Promise<ActivityData> {
+async function refreshActivity(activityId: string, forceUpdate: boolean): Promise<ActivityRefreshResult> {
   logger.debug(`Processing activity ID: ${activityId}`);
   try {
-    if (!USERNAME || !PASSWORD) {
-      throw new Error('API username or password not configured');
+    if (!hasEngageAccounts()) {
+      throw new Error('No Engage account configured');
     }
     
-    // Add timeout protection via AbortController - properly cancels orphaned fetches
+    // Timeout protection - the fetch is aborted so it cannot linger. Waiting for a
+    // rate limit token does not count against it.
     logger.debug(`Fetching activity data for ID: ${activityId}`);
-    const controller = new AbortController();
-    const timeoutId = setTimeout(
-      () => controller.abort(),
-      CRAWLER_REQUEST_TIMEOUT_MS + 5000
-    );
-
-    let activityJson: any = null;
-    try {
-      activityJson = await fetchActivityData(
-        activityId,
-        USERNAME,
-        PASSWORD,
-        false,
-        controller.signal
-      );
-    } finally {
-      clearTimeout(timeoutId);
-    }
+    const fetched = await fetchActivity(activityId, false, undefined, CRAWLER_REQUEST_TIMEOUT_MS + 5000);
 
-    if (controller.signal.aborted) {
+    if (fetched.status === 'failed' && fetched.timedOut) {
       logger.warn(`Request for activity ${activityId} timed out after ${CRAWLER_REQUEST_TIMEOUT_MS + 5000}ms. Cancelling orphaned fetch.`);
+      countCrawlEvent('timeouts');
       // Preserve existing cache on timeout
       const existingData = await getActivityData(activityId);
-      return existingData || { lastCheck: new Date().toISOString(), error: `Timeout after ${CRAWLER_REQUEST_TIMEOUT_MS + 5000}ms` };
+      return {
+        data: existingData || { lastCheck: new Date().toISOString(), error: fetched.error },
+        outcome: 'failed',
+        error: fetched.error
+      };
     }
     let structuredActivity: ActivityData;
 
-    if (!activityJson) {
+    if (fetched.status === 'failed') {
+      // Not an answer about the activity: keep what is cached (or record the error when forced)
+      throw new Error(fetched.error);
+    }
+    if (fetched.status === 'empty') {
       // CRITICAL: Only cache empty data if forceUpdate is true
-      // This prevents 5xx errors from overwriting valid local data
+      // This keeps one odd answer from wiping valid local data
       if (forceUpdate) {
         logger.info(`No data found for activity ID ${activityId} from engage API. Force updating cache.`);
         structuredActivity = { 
           lastCheck: new Date().toISOString(), 
           source: 'api-fetch-empty' 
         };
-        await setActivityData(activityId, structuredActivity);
-        return structuredActivity;
+        await storeActivityData(activityId, structuredActivity);
+        return { data: structuredActivity, outcome: 'empty' };
       } else {
         logger.warn(`No data for activity ${activityId}. Preserving existing cache - NOT updating.`);
         const existingData = await getActivityData(activityId);
-        return existingData || { lastCheck: new Date().toISOString(), source: 'cache-preserved' };
+        return { data: existingData || { lastCheck: new Date().toISOString(), source: 'cache-preserved' }, outcome: 'empty' };
       }
     } else {
-      structuredActivity = await structActivityData(activityJson);
+      structuredActivity = await structActivityData(fetched.data);
       if (structuredActivity && structuredActivity.photo && 
         typeof structuredActivity.photo === 'string' && 
         structuredActivity.photo.startsWith('data:image')) {
@@ -113,16 +307,27 @@ async function processAndCacheActivity(activityId: string, forceUpdate: boolean
           
           if (s3Url) {
             structuredActivity.photo = s3Url;
+            countCrawlEvent('s3Uploads');
           } else {
+            countCrawlEvent('s3UploadFailures');
             logger.warn(`Failed S3 upload for activity ${activityId}. Photo may be base64 or null.`);
           }
         }
       }
     }
     structuredActivity.lastCheck = new Date().toISOString();
-    await setActivityData(activityId, structuredActivity);
-    return structuredActivity;
+    await storeActivityData(activityId, structuredActivity);
+    return { data: structuredActivity, outcome: 'updated' };
   } catch (error) {
+    if (error instanceof CircuitOpenError) {
+      // No request was made; keep the cache as it is and try later
+      const existingData = await getActivityData(activityId);
+      return {
+        data: existingData || { lastCheck: new Date().toISOString(), error: error.message },
+        outcome: 'deferred',
+        error: error.message
+      };
+    }
     logger.error(`Error processing activity ID ${activityId}:`, error);
     // CRITICAL: On error, preserve existing cache instead of overwriting with error data
     if (forceUpdate) {
@@ -130,142 +335,278 @@ async function processAndCacheActivity(activityId: string, forceUpdate: boolean
         lastCheck: new Date().toISOString(), 
         error: "Failed to fetch or process" 
       };
-      await setActivityData(activityId, errorData);
-      return errorData;
+      await storeActivityData(activityId, errorData);
+      return { data: errorData, outcome: 'failed', error: (error as Error).message };
     } else {
       logger.warn(`Error fetching activity ${activityId}. Preserving existing cache.`);
       const existingData = await getActivityData(activityId);
-      return existingData || { lastCheck: new Date().toISOString(), error: (error as Error).message };
+      return {
+        data: existingData || { lastCheck: new Date().toISOString(), error: (error as Error).message },
+        outcome: 'failed',
+        error: (error as Error).message
+      };
     }
   }
 }
 
 /**
- * Process a single activity for initialization
+ * Process and cache a single activity
  * @param activityId - The activity ID to process
+ * @param forceUpdate - If true, update cache even on fetch failure (default: false)
+ * @returns The processed activity data
  */
-async function processSingleActivity(activityId: string): Promise<void> {
-  const cachedData = await getActivityData(activityId);
-  
-  if (!cachedData || 
-    Object.keys(cachedData).length === 0 || 
-    !cachedData.lastCheck || 
-    cachedData.error) {
-    
+export async function processAndCacheActivity(activityId: string, forceUpdate: boolean = false): Promise<ActivityData> {
+  const { data } = await refreshActivity(activityId, forceUpdate);
+  return data;
+}
+
+/**
+ * Crawl one queue item. Scan items skip activities that are already cached without error;
+ * refresh items are always fetched. Timeouts and fetch errors count as failures so the queue
+ * retries them. Engage answering that there is no such activity is not a failure, and backs
+ * the ID off; a listed activity is removed once it has answered so ACTIVITY_REMOVE_AFTER_EMPTY
+ * times in a row. While the Engage circuit is open, items wait and are handed back to the
+ * queue without using up an attempt.
+ * @param activityId - The activity ID to process
+ * @param mode - How the item was queued
+ */
+async function crawlActivity(activityId: string, mode: CrawlMode): Promise<CrawlItemOutcome> {
+  countCrawlEvent('attempted');
+  if (mode === 'scan') {
+    const cachedData = await getActivityData(activityId);
+    if (cachedData && Object.keys(cachedData).length > 0 && cachedData.lastCheck && !cachedData.error) {
+      // Cached before the range was learned; still counts towards it
+      if (isListableActivity(cachedData)) await recordActivityFound(activityId);
+      countCrawlEvent('skipped');
+      return { ok: true };
+    }
     logger.debug(`Initializing cache for activity ID: ${activityId}`);
-    await processAndCacheActivity(activityId);
   } else {
-    skippedCount++;
+    logger.debug(`Updating stale activity ${activityId}`);
+  }
+  await waitForEngageAvailable();
+  const result = await refreshActivity(activityId, false);
+  if (result.outcome === 'deferred') {
+    countCrawlEvent('deferred');
+    return { ok: false, error: result.error ?? 'Engage unavailable', deferred: true };
+  }
+  if (result.outcome === 'failed') {
+    const error = result.error ?? 'Fetch failed';
+    countCrawlEvent('failed');
+    recordCrawlError(activityId, error);
+    return { ok: false, error };
+  }
+  if (result.outcome === 'updated') {
+    if (isListableActivity(result.data)) await recordActivityFound(activityId);
+    return { ok: true };
+  }
+  // Engage answered without the activity. Only IDs with nothing listable cached are backed
+  // off, so one odd answer for a live activity does not hide it from refreshes.
+  countCrawlEvent('empty');
+  const listed = isListableActivity(result.data);
+  const consecutiveEmpty = listed ? await recordListedActivityEmpty(activityId) : 0;
+  const action = emptyAnswerAction(listed, consecutiveEmpty, ACTIVITY_REMOVE_AFTER_EMPTY);
+  if (action === 'remove') {
+    logger.info(`Activity ${activityId} answered empty ${consecutiveEmpty} times in a row. Removing it.`);
+    // Recorded as a removal in the history, and published to webhooks and SSE
+    await storeActivityData(activityId, { lastCheck: new Date().toISOString(), source: 'api-fetch-empty' });
+  }
+  if (action !== 'keep') {
+    await recordActivityEmpty(activityId);
+  }
+  return { ok: true };
+}
+
+/**
+ * Work through the crawl queue, logging and publishing progress as items complete.
+ * The run's outcome is recorded in a crawl report.
+ * @param kind - Crawl kind reported in progress events
+ * @returns Whether the queue was emptied or the crawl was stopped
+ */
+async function drainQueue(kind: CrawlRunKind): Promise<DrainResult> {
+  const run = await getCrawlRun();
+  if (!run) return drainQueueWithProgress(kind);
+  return runWithCrawlReport(run, () => drainQueueWithProgress(kind), getCrawlQueueCounts);
+}
+
+async function drainQueueWithProgress(kind: CrawlRunKind): Promise<DrainResult> {
+  logger.info(`Concurrency: up to ${CONCURRENT_API_CALLS} parallel requests (currently ${engageConcurrency.getLimit()})`);
+  // Concurrency follows engageConcurrency, which shrinks when Engage slows down or fails
+  const result = await drainCrawlQueue(crawlActivity, () => engageConcurrency.getLimit(), (counts, run) => {
+    const completed = counts.done + counts.failed;
+    const total = run?.total ?? completed + counts.pending + counts.inFlight;
+    if (completed % 100 === 0 || completed === total) {
+      const mem = process.memoryUsage();
+      logger.info(`Progress: ${completed}/${total} (${total > 0 ? Math.round(completed/total*100) : 100}%) - Done: ${counts.done}, Failed: ${counts.failed}, Pending: ${counts.pending} | Heap: ${Math.round(mem.heapUsed/1024/1024)}MB | Concurrent: ${engageConcurrency.getLimit()}`);
+    }
+    publishCrawlProgress(run?.kind ?? kind, completed, total, { done: counts.done, failed: counts.failed, pending: counts.pending });
+  });
+  const counts = await getCrawlQueueCounts();
+  logger.info(`Crawl ${result}. Summary: Done: ${counts.done}, Failed: ${counts.failed}, Pending: ${counts.pending}`);
+  return result;
+}
+
+/**
+ * Run a crawl through the queue. An unfinished run left by a restart is completed first;
+ * if it was the same kind of crawl, that counts as this crawl.
+ * @param kind - The crawl to run
+ * @param mode - How its IDs are crawled
+ * @param listIds - Builds the ID list for a new run
+ */
+async function runQueuedCrawl(kind: CrawlRunKind, mode: CrawlMode, listIds: () => Promise<string[]>): Promise<void> {
+  const unfinished = await getUnfinishedCrawlRun();
+  if (unfinished) {
+    logger.info(`Resuming unfinished ${unfinished.kind} crawl ${unfinished.runId} started at ${unfinished.startedAt}.`);
+    const result = await drainQueue(unfinished.kind);
+    if (result === 'stopped') return;
+    if (unfinished.kind === kind) {
+      await recordCrawlSuccess(kind, unfinished.runId);
+      return;
+    }
+  }
+
+  const activityIds = await listIds();
+  if (activityIds.length === 0) {
+    // Shown by the readiness check; a crawl with nothing due still counts
+    await recordCrawlSuccess(kind);
+    return;
+  }
+  const run = await startCrawlRun(kind, activityIds, mode);
+  if (await drainQueue(kind) === 'stopped') return;
+  await recordCrawlSuccess(kind, run.runId);
+}
+
+/**
+ * Queue activities to be crawled ahead of any running scan.
+ * @param activityIds - IDs to crawl
+ * @param source - What asked for them, e.g. "admin" or "api-miss"
+ * @param trigger - If given, start draining the queue now unless a club job is already running
+ * @returns Number of IDs newly queued
+ */
+export async function enqueueActivityCrawl(activityIds: string[], source: string, trigger?: CacheJobTrigger): Promise<number> {
+  const queued = await enqueueCrawlItems(activityIds, { mode: 'refresh', source, priority: 'high' });
+  // A running club job drains the queue itself and picks the new items up first
+  if (trigger && !jobStatus.clubs.running) {
+    runCacheJob('clubs', 'drainCrawlQueue', trigger, async () => {
+      await drainQueue('manual');
+    });
   }
+  return queued;
 }
 
 /**
- * Initialize the club cache by scanning through all activity IDs
- * Processed concurrently with controlled parallelism
+ * Queue an activity that an API request could not fetch. Any client can name any ID, so
+ * only IDs a scan would cover and that are not backed off as empty are queued, each at
+ * most once per API_MISS_CRAWL_WINDOW_SECS.
+ * @param activityId - The requested ID
+ * @returns Whether it was queued
+ */
+export async function enqueueMissedActivity(activityId: string): Promise<boolean> {
+  const range = planScanRange({ min: MIN_ACTIVITY_ID_SCAN, max: MAX_ACTIVITY_ID_SCAN }, await getLearnedIdRange(), ID_PROBE_AHEAD);
+  const id = parseInt(activityId, 10);
+  if (id < range.min || id > range.max) return false;
+  if (!isProbeDue(await getEmptyProbeState(activityId), Date.now())) return false;
+  if (!(await claimRequestedCrawl(activityId, API_MISS_CRAWL_WINDOW_SECS))) return false;
+  return (await enqueueActivityCrawl([activityId], 'api-miss')) > 0;
+}
+
+/**
+ * Sets the crawl gauges before a /metrics scrape. Queue counts that cannot be read keep
+ * their last values.
+ */
+export async function updateCrawlMetrics(): Promise<void> {
+  engageConcurrencyLimit.set(engageConcurrency.getLimit());
+  engageRateLimitWaiting.set(engageRateLimiter?.getWaitingCount() ?? 0);
+  try {
+    const counts = await getCrawlQueueCounts();
+    crawlQueueItems.set({ status: 'pending' }, counts.pending);
+    crawlQueueItems.set({ status: 'in_flight' }, counts.inFlight);
+  } catch (err) {
+    logger.error('Error reading crawl queue counts for metrics:', err);
+  }
+}
+
+/**
+ * Initialize the club cache by scanning the activity ID range.
+ * The range starts from MIN/MAX_ACTIVITY_ID_SCAN and is narrowed to the IDs that have
+ * returned data once some have been found, plus ID_PROBE_AHEAD past the highest one.
+ * IDs that keep returning nothing are backed off. Progress is kept in the crawl queue,
+ * so a restart resumes the scan instead of starting over.
  */
 export async function initializeClubCache(): Promise<void> {
-  logger.info(`Starting initial club cache population from ID ${MIN_ACTIVITY_ID_SCAN} to ${MAX_ACTIVITY_ID_SCAN}`);
-  logger.info(`Concurrency: ${CONCURRENT_API_CALLS} parallel requests`);
-  
-  const totalIds = MAX_ACTIVITY_ID_SCAN - MIN_ACTIVITY_ID_SCAN + 1;
-  let successCount = 0;
-  let errorCount = 0;
-  skippedCount = 0; // Reset for this run
-  
-  // Generate array of activity IDs
-  const activityIds = Array.from(
-    { length: totalIds },
-    (_, i) => String(MIN_ACTIVITY_ID_SCAN + i)
-  );
-  
-  // Create batch processor with concurrency control
-  const processor = new BatchProcessor(
-    async (activityId: string) => {
-      await processSingleActivity(activityId);
-      return activityId;
-    },
-    CONCURRENT_API_CALLS,
-    {
-      onError: (error, activityId) => {
-        errorCount++;
-        logger.error(`Error processing activity ID ${activityId}:`, error);
-      },
-      onProgress: (completed, total) => {
-        if (completed % 100 === 0 || completed === total) {
-          const mem = process.memoryUsage();
-          logger.info(`Progress: ${completed}/${total} (${Math.round(completed/total*100)}%) - Success: ${successCount}, Skipped: ${skippedCount}, Errors: ${errorCount} | Heap: ${Math.round(mem.heapUsed/1024/1024)}MB | Concurrent: ${CONCURRENT_API_CALLS}`);
-        }
+  await runQueuedCrawl('initialize', 'scan', async () => {
+    const learned = await getLearnedIdRange();
+    const range = planScanRange({ min: MIN_ACTIVITY_ID_SCAN, max: MAX_ACTIVITY_ID_SCAN }, learned, ID_PROBE_AHEAD);
+    logger.info(`Starting initial club cache population from ID ${range.min} to ${range.max}` +
+      (learned ? ` (learned range ${learned.min}-${learned.max})` : ''));
+
+    const emptyStates = await getEmptyProbeStates();
+    const now = Date.now();
+    const activityIds: string[] = [];
+    for (let id = range.min; id <= range.max; id++) {
+      if (isProbeDue(emptyStates.get(String(id)), now)) {
+        activityIds.push(String(id));
       }
     }
-  );
-  
-  // Process all activities concurrently
-  const results = await processor.process(activityIds);
-  successCount = results.length;
-  
+    const backedOff = range.max - range.min + 1 - activityIds.length;
+    if (backedOff > 0) {
+      logger.info(`Skipping ${backedOff} IDs that recently returned no data.`);
+    }
+    return activityIds;
+  });
   logger.info(`Initial club cache population finished.`);
-  logger.info(`Summary: Total: ${totalIds}, Processed: ${activityIds.length}, Success: ${successCount}, Skipped: ${skippedCount}, Errors: ${errorCount}`);
 }
 
 /**
- * Update stale clubs in the cache
- * Processed concurrently with controlled parallelism
+ * Update stale clubs in the cache through the crawl queue, and probe past the
+ * highest known activity ID for new activities. Each activity's next check time comes
+ * from the refresh policy (see services/refresh-service.ts); due activities are queued
+ * hottest and most overdue first.
  */
 export async function updateStaleClubs(): Promise<void> {
   logger.info('Starting stale club check...');
-  logger.info(`Concurrency: ${CONCURRENT_API_CALLS} parallel requests`);
-  const now = Date.now();
-  const updateIntervalMs = CLUB_UPDATE_INTERVAL_MINS * 60 * 1000;
-  const activityKeys = await getAllActivityKeys();
-  
-  // Identify stale activities
-  const staleActivityIds: string[] = [];
-  for (const key of activityKeys) {
-    const activityId = key.substring(ACTIVITY_KEY_PREFIX.length);
-    const cachedData = await getActivityData(activityId);
+  await runQueuedCrawl('stale-update', 'refresh', async () => {
+    const now = Date.now();
+    const updateIntervalMs = CLUB_UPDATE_INTERVAL_MINS * 60 * 1000;
+    const activityKeys = await getAllActivityKeys();
+    const emptyStates = await getEmptyProbeStates();
+    const cachedIds = activityKeys.map(key => key.substring(ACTIVITY_KEY_PREFIX.length));
+    const { due, unscheduled } = await getDueActivities(cachedIds, now);
+
+    const staleActivityIds = due
+      .filter(({ activityId }) => isProbeDue(emptyStates.get(activityId), now))
+      .map(({ activityId }) => activityId);
     
-    const needsUpdate = !cachedData || 
-                       Object.keys(cachedData).length === 0 ||
-                       (!cachedData.lastCheck && !cachedData.error) ||
-                       (cachedData.lastCheck && (now - new Date(cachedData.lastCheck).getTime()) > updateIntervalMs) ||
-                       cachedData.error;
+    // Entries cached before they had a schedule fall back to the flat interval
+    for (const activityId of unscheduled) {
+      const cachedData = await getActivityData(activityId);
+      
+      const needsUpdate = !cachedData || 
+                         Object.keys(cachedData).length === 0 ||
+                         (!cachedData.lastCheck && !cachedData.error) ||
+                         (cachedData.lastCheck && (now - new Date(cachedData.lastCheck).getTime()) > updateIntervalMs) ||
+                         cachedData.error;
+      
+      if (needsUpdate && isProbeDue(emptyStates.get(activityId), now)) {
+        staleActivityIds.push(activityId);
+      }
+    }
     
-    if (needsUpdate) {
-      staleActivityIds.push(activityId);
+    if (staleActivityIds.length === 0) {
+      logger.info('No stale activities found.');
+    } else {
+      const byTier = due.reduce<Record<string, number>>((counts, { tier }) => ({ ...counts, [tier]: (counts[tier] ?? 0) + 1 }), {});
+      logger.info(`Found ${staleActivityIds.length} stale activities to update (due by tier: ${JSON.stringify(byTier)}, unscheduled: ${unscheduled.length}).`);
     }
-  }
-  
-  if (staleActivityIds.length === 0) {
-    logger.info('No stale activities found. Skipping update.');
-    logger.info('Stale club check finished.');
-    return;
-  }
-  
-  logger.info(`Found ${staleActivityIds.length} stale activities to update.`);
-  
-  // Create batch processor for concurrent updates
-  const processor = new BatchProcessor(
-    async (activityId: string) => {
-      logger.debug(`Updating stale activity ${activityId}`);
-      await processAndCacheActivity(activityId);
-      return activityId;
-    },
-    CONCURRENT_API_CALLS,
-    {
-      onError: (error, activityId) => {
-        logger.error(`Error updating stale activity ${activityId}:`, error);
-      },
-      onProgress: (completed, total) => {
-        if (completed % 10 === 0 || completed === total) {
-          logger.info(`Update progress: ${completed}/${total} (${Math.round(completed/total*100)}%)`);
-        }
-      }
+
+    const cachedIdSet = new Set(cachedIds);
+    const probeIds = probeAheadIds(await getLearnedIdRange(), ID_PROBE_AHEAD)
+      .filter(id => !cachedIdSet.has(id) && isProbeDue(emptyStates.get(id), now));
+    if (probeIds.length > 0) {
+      logger.info(`Probing ${probeIds.length} IDs past the highest known activity (${probeIds[0]}-${probeIds[probeIds.length - 1]}).`);
     }
-  );
-  
-  // Process stale activities concurrently
-  await processor.process(staleActivityIds);
-  
+    return [...staleActivityIds, ...probeIds];
+  });
   logger.info('Stale club check finished.');
 }
 
@@ -290,21 +631,21 @@ export async function initializeOrUpdateStaffCache(forceUpdate: boolean = false)
       }
     }
 
-    if (needsUpdate && USERNAME && PASSWORD && FIXED_STAFF_ACTIVITY_ID) {
+    if (needsUpdate && hasEngageAccounts() && FIXED_STAFF_ACTIVITY_ID) {
       logger.info('Staff data needs update. Fetching...');
-      const activityJson = await fetchActivityData(FIXED_STAFF_ACTIVITY_ID, USERNAME, PASSWORD);
+      const activityJson = await fetchActivityData(FIXED_STAFF_ACTIVITY_ID);
       
       if (activityJson) {
         const staffMap = await structStaffData(activityJson);
         const staffObject = Object.fromEntries(staffMap);
         staffObject.lastCheck = new Date().toISOString();
-        await setStaffData(staffObject);
+        await storeStaffData(staffObject);
         logger.info('Staff data updated and cached.');
       } else {
         logger.warn(`Could not retrieve base data for staff (activity ID ${FIXED_STAFF_ACTIVITY_ID}).`);
         if (cachedStaffData && cachedStaffData.lastCheck) {
           cachedStaffData.lastCheck = new Date().toISOString();
-          await setStaffData(cachedStaffData);
+          await storeStaffData(cachedStaffData);
         }
       }
     } else {
@@ -0,0 +1,238 @@
+// services/cookie-store.ts
+import * as fs from 'node:fs';
+import { resolve } from 'node:path';
+import { config } from 'dotenv';
+import type { Cookie } from 'playwright';
+import { getRedisClient } from './redis-service';
+import { logger } from '../utils/logger';
+import { parseEncryptionKey, encryptSecret, decryptSecret } from '../utils/cookie-crypto';
+import { accountScopedKey } from '../utils/engage-accounts';
+
+config();
+
+/**
+ * Where the Engage session cookies live between logins. The Redis store is shared by all
+ * replicas, so one login serves them all, and keeps the cookies encrypted. The file store
+ * keeps the old plaintext services/cookies.json for single-instance setups. Each Engage
+ * account has its own store; the API_USERNAME account keeps the unscoped key and file.
+ */
+
+const COOKIE_STORE = (process.env.COOKIE_STORE || 'redis').toLowerCase();
+const COOKIE_ENCRYPTION_KEY = process.env.COOKIE_ENCRYPTION_KEY || '';
+
+const COOKIES_KEY = 'auth:cookies'; // string: encrypted StoredCookies JSON, expires with the cookies; :<storageKey> per extra account
+const COOKIES_BACKUP_KEY = 'auth:cookies:backup';
+const COOKIE_FILE_DIR = import.meta.dir;
+
+// Put the backup back; RENAME keeps its TTL and replaces the current cookies in one step
+const RESTORE_BACKUP_SCRIPT = `
+if redis.call('EXISTS', KEYS[2]) == 0 then return 0 end
+redis.call('RENAME', KEYS[2], KEYS[1])
+return 1
+`;
+
+export interface StoredCookies {
+  cookies: Cookie[];
+  savedAt: string;
+  expiresAt: string | null; // earliest expiry among the cookies; null if all are session cookies
+}
+
+export interface CookieStore {
+  readonly kind: 'redis' | 'file';
+  /** The current cookies, or null if there are none or they have expired. */
+  load(): Promise<StoredCookies | null>;
+  /** Replaces the current cookies in one step, so readers never see an empty store. */
+  save(cookies: Cookie[]): Promise<StoredCookies>;
+  clear(): Promise<void>;
+  /** Keeps a copy of the current cookies for restoreBackup. */
+  backup(): Promise<boolean>;
+  /** Puts the backed-up cookies back, e.g. after a failed re-login. */
+  restoreBackup(): Promise<boolean>;
+}
+
+function toStoredCookies(cookies: Cookie[], savedAt: string): StoredCookies {
+  // Playwright uses -1 for session cookies
+  const expiries = cookies.map(cookie => cookie.expires).filter(expires => expires > 0);
+  return {
+    cookies,
+    savedAt,
+    expiresAt: expiries.length > 0 ? new Date(Math.min(...expiries) * 1000).toISOString() : null
+  };
+}
+
+function isExpired(stored: StoredCookies): boolean {
+  return stored.expiresAt !== null && Date.parse(stored.expiresAt) <= Date.now();
+}
+
+export class RedisCookieStore implements CookieStore {
+  readonly kind = 'redis';
+  private key: Buffer;
+  private cookiesKey: string;
+  private backupKey: string;
+
+  /**
+   * @param encryptionKey - 32-byte key, hex or base64
+   * @param storageKey - EngageAccount.storageKey of the account the cookies belong to
+   */
+  constructor(encryptionKey: string, storageKey: string = '') {
+    this.key = parseEncryptionKey(encryptionKey);
+    this.cookiesKey = accountScopedKey(COOKIES_KEY, storageKey);
+    this.backupKey = accountScopedKey(COOKIES_BACKUP_KEY, storageKey);
+  }
+
+  async load(): Promise<StoredCookies | null> {
+    const client = getRedisClient();
+    if (!client) return null;
+    try {
+      const payload = await client.get(this.cookiesKey);
+      if (!payload) return null;
+      const stored: StoredCookies = JSON.parse(decryptSecret(payload, this.key));
+      return isExpired(stored) ? null : stored;
+    } catch (err) {
+      logger.error('Error loading cookies from Redis:', err);
+      return null;
+    }
+  }
+
+  async save(cookies: Cookie[]): Promise<StoredCookies> {
+    const stored = toStoredCookies(cookies, new Date().toISOString());
+    const client = getRedisClient();
+    if (!client) {
+      throw new Error('Redis client not available, cannot save cookies');
+    }
+    const args = [this.cookiesKey, encryptSecret(JSON.stringify(stored), this.key)];
+    if (stored.expiresAt) {
+      args.push('PXAT', String(Date.parse(stored.expiresAt)));
+    }
+    await client.send('SET', args);
+    return stored;
+  }
+
+  async clear(): Promise<void> {
+    const client = getRedisClient();
+    if (!client) return;
+    try {
+      await client.send('DEL', [this.cookiesKey]);
+    } catch (err) {
+      logger.error('Error clearing cookies in Redis:', err);
+    }
+  }
+
+  async backup(): Promise<boolean> {
+    const client = getRedisClient();
+    if (!client) return false;
+    try {
+      return Number(await client.send('COPY', [this.cookiesKey, this.backupKey, 'REPLACE'])) === 1;
+    } catch (err) {
+      logger.error('Error backing up cookies in Redis:', err);
+      return false;
+    }
+  }
+
+  async restoreBackup(): Promise<boolean> {
+    const client = getRedisClient();
+    if (!client) return false;
+    try {
+      return Number(await client.send('EVAL', [RESTORE_BACKUP_SCRIPT, '2', this.cookiesKey, this.backupKey])) === 1;
+    } catch (err) {
+      logger.error('Error restoring cookie backup in Redis:', err);
+      return false;
+    }
+  }
+}
+
+export class FileCookieStore implements CookieStore {
+  readonly kind = 'file';
+  private backupCookies: Cookie[] | null = null;
+
+  constructor(private path: string = cookieFilePath('')) {}
+
+  async load(): Promise<StoredCookies | null> {
+    try {
+      const [text, stat] = await Promise.all([fs.promises.readFile(this.path, 'utf-8'), fs.promises.stat(this.path)]);
+      const stored = toStoredCookies(JSON.parse(text) as Cookie[], stat.mtime.toISOString());
+      return isExpired(stored) ? null : stored;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.warn('Error loading cookies from file:', error.message);
+      }
+      return null;
+    }
+  }
+
+  async save(cookies: Cookie[]): Promise<StoredCookies> {
+    // Write then rename, so a reader never sees a half-written file
+    const tempPath = `${this.path}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(cookies, null, 2), 'utf-8');
+    await fs.promises.rename(tempPath, this.path);
+    return toStoredCookies(cookies, new Date().toISOString());
+  }
+
+  async clear(): Promise<void> {
+    try {
+      await fs.promises.unlink(this.path);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('Error deleting cookie file:', error.message);
+      }
+    }
+  }
+
+  async backup(): Promise<boolean> {
+    const stored = await this.load();
+    this.backupCookies = stored?.cookies ?? null;
+    return this.backupCookies !== null;
+  }
+
+  async restoreBackup(): Promise<boolean> {
+    if (!this.backupCookies) return false;
+    await this.save(this.backupCookies);
+    this.backupCookies = null;
+    return true;
+  }
+}
+
+/**
+ * services/cookies.json for the API_USERNAME account, services/cookies-<storageKey>.json for others.
+ */
+function cookieFilePath(storageKey: string): string {
+  return resolve(COOKIE_FILE_DIR, storageKey ? `cookies-${storageKey}.json` : 'cookies.json');
+}
+
+function createCookieStore(storageKey: string, announce: boolean): CookieStore {
+  if (COOKIE_STORE === 'file') {
+    if (announce) logger.info(`Cookie store: file (${cookieFilePath(storageKey)}).`);
+    return new FileCookieStore(cookieFilePath(storageKey));
+  }
+  if (COOKIE_STORE !== 'redis') {
+    if (announce) logger.warn(`Unknown COOKIE_STORE "${COOKIE_STORE}". Using redis.`);
+  }
+  if (!COOKIE_ENCRYPTION_KEY) {
+    if (announce) logger.warn('COOKIE_ENCRYPTION_KEY is not set, cookies cannot be stored in Redis. Falling back to the file store.');
+    return new FileCookieStore(cookieFilePath(storageKey));
+  }
+  try {
+    const store = new RedisCookieStore(COOKIE_ENCRYPTION_KEY, storageKey);
+    if (announce) logger.info('Cookie store: redis (encrypted).');
+    return store;
+  } catch (error) {
+    if (announce) logger.error(`Invalid COOKIE_ENCRYPTION_KEY: ${(error as Error).message}. Falling back to the file store.`);
+    return new FileCookieStore(cookieFilePath(storageKey));
+  }
+}
+
+const cookieStores = new Map<string, CookieStore>();
+
+/**
+ * The cookie store of an Engage account.
+ * @param storageKey - EngageAccount.storageKey; empty for the API_USERNAME account
+ */
+export function getCookieStore(storageKey: string = ''): CookieStore {
+  let store = cookieStores.get(storageKey);
+  if (!store) {
+    // The configuration is the same for every account, so it is only reported once
+    store = createCookieStore(storageKey, cookieStores.size === 0);
+    cookieStores.set(storageKey, store);
+  }
+  return store;
+}
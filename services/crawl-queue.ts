@@ -0,0 +1,566 @@
+// services/crawl-queue.ts
+import { config } from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+import { getRedisClient } from './redis-service';
+import { logger } from '../utils/logger';
+import { decideCrawlItem, splitPendingForReset } from '../utils/crawl-queue';
+
+config();
+
+/**
+ * Durable crawl work queue. Every activity ID to crawl is a queue item with its own state,
+ * so a crawl interrupted by a restart resumes where it stopped instead of starting over.
+ *
+ * Pending items sit in a sorted set ordered by priority and enqueue order. Claiming an item
+ * moves it to the in-flight set with a lease, which the worker renews while it works on the
+ * item (including while it waits for Engage or the rate limiter); items whose lease runs out
+ * (the process died while working on them) go back to the front of the queue.
+ */
+
+const CRAWL_PREFIX = 'crawl:';
+const PENDING_KEY = `${CRAWL_PREFIX}pending`; // zset: activity ID -> priority/sequence score
+const IN_FLIGHT_KEY = `${CRAWL_PREFIX}in-flight`; // zset: activity ID -> lease expiry in ms
+const ITEMS_KEY = `${CRAWL_PREFIX}items`; // hash: activity ID -> CrawlItemState JSON
+const DONE_KEY = `${CRAWL_PREFIX}done`; // set of activity IDs finished in the current run
+const FAILED_KEY = `${CRAWL_PREFIX}failed`; // set of activity IDs that ran out of attempts
+const RUN_KEY = `${CRAWL_PREFIX}run`; // string: CrawlRunInfo JSON
+const CONTROL_KEY = `${CRAWL_PREFIX}control`; // string: CrawlControl
+const SEQUENCE_KEY = `${CRAWL_PREFIX}sequence`; // counter giving FIFO order within a priority
+const REQUESTED_PREFIX = `${CRAWL_PREFIX}requested:`; // string per activity ID: set while a request-triggered crawl is recent
+
+// Normal-priority scores start here, so every high-priority item sorts first
+const NORMAL_PRIORITY_OFFSET = 1e12;
+// IDs added per script call
+const ADD_CHUNK_SIZE = 500;
+
+const CRAWL_MAX_ATTEMPTS = parseInt(process.env.CRAWL_MAX_ATTEMPTS || '3', 10);
+const CRAWL_LEASE_SECONDS = parseInt(process.env.CRAWL_LEASE_SECONDS || '120', 10); // Renewed while the item runs
+const CRAWL_PAUSE_POLL_MS = 1000;
+
+export type CrawlItemStatus = 'pending' | 'in-flight' | 'done' | 'failed';
+// scan: skip IDs that are already cached; refresh: always fetch
+export type CrawlMode = 'scan' | 'refresh';
+export type CrawlPriority = 'high' | 'normal';
+export type CrawlControl = 'running' | 'paused' | 'stopped';
+export type CrawlRunKind = 'initialize' | 'stale-update' | 'manual';
+
+export interface CrawlItemState {
+  activityId: string;
+  status: CrawlItemStatus;
+  mode: CrawlMode;
+  source: string; // what queued it, e.g. "initialize", "admin", "api-miss"
+  priority: CrawlPriority;
+  attempts: number;
+  lastError: string | null;
+  updatedAt: string;
+}
+
+export interface CrawlRunInfo {
+  runId: string;
+  kind: CrawlRunKind;
+  startedAt: string;
+  total: number;
+}
+
+export interface CrawlQueueCounts {
+  pending: number;
+  inFlight: number;
+  done: number;
+  failed: number;
+}
+
+export interface CrawlQueueStatus {
+  control: CrawlControl;
+  run: CrawlRunInfo | null;
+  counts: CrawlQueueCounts;
+  recentFailures: CrawlItemState[];
+}
+
+// deferred: the item was not attempted (e.g. upstream unavailable); requeue it without counting an attempt
+export type CrawlItemOutcome = { ok: true } | { ok: false; error: string; deferred?: boolean };
+
+export type DrainResult = 'completed' | 'stopped';
+
+// Pops the first pending item and leases it in one step, so a crash cannot lose it in between
+const CLAIM_SCRIPT = `
+local item = redis.call('ZPOPMIN', KEYS[1])
+if #item == 0 then return false end
+redis.call('ZADD', KEYS[2], ARGV[1], item[1])
+return item[1]
+`;
+
+// Moves in-flight items with expired leases back to the front of the queue
+const REQUEUE_EXPIRED_SCRIPT = `
+local ids = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1])
+for _, id in ipairs(ids) do
+  redis.call('ZREM', KEYS[1], id)
+  redis.call('ZADD', KEYS[2], 'NX', 0, id)
+end
+return #ids
+`;
+
+// Queues a chunk of IDs in one round trip. ARGV: score of the first ID, its high-priority
+// score, '1' if high priority, mode, source, updatedAt, then an ID and its new state JSON per item.
+// IDs in flight are left alone; IDs already pending move forward (never back) on a high-priority
+// request and take over its mode and priority. Returns the number of IDs newly queued.
+const ADD_ITEMS_SCRIPT = `
+local score = tonumber(ARGV[1])
+local highScore = tonumber(ARGV[2])
+local queued = 0
+for i = 7, #ARGV, 2 do
+  local id = ARGV[i]
+  local n = (i - 7) / 2
+  if not redis.call('ZSCORE', KEYS[2], id) then
+    if redis.call('ZADD', KEYS[1], 'NX', score + n, id) == 1 then
+      queued = queued + 1
+      redis.call('SREM', KEYS[3], id)
+      redis.call('SREM', KEYS[4], id)
+      redis.call('HSET', KEYS[5], id, ARGV[i + 1])
+    elseif ARGV[3] == '1' then
+      redis.call('ZADD', KEYS[1], 'LT', highScore + n, id)
+      local raw = redis.call('HGET', KEYS[5], id)
+      if raw then
+        local state = cjson.decode(raw)
+        state.mode = ARGV[4]
+        state.source = ARGV[5]
+        state.priority = 'high'
+        state.updatedAt = ARGV[6]
+        redis.call('HSET', KEYS[5], id, cjson.encode(state))
+      end
+    end
+  end
+end
+return queued
+`;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function saveItemState(state: CrawlItemState): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  await client.send('HSET', [ITEMS_KEY, state.activityId, JSON.stringify(state)]);
+}
+
+async function getItemState(activityId: string): Promise<CrawlItemState | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  const raw = await client.send('HGET', [ITEMS_KEY, activityId]);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Gets the current run, if any.
+ */
+export async function getCrawlRun(): Promise<CrawlRunInfo | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  try {
+    const raw = await client.get(RUN_KEY);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    logger.error('Error getting crawl run:', err);
+    return null;
+  }
+}
+
+/**
+ * Gets the pending, in-flight, done and failed counts.
+ */
+export async function getCrawlQueueCounts(): Promise<CrawlQueueCounts> {
+  const client = getRedisClient();
+  if (!client) return { pending: 0, inFlight: 0, done: 0, failed: 0 };
+  const [pending, inFlight, done, failed] = await Promise.all([
+    client.send('ZCARD', [PENDING_KEY]),
+    client.send('ZCARD', [IN_FLIGHT_KEY]),
+    client.send('SCARD', [DONE_KEY]),
+    client.send('SCARD', [FAILED_KEY])
+  ]);
+  return { pending: Number(pending), inFlight: Number(inFlight), done: Number(done), failed: Number(failed) };
+}
+
+/**
+ * Gets the current run if it still has pending or in-flight items.
+ * @returns The run to resume, or null if there is none
+ */
+export async function getUnfinishedCrawlRun(): Promise<CrawlRunInfo | null> {
+  const run = await getCrawlRun();
+  if (!run) return null;
+  const counts = await getCrawlQueueCounts();
+  return counts.pending + counts.inFlight > 0 ? run : null;
+}
+
+/**
+ * Gets the crawl control state. Missing means running.
+ */
+export async function getCrawlControl(): Promise<CrawlControl> {
+  const client = getRedisClient();
+  if (!client) return 'running';
+  try {
+    const value = await client.get(CONTROL_KEY);
+    return value === 'paused' || value === 'stopped' ? value : 'running';
+  } catch (err) {
+    logger.error('Error getting crawl control state:', err);
+    return 'running';
+  }
+}
+
+/**
+ * Pauses or resumes crawling. Workers finish the items they hold and then wait while paused.
+ */
+export async function setCrawlPaused(paused: boolean): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  await client.set(CONTROL_KEY, paused ? 'paused' : 'running');
+  logger.info(`Crawl ${paused ? 'paused' : 'resumed'}.`);
+}
+
+/**
+ * Stops the current run: pending items are dropped and workers exit after their current item.
+ * The next run or enqueue starts crawling again.
+ * @returns Number of pending items dropped
+ */
+export async function stopCrawl(): Promise<number> {
+  const client = getRedisClient();
+  if (!client) return 0;
+  await client.set(CONTROL_KEY, 'stopped');
+  const pendingIds: string[] = ((await client.send('ZRANGE', [PENDING_KEY, '0', '-1'])) || []).map(String);
+  if (pendingIds.length > 0) {
+    await client.send('HDEL', [ITEMS_KEY, ...pendingIds]);
+  }
+  await client.send('DEL', [PENDING_KEY]);
+  logger.info(`Crawl stopped. Dropped ${pendingIds.length} pending items.`);
+  return pendingIds.length;
+}
+
+/**
+ * Adds IDs to the pending set and records their state.
+ * @returns Number of IDs newly queued
+ */
+async function addItems(activityIds: string[], options: { mode: CrawlMode; source: string; priority: CrawlPriority }): Promise<number> {
+  const client = getRedisClient();
+  if (!client || activityIds.length === 0) return 0;
+
+  const lastSequence = Number(await client.send('INCRBY', [SEQUENCE_KEY, String(activityIds.length)]));
+  const firstSequence = lastSequence - activityIds.length + 1;
+  const offset = options.priority === 'high' ? 0 : NORMAL_PRIORITY_OFFSET;
+  const now = new Date().toISOString();
+  let queued = 0;
+
+  for (let i = 0; i < activityIds.length; i += ADD_CHUNK_SIZE) {
+    const chunk = activityIds.slice(i, i + ADD_CHUNK_SIZE);
+    const items = chunk.flatMap(activityId => {
+      const state: CrawlItemState = {
+        activityId,
+        status: 'pending',
+        mode: options.mode,
+        source: options.source,
+        priority: options.priority,
+        attempts: 0,
+        lastError: null,
+        updatedAt: now
+      };
+      return [activityId, JSON.stringify(state)];
+    });
+    queued += Number(await client.send('EVAL', [
+      ADD_ITEMS_SCRIPT, '5', PENDING_KEY, IN_FLIGHT_KEY, DONE_KEY, FAILED_KEY, ITEMS_KEY,
+      String(offset + firstSequence + i), String(firstSequence + i), options.priority === 'high' ? '1' : '0',
+      options.mode, options.source, now,
+      ...items
+    ]));
+  }
+  return queued;
+}
+
+async function sendChunked(command: string, key: string, ids: string[]): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  for (let i = 0; i < ids.length; i += ADD_CHUNK_SIZE) {
+    await client.send(command, [key, ...ids.slice(i, i + ADD_CHUNK_SIZE)]);
+  }
+}
+
+/**
+ * Clears the previous run and records a new one. Pending high-priority items stay queued
+ * and count towards the new run.
+ */
+async function resetRun(kind: CrawlRunKind): Promise<CrawlRunInfo> {
+  const client = getRedisClient();
+  const run: CrawlRunInfo = { runId: uuidv4(), kind, startedAt: new Date().toISOString(), total: 0 };
+  if (!client) return run;
+  const pendingIds: string[] = ((await client.send('ZRANGE', [PENDING_KEY, '0', '-1'])) || []).map(String);
+  const states: (string | null)[] = pendingIds.length > 0 ? await client.send('HMGET', [ITEMS_KEY, ...pendingIds]) : [];
+  const { kept, dropped } = splitPendingForReset(pendingIds, states.map(raw => (raw ? JSON.parse(raw) : null)));
+  // In-flight items belong to workers still running; leave them in the in-flight set.
+  // Only the listed IDs are removed, so items queued meanwhile are not lost.
+  const keptIds = new Set(kept);
+  const itemIds: string[] = ((await client.send('HKEYS', [ITEMS_KEY])) || []).map(String);
+  await sendChunked('ZREM', PENDING_KEY, dropped);
+  await sendChunked('HDEL', ITEMS_KEY, itemIds.filter(id => !keptIds.has(id)));
+  await client.send('DEL', [DONE_KEY, FAILED_KEY]);
+  run.total = kept.length;
+  await client.set(RUN_KEY, JSON.stringify(run));
+  if (kept.length > 0) {
+    logger.info(`Kept ${kept.length} pending high-priority crawl items for the new run.`);
+  }
+  return run;
+}
+
+async function addToRunTotal(run: CrawlRunInfo, count: number): Promise<CrawlRunInfo> {
+  const client = getRedisClient();
+  run.total += count;
+  if (client) await client.set(RUN_KEY, JSON.stringify(run));
+  return run;
+}
+
+/**
+ * Claims an ID for a request-triggered crawl, at most once per window, so repeated
+ * requests for the same ID queue it only once.
+ * @param activityId - The activity ID
+ * @param windowSeconds - How long the claim blocks further ones
+ * @returns Whether this caller may queue the ID
+ */
+export async function claimRequestedCrawl(activityId: string, windowSeconds: number): Promise<boolean> {
+  const client = getRedisClient();
+  if (!client) return false;
+  try {
+    return (await client.send('SET', [`${REQUESTED_PREFIX}${activityId}`, '1', 'NX', 'EX', String(windowSeconds)])) === 'OK';
+  } catch (err) {
+    logger.error(`Error claiming requested crawl of activity ${activityId}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Adds activity IDs to the queue. IDs already pending or in flight are not queued twice.
+ * They join the unfinished run if there is one; otherwise they start a manual run.
+ * @param activityIds - IDs to crawl
+ * @param options - How to crawl them and where in the queue they go
+ * @returns Number of IDs newly queued
+ */
+export async function enqueueCrawlItems(
+  activityIds: string[],
+  options: { mode: CrawlMode; source: string; priority: CrawlPriority }
+): Promise<number> {
+  const client = getRedisClient();
+  if (!client || activityIds.length === 0) return 0;
+  try {
+    const run = (await getUnfinishedCrawlRun()) ?? (await resetRun('manual'));
+    const queued = await addItems(activityIds, options);
+    await addToRunTotal(run, queued);
+    return queued;
+  } catch (err) {
+    logger.error(`Error enqueueing ${activityIds.length} crawl items:`, err);
+    return 0;
+  }
+}
+
+/**
+ * Starts a new run, replacing the state of the previous one. Pending high-priority items
+ * carry over into it.
+ * @param kind - What the run is for
+ * @param activityIds - IDs to crawl, in order
+ * @param mode - How to crawl them
+ * @returns The new run
+ */
+export async function startCrawlRun(kind: CrawlRunKind, activityIds: string[], mode: CrawlMode): Promise<CrawlRunInfo> {
+  const client = getRedisClient();
+  const run = await resetRun(kind);
+  if (!client) return run;
+  await client.set(CONTROL_KEY, 'running');
+  const queued = await addItems(activityIds, { mode, source: kind, priority: 'normal' });
+  logger.info(`Started ${kind} crawl run ${run.runId} with ${queued} IDs.`);
+  return addToRunTotal(run, queued);
+}
+
+/**
+ * Claims the next pending item.
+ * @returns The activity ID, or null if nothing is pending
+ */
+async function claimNextItem(): Promise<string | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  const leaseUntil = Date.now() + CRAWL_LEASE_SECONDS * 1000;
+  const claimed = await client.send('EVAL', [CLAIM_SCRIPT, '2', PENDING_KEY, IN_FLIGHT_KEY, String(leaseUntil)]);
+  return claimed ? String(claimed) : null;
+}
+
+/**
+ * Extends the lease on an item this worker holds. An item that is no longer in flight
+ * (e.g. requeued after its lease ran out) is not leased again.
+ */
+async function renewLease(activityId: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.send('ZADD', [IN_FLIGHT_KEY, 'XX', String(Date.now() + CRAWL_LEASE_SECONDS * 1000), activityId]);
+  } catch (err) {
+    logger.error(`Error renewing lease on crawl item ${activityId}:`, err);
+  }
+}
+
+/**
+ * Puts items whose worker died back at the front of the queue.
+ * @returns Number of items requeued
+ */
+async function requeueExpiredLeases(): Promise<number> {
+  const client = getRedisClient();
+  if (!client) return 0;
+  const requeued = Number(await client.send('EVAL', [REQUEUE_EXPIRED_SCRIPT, '2', IN_FLIGHT_KEY, PENDING_KEY, String(Date.now())]));
+  if (requeued > 0) {
+    logger.warn(`Requeued ${requeued} crawl items whose lease expired.`);
+  }
+  return requeued;
+}
+
+/**
+ * Records the outcome of one item: done, back in the queue for another attempt, or failed.
+ * @param item - The item's state while it was in flight
+ */
+async function completeItem(item: CrawlItemState, outcome: CrawlItemOutcome): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  const { activityId } = item;
+  await client.send('ZREM', [IN_FLIGHT_KEY, activityId]);
+  const decision = decideCrawlItem(outcome, item.attempts, CRAWL_MAX_ATTEMPTS);
+  const error = outcome.ok ? null : outcome.error;
+  const state: CrawlItemState = {
+    ...item,
+    status: decision.status,
+    attempts: decision.attempts,
+    lastError: error,
+    updatedAt: new Date().toISOString()
+  };
+
+  if (decision.status === 'done') {
+    await client.send('SADD', [DONE_KEY, activityId]);
+  } else if (decision.requeue === 'front') {
+    await client.send('ZADD', [PENDING_KEY, 'NX', '0', activityId]);
+  } else if (decision.requeue === 'back') {
+    const sequence = Number(await client.send('INCR', [SEQUENCE_KEY]));
+    await client.send('ZADD', [PENDING_KEY, 'NX', String(NORMAL_PRIORITY_OFFSET + sequence), activityId]);
+    logger.debug(`Crawl item ${activityId} failed (attempt ${item.attempts}/${CRAWL_MAX_ATTEMPTS}): ${error}. Requeued.`);
+  } else {
+    await client.send('SADD', [FAILED_KEY, activityId]);
+    logger.warn(`Crawl item ${activityId} failed after ${item.attempts} attempts: ${error}`);
+  }
+  await saveItemState(state);
+}
+
+/**
+ * Works through the queue until it is empty or the crawl is stopped. Waits while paused.
+ * @param processItem - Crawls one activity
+ * @param concurrency - Items processed at the same time, or a function returning the current limit
+ * @param onProgress - Called after each item with the current counts
+ * @returns Whether the queue was emptied or the crawl was stopped
+ */
+export async function drainCrawlQueue(
+  processItem: (activityId: string, mode: CrawlMode) => Promise<CrawlItemOutcome>,
+  concurrency: number | (() => number),
+  onProgress?: (counts: CrawlQueueCounts, run: CrawlRunInfo | null) => void
+): Promise<DrainResult> {
+  const client = getRedisClient();
+  if (!client) return 'completed';
+
+  if ((await getCrawlControl()) === 'stopped') {
+    // A stop ends the run it was issued for; draining again means crawling was asked for again
+    await client.set(CONTROL_KEY, 'running');
+  }
+  await requeueExpiredLeases();
+
+  const active = new Set<Promise<void>>();
+  let result: DrainResult = 'completed';
+
+  const runItem = async (activityId: string) => {
+    const previous = await getItemState(activityId);
+    const item: CrawlItemState = {
+      activityId,
+      status: 'in-flight',
+      mode: previous?.mode ?? 'refresh',
+      source: previous?.source ?? 'unknown',
+      // States written before priorities were recorded count as normal
+      priority: previous?.priority ?? 'normal',
+      attempts: (previous?.attempts ?? 0) + 1,
+      lastError: previous?.lastError ?? null,
+      updatedAt: new Date().toISOString()
+    };
+    await saveItemState(item);
+
+    const heartbeat = setInterval(
+      () => renewLease(activityId),
+      Math.max(1000, Math.floor(CRAWL_LEASE_SECONDS * 1000 / 3))
+    );
+    let outcome: CrawlItemOutcome;
+    try {
+      outcome = await processItem(activityId, item.mode);
+    } catch (error) {
+      outcome = { ok: false, error: (error as Error).message };
+    } finally {
+      clearInterval(heartbeat);
+    }
+    await completeItem(item, outcome);
+    if (onProgress) {
+      onProgress(await getCrawlQueueCounts(), await getCrawlRun());
+    }
+  };
+
+  while (true) {
+    const control = await getCrawlControl();
+    if (control === 'stopped') {
+      result = 'stopped';
+      break;
+    }
+    const limit = typeof concurrency === 'function' ? concurrency() : concurrency;
+    if (control === 'paused' || active.size >= limit) {
+      if (active.size > 0 && control !== 'paused') {
+        await Promise.race(active);
+      } else {
+        await sleep(CRAWL_PAUSE_POLL_MS);
+      }
+      continue;
+    }
+
+    const activityId = await claimNextItem();
+    if (!activityId) {
+      if (active.size > 0) {
+        // Running items may fail and be requeued, so wait for one before deciding the queue is empty
+        await Promise.race(active);
+        continue;
+      }
+      if ((await requeueExpiredLeases()) > 0) continue;
+      break;
+    }
+
+    const task = runItem(activityId)
+      .catch(err => {
+        logger.error(`Error handling crawl item ${activityId}:`, err);
+      })
+      .finally(() => {
+        active.delete(task);
+      });
+    active.add(task);
+  }
+
+  await Promise.all(active);
+  return result;
+}
+
+/**
+ * Gets the queue state for the admin API.
+ * @param failureLimit - Maximum number of failed items to include
+ */
+export async function getCrawlQueueStatus(failureLimit: number = 20): Promise<CrawlQueueStatus> {
+  const client = getRedisClient();
+  const [control, run, counts] = await Promise.all([getCrawlControl(), getCrawlRun(), getCrawlQueueCounts()]);
+  let recentFailures: CrawlItemState[] = [];
+  if (client && counts.failed > 0) {
+    const failedIds: string[] = ((await client.send('SRANDMEMBER', [FAILED_KEY, String(failureLimit)])) || []).map(String);
+    const states: (string | null)[] = failedIds.length > 0 ? await client.send('HMGET', [ITEMS_KEY, ...failedIds]) : [];
+    recentFailures = states
+      .filter((raw): raw is string => !!raw)
+      .map(raw => JSON.parse(raw) as CrawlItemState)
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+  return { control, run, counts, recentFailures };
+}
@@ -0,0 +1,278 @@
+// services/crawl-report-service.ts
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { config } from 'dotenv';
+import { getRedisClient } from './redis-service';
+import { logger } from '../utils/logger';
+import { crawlFailureReason } from '../utils/crawl-outcome';
+import type { CrawlQueueCounts, CrawlRunInfo, CrawlRunKind, DrainResult } from './crawl-queue';
+
+config();
+
+/**
+ * Per-run crawl reports. While a crawl drains the queue its work runs inside an
+ * AsyncLocalStorage context, so code deep in the fetch path (re-logins, S3 uploads, change
+ * detection) can count into the current run's report without the report being passed around.
+ * Anything outside a crawl, such as an API request fetching on a cache miss, is not counted.
+ */
+
+const CRAWL_REPORT_PREFIX = 'crawl-report:'; // string: CrawlReport JSON, expires after retention
+const CRAWL_REPORTS_KEY = 'crawl-reports'; // zset: run ID -> start time (ms)
+const LAST_SUCCESS_KEY = 'crawl-reports:last-success'; // string: CrawlSuccess JSON
+
+const CRAWL_REPORT_RETENTION_DAYS = parseInt(process.env.CRAWL_REPORT_RETENTION_DAYS || '30', 10);
+const CRAWL_REPORT_MAX_ERRORS = parseInt(process.env.CRAWL_REPORT_MAX_ERRORS || '200', 10); // Errors kept per report
+const CRAWL_SUCCESS_MAX_FAILED_RATIO = parseFloat(process.env.CRAWL_SUCCESS_MAX_FAILED_RATIO || '0.2');
+const CRAWL_REPORT_SAVE_INTERVAL_MS = 10000; // How often a running report is written to Redis
+
+export type CrawlReportStatus = 'running' | 'completed' | 'stopped' | 'failed' | 'interrupted';
+
+export interface CrawlReportCounts {
+  attempted: number; // items processed, retries included
+  skipped: number; // scan items already cached
+  created: number;
+  updated: number; // changed
+  removed: number;
+  unchanged: number;
+  empty: number; // Engage returned nothing
+  failed: number; // attempts that failed and were retried or given up
+  deferred: number; // handed back while the Engage circuit was open
+  timeouts: number;
+  reLogins: number;
+  s3Uploads: number;
+  s3UploadFailures: number;
+}
+
+export type CrawlReportCounter = keyof CrawlReportCounts;
+
+export interface CrawlReportError {
+  activityId: string;
+  error: string;
+  at: string;
+}
+
+export interface CrawlReport {
+  runId: string;
+  kind: CrawlRunKind;
+  status: CrawlReportStatus;
+  startedAt: string;
+  finishedAt: string | null;
+  durationMs: number | null;
+  resumedAt: string[]; // each time the run was picked up again after a restart
+  total: number; // IDs in the run
+  counts: CrawlReportCounts;
+  queue: CrawlQueueCounts | null; // final queue state; failed = items that ran out of attempts
+  errors: CrawlReportError[]; // most recent first, at most CRAWL_REPORT_MAX_ERRORS
+  errorsDropped: number;
+}
+
+export type CrawlReportSummary = Omit<CrawlReport, 'errors'> & { errorCount: number };
+
+export interface CrawlSuccess {
+  kind: CrawlRunKind;
+  at: string;
+}
+
+const reportContext = new AsyncLocalStorage<CrawlReport>();
+// Reports running on this instance, fresher than what is in Redis
+const activeReports = new Map<string, CrawlReport>();
+
+function emptyCounts(): CrawlReportCounts {
+  return {
+    attempted: 0,
+    skipped: 0,
+    created: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    empty: 0,
+    failed: 0,
+    deferred: 0,
+    timeouts: 0,
+    reLogins: 0,
+    s3Uploads: 0,
+    s3UploadFailures: 0
+  };
+}
+
+async function saveCrawlReport(report: CrawlReport): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    const retentionMs = CRAWL_REPORT_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    await client.send('SET', [
+      `${CRAWL_REPORT_PREFIX}${report.runId}`,
+      JSON.stringify(report),
+      'EX',
+      String(Math.ceil(retentionMs / 1000))
+    ]);
+    await client.send('ZADD', [CRAWL_REPORTS_KEY, String(new Date(report.startedAt).getTime()), report.runId]);
+    await client.send('ZREMRANGEBYSCORE', [CRAWL_REPORTS_KEY, '-inf', String(Date.now() - retentionMs)]);
+  } catch (err) {
+    logger.error(`Error saving crawl report ${report.runId}:`, err);
+  }
+}
+
+/**
+ * Gets a report by run ID.
+ * @returns The report, or null if unknown or expired
+ */
+export async function getCrawlReport(runId: string): Promise<CrawlReport | null> {
+  const active = activeReports.get(runId);
+  if (active) return active;
+  const client = getRedisClient();
+  if (!client) return null;
+  try {
+    const raw = await client.get(`${CRAWL_REPORT_PREFIX}${runId}`);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    logger.error(`Error getting crawl report ${runId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Lists recent reports, newest first, without their error lists.
+ * @param limit - Maximum number of reports
+ */
+export async function listCrawlReports(limit: number): Promise<CrawlReportSummary[]> {
+  const client = getRedisClient();
+  if (!client) return [];
+  try {
+    const runIds: string[] = ((await client.send('ZREVRANGE', [CRAWL_REPORTS_KEY, '0', String(limit - 1)])) || []).map(String);
+    const reports = await Promise.all(runIds.map(getCrawlReport));
+    return reports
+      .filter((report): report is CrawlReport => report !== null)
+      .map(({ errors, ...summary }) => ({ ...summary, errorCount: errors.length + summary.errorsDropped }));
+  } catch (err) {
+    logger.error('Error listing crawl reports:', err);
+    return [];
+  }
+}
+
+/**
+ * Counts an event into the report of the crawl the caller is running in, if any.
+ * @param counter - What happened
+ * @param by - How many times (default: 1)
+ */
+export function countCrawlEvent(counter: CrawlReportCounter, by: number = 1): void {
+  const report = reportContext.getStore();
+  if (report) {
+    report.counts[counter] += by;
+  }
+}
+
+/**
+ * Records a failed item in the current crawl's report, if any.
+ * @param activityId - The activity ID
+ * @param error - What went wrong
+ */
+export function recordCrawlError(activityId: string, error: string): void {
+  const report = reportContext.getStore();
+  if (!report) return;
+  report.errors.unshift({ activityId, error, at: new Date().toISOString() });
+  if (report.errors.length > CRAWL_REPORT_MAX_ERRORS) {
+    report.errors.pop();
+    report.errorsDropped++;
+  }
+}
+
+/**
+ * Runs a crawl with a report attached. A run resumed after a restart continues its report.
+ * @param run - The crawl queue run being drained
+ * @param drain - Drains the queue; its result sets the report status
+ * @param getQueueCounts - Reads the final queue state
+ * @returns Whatever drain returned
+ */
+export async function runWithCrawlReport(
+  run: CrawlRunInfo,
+  drain: () => Promise<DrainResult>,
+  getQueueCounts: () => Promise<CrawlQueueCounts>
+): Promise<DrainResult> {
+  const existing = await getCrawlReport(run.runId);
+  const now = new Date().toISOString();
+  const report: CrawlReport = existing
+    ? { ...existing, status: 'running', finishedAt: null, durationMs: null, resumedAt: [...existing.resumedAt, now] }
+    : {
+      runId: run.runId,
+      kind: run.kind,
+      status: 'running',
+      startedAt: run.startedAt,
+      finishedAt: null,
+      durationMs: null,
+      resumedAt: [],
+      total: run.total,
+      counts: emptyCounts(),
+      queue: null,
+      errors: [],
+      errorsDropped: 0
+    };
+  activeReports.set(report.runId, report);
+  await saveCrawlReport(report);
+  const saveTimer = setInterval(() => saveCrawlReport(report), CRAWL_REPORT_SAVE_INTERVAL_MS);
+
+  try {
+    const result = await reportContext.run(report, drain);
+    report.status = result;
+    return result;
+  } catch (error) {
+    report.status = 'failed';
+    recordCrawlError('-', (error as Error).message);
+    throw error;
+  } finally {
+    clearInterval(saveTimer);
+    report.finishedAt = new Date().toISOString();
+    report.durationMs = Date.parse(report.finishedAt) - Date.parse(report.startedAt);
+    report.queue = await getQueueCounts();
+    report.total = Math.max(report.total, report.queue.done + report.queue.failed + report.queue.pending + report.queue.inFlight);
+    activeReports.delete(report.runId);
+    await saveCrawlReport(report);
+    const { counts } = report;
+    logger.info(`Crawl report ${report.runId} (${report.kind}, ${report.status}): attempted ${counts.attempted}, created ${counts.created}, updated ${counts.updated}, removed ${counts.removed}, unchanged ${counts.unchanged}, empty ${counts.empty}, skipped ${counts.skipped}, failed ${counts.failed}, timeouts ${counts.timeouts}, re-logins ${counts.reLogins}.`);
+  }
+}
+
+/**
+ * Records that a scheduled crawl finished, including one that found nothing to do.
+ * A run whose report shows too many failed items is not recorded.
+ * @param kind - The crawl that finished
+ * @param runId - The run that did the crawl, if it queued anything
+ */
+export async function recordCrawlSuccess(kind: CrawlRunKind, runId?: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    const report = runId ? await getCrawlReport(runId) : null;
+    const reason = report ? crawlFailureReason(report.counts, report.queue, CRAWL_SUCCESS_MAX_FAILED_RATIO) : null;
+    if (reason) {
+      logger.warn(`Crawl ${runId} (${kind}) not recorded as a success: ${reason}.`);
+      return;
+    }
+    const success: CrawlSuccess = { kind, at: new Date().toISOString() };
+    await client.set(LAST_SUCCESS_KEY, JSON.stringify(success));
+  } catch (err) {
+    logger.error('Error recording crawl success:', err);
+  }
+}
+
+/**
+ * Gets the last scheduled crawl that finished.
+ * @returns The crawl, or null if none has finished yet
+ * @throws Error if Redis fails, so a failed read is not mistaken for no crawl at all
+ */
+export async function getLastCrawlSuccess(): Promise<CrawlSuccess | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  const raw = await client.get(LAST_SUCCESS_KEY);
+  return raw ? JSON.parse(raw) : null;
+}
+
+/**
+ * Marks reports still running on this instance as interrupted, e.g. on shutdown.
+ * The run itself stays in the crawl queue and resumes on the next start.
+ */
+export async function interruptCrawlReports(): Promise<void> {
+  for (const report of activeReports.values()) {
+    report.status = 'interrupted';
+    await saveCrawlReport(report);
+  }
+}
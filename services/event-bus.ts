@@ -0,0 +1,62 @@
+// services/event-bus.ts
+import { EventEmitter } from 'events';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '../utils/logger';
+
+/**
+ * In-process bus for change and progress events. Cache writes and crawls publish here;
+ * delivery channels (webhooks, server-sent events) subscribe without the cache manager knowing about them.
+ */
+
+export type ChangeEventType = 'activity.created' | 'activity.updated' | 'activity.removed' | 'staff.updated';
+export type AppEventType = ChangeEventType | 'crawl.progress';
+
+// Events describing changes to cached data. Progress events are only useful live and are not sent to webhooks.
+export const CHANGE_EVENT_TYPES: ChangeEventType[] = ['activity.created', 'activity.updated', 'activity.removed', 'staff.updated'];
+export const APP_EVENT_TYPES: AppEventType[] = [...CHANGE_EVENT_TYPES, 'crawl.progress'];
+
+export interface AppEvent<T = any> {
+  id: string;
+  type: AppEventType;
+  createdAt: string; // ISO timestamp
+  data: T;
+}
+
+export type AppEventListener = (event: AppEvent) => void | Promise<void>;
+
+const emitter = new EventEmitter();
+// Every delivery channel adds one listener; the default limit of 10 is only a leak warning
+emitter.setMaxListeners(50);
+
+/**
+ * Publishes an event to all listeners. Listener failures are logged and never reach the publisher.
+ * @param type - Event type
+ * @param data - Event payload
+ * @param id - Event ID, generated if not given
+ * @returns The published event
+ */
+export function publishEvent<T>(type: AppEventType, data: T, id: string = uuidv4()): AppEvent<T> {
+  const event: AppEvent<T> = { id, type, createdAt: new Date().toISOString(), data };
+  emitter.emit('event', event);
+  return event;
+}
+
+/**
+ * Registers a listener for every published event.
+ * @returns A function that removes the listener
+ */
+export function subscribeEvents(listener: AppEventListener): () => void {
+  const wrapped = (event: AppEvent) => {
+    try {
+      Promise.resolve(listener(event)).catch(err => {
+        logger.error(`Event listener failed for ${event.type} ${event.id}:`, err);
+      });
+    } catch (err) {
+      logger.error(`Event listener failed for ${event.type} ${event.id}:`, err);
+    }
+  };
+  emitter.on('event', wrapped);
+  return () => {
+    emitter.off('event', wrapped);
+  };
+}
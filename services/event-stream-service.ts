@@ -0,0 +1,204 @@
+// services/event-stream-service.ts
+import { config } from 'dotenv';
+import { getRedisClient, createRedisSubscriber, type RedisSubscriber } from './redis-service';
+import { subscribeEvents, type AppEvent, type AppEventType } from './event-bus';
+import { logger } from '../utils/logger';
+
+config();
+
+/**
+ * Server-sent events fan-out. Each instance appends the events it publishes to a Redis stream
+ * (so clients can resume with Last-Event-ID) and announces them on a pub/sub channel; every
+ * instance, including the publisher, forwards channel messages to its own connected clients.
+ */
+
+const EVENT_STREAM_KEY = 'events:stream';
+const EVENT_CHANNEL = 'events:live';
+
+const EVENT_STREAM_MAX_ENTRIES = parseInt(process.env.EVENT_STREAM_MAX_ENTRIES || '10000', 10);
+const SSE_REPLAY_MAX_EVENTS = parseInt(process.env.SSE_REPLAY_MAX_EVENTS || '1000', 10);
+const SSE_MAX_CLIENTS = parseInt(process.env.SSE_MAX_CLIENTS || '500', 10);
+
+export interface StreamedEvent {
+  streamId: string; // Redis stream entry ID, sent as the SSE id
+  event: AppEvent;
+}
+
+/**
+ * A connected SSE client. write() sends a preformatted SSE frame.
+ */
+export interface EventStreamClient {
+  types: Set<AppEventType> | null; // null means all types
+  write: (frame: string) => void;
+}
+
+interface ClientState {
+  client: EventStreamClient;
+  // While replaying history, live events are held back so they are not sent out of order
+  pending: StreamedEvent[] | null;
+  // Last replayed stream ID; live events up to it were already sent during replay
+  replayedUpTo: string | null;
+}
+
+const clients = new Set<ClientState>();
+const clusterListeners = new Set<(event: AppEvent) => void | Promise<void>>();
+let subscriber: RedisSubscriber | null = null;
+let unsubscribeBus: (() => void) | null = null;
+
+/**
+ * Compares two stream IDs ("<ms>-<seq>").
+ */
+export function compareStreamIds(a: string, b: string): number {
+  const [msA = '0', seqA = '0'] = a.split('-');
+  const [msB = '0', seqB = '0'] = b.split('-');
+  const byMs = Number(msA) - Number(msB);
+  return byMs !== 0 ? byMs : Number(seqA) - Number(seqB);
+}
+
+/**
+ * Formats an event as an SSE frame.
+ */
+export function formatSseFrame({ streamId, event }: StreamedEvent): string {
+  return `id: ${streamId}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function sendToClient(state: ClientState, streamed: StreamedEvent): void {
+  if (state.client.types && !state.client.types.has(streamed.event.type)) return;
+  // Only the replayed range is checked: instances may publish slightly out of stream order
+  if (state.replayedUpTo && compareStreamIds(streamed.streamId, state.replayedUpTo) <= 0) return;
+  state.client.write(formatSseFrame(streamed));
+}
+
+function dispatchLocally(streamed: StreamedEvent): void {
+  for (const listener of clusterListeners) {
+    Promise.resolve()
+      .then(() => listener(streamed.event))
+      .catch(err => logger.error(`Cluster event listener failed for ${streamed.event.type} event ${streamed.event.id}:`, err));
+  }
+  for (const state of clients) {
+    if (state.pending) {
+      state.pending.push(streamed);
+    } else {
+      sendToClient(state, streamed);
+    }
+  }
+}
+
+/**
+ * Persists a bus event to the stream and announces it to all instances.
+ */
+async function broadcastEvent(event: AppEvent): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    const streamId = String(await client.send('XADD', [
+      EVENT_STREAM_KEY, 'MAXLEN', '~', String(EVENT_STREAM_MAX_ENTRIES), '*', 'event', JSON.stringify(event)
+    ]));
+    await client.send('PUBLISH', [EVENT_CHANNEL, JSON.stringify({ streamId, event })]);
+  } catch (err) {
+    logger.error(`Error broadcasting ${event.type} event ${event.id}:`, err);
+  }
+}
+
+/**
+ * Reads events after a stream ID, oldest first.
+ */
+async function readEventsAfter(lastEventId: string, limit: number): Promise<StreamedEvent[]> {
+  const client = getRedisClient();
+  if (!client) return [];
+  try {
+    const reply = await client.send('XRANGE', [EVENT_STREAM_KEY, `(${lastEventId}`, '+', 'COUNT', String(limit)]);
+    if (!Array.isArray(reply)) return [];
+    const events: StreamedEvent[] = [];
+    for (const entry of reply) {
+      if (!Array.isArray(entry) || entry.length < 2) continue;
+      const fields = entry[1];
+      // Fields arrive as ["event", "<json>"]
+      const json = Array.isArray(fields) ? fields[fields.indexOf('event') + 1] : fields?.event;
+      if (!json) continue;
+      events.push({ streamId: String(entry[0]), event: JSON.parse(String(json)) });
+    }
+    return events;
+  } catch (err) {
+    logger.error(`Error reading events after ${lastEventId}:`, err);
+    return [];
+  }
+}
+
+/**
+ * Registers a listener for events published by any instance, this one included.
+ * Events arrive once the event stream is started.
+ * @returns A function that unsubscribes
+ */
+export function subscribeClusterEvents(listener: (event: AppEvent) => void | Promise<void>): () => void {
+  clusterListeners.add(listener);
+  return () => {
+    clusterListeners.delete(listener);
+  };
+}
+
+/**
+ * Whether another SSE client can be accepted on this instance.
+ */
+export function canAcceptEventClient(): boolean {
+  return clients.size < SSE_MAX_CLIENTS;
+}
+
+/**
+ * Connects an SSE client. If lastEventId is given, missed events still in the stream are
+ * replayed first (at most SSE_REPLAY_MAX_EVENTS), then live events follow without gaps or repeats.
+ * @param client - The client
+ * @param lastEventId - Stream ID from the Last-Event-ID header, if resuming
+ * @returns A function that disconnects the client
+ */
+export async function addEventClient(client: EventStreamClient, lastEventId: string | null): Promise<() => void> {
+  const state: ClientState = { client, pending: lastEventId ? [] : null, replayedUpTo: null };
+  clients.add(state);
+  const remove = () => {
+    clients.delete(state);
+  };
+
+  if (lastEventId) {
+    const missed = await readEventsAfter(lastEventId, SSE_REPLAY_MAX_EVENTS);
+    for (const streamed of missed) sendToClient(state, streamed);
+    state.replayedUpTo = missed[missed.length - 1]?.streamId ?? null;
+    const pending = state.pending ?? [];
+    state.pending = null;
+    for (const streamed of pending) sendToClient(state, streamed);
+    logger.debug(`SSE client resumed after ${lastEventId}: replayed ${missed.length} events.`);
+  }
+  return remove;
+}
+
+/**
+ * Starts broadcasting bus events and listening for events from all instances.
+ */
+export async function startEventStream(): Promise<void> {
+  if (unsubscribeBus) return;
+  subscriber = createRedisSubscriber();
+  if (subscriber) {
+    try {
+      await subscriber.subscribe(EVENT_CHANNEL, message => {
+        try {
+          dispatchLocally(JSON.parse(message) as StreamedEvent);
+        } catch (err) {
+          logger.warn('Ignoring malformed event message:', err);
+        }
+      });
+    } catch (err) {
+      logger.error(`Failed to subscribe to ${EVENT_CHANNEL}. Live events will not reach SSE clients.`, err);
+    }
+  }
+  unsubscribeBus = subscribeEvents(broadcastEvent);
+  logger.info('Event stream started.');
+}
+
+/**
+ * Stops the event stream and closes the subscriber connection.
+ */
+export function stopEventStream(): void {
+  unsubscribeBus?.();
+  unsubscribeBus = null;
+  subscriber?.close();
+  subscriber = null;
+}
@@ -0,0 +1,178 @@
+// services/health-service.ts
+import { config } from 'dotenv';
+import { getRedisClient } from './redis-service';
+import { checkS3Writable } from './s3-service';
+import { getCookieHealth } from './playwright-auth';
+import { getEngageAccounts, getAccountStatus, type AccountStatus } from './account-pool';
+import { getLastCrawlSuccess, listCrawlReports, type CrawlReportSummary, type CrawlSuccess } from './crawl-report-service';
+import { getCrawlQueueCounts, getCrawlControl, type CrawlQueueCounts, type CrawlControl } from './crawl-queue';
+import { getCacheJobStatus, type CacheJobName, type CacheJobStatus } from './cache-manager';
+import { getSessionStatus, type SessionStatus } from './session-monitor';
+import { getEngageStatus } from '../engage-api/engage-health';
+import type { CircuitState } from '../utils/circuit-breaker';
+
+config();
+
+/**
+ * Dependency checks behind /readyz and /status. /healthz needs none of this: answering at
+ * all means the process is alive.
+ */
+
+const HEALTH_REDIS_TIMEOUT_MS = parseInt(process.env.HEALTH_REDIS_TIMEOUT_MS || '2000', 10);
+// Writing to S3 on every probe would be wasteful, so the result is reused for this long
+const HEALTH_S3_CHECK_INTERVAL_SECS = parseInt(process.env.HEALTH_S3_CHECK_INTERVAL_SECS || '300', 10);
+const READY_MAX_CRAWL_AGE_HOURS = parseInt(process.env.READY_MAX_CRAWL_AGE_HOURS || '24', 10);
+
+const startedAt = Date.now();
+
+export type HealthCheckName = 'redis' | 'cookie' | 's3' | 'crawl';
+
+export interface HealthCheck {
+  ok: boolean;
+  detail: string;
+  latencyMs?: number;
+  checkedAt: string;
+}
+
+export interface Readiness {
+  ready: boolean;
+  checks: Record<HealthCheckName, HealthCheck>;
+}
+
+export interface ServiceStatus extends Readiness {
+  startedAt: string;
+  uptimeSeconds: number;
+  memory: { rssMB: number; heapUsedMB: number };
+  jobs: Record<CacheJobName, CacheJobStatus>;
+  crawl: {
+    control: CrawlControl;
+    queue: CrawlQueueCounts;
+    lastReport: CrawlReportSummary | null;
+  };
+  engage: { circuit: CircuitState; concurrency: number };
+  accounts: AccountStatus[];
+  sessions: SessionStatus[];
+}
+
+let s3CheckCache: HealthCheck | null = null;
+
+function result(ok: boolean, detail: string, latencyMs?: number): HealthCheck {
+  return { ok, detail, latencyMs, checkedAt: new Date().toISOString() };
+}
+
+/**
+ * Runs a check, failing it if it throws or does not finish within HEALTH_REDIS_TIMEOUT_MS.
+ * Every check reads Redis, so a stalled Redis would otherwise hang /readyz.
+ */
+async function runCheck(check: () => Promise<HealthCheck>): Promise<HealthCheck> {
+  const started = Date.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  try {
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`No reply within ${HEALTH_REDIS_TIMEOUT_MS}ms`)), HEALTH_REDIS_TIMEOUT_MS);
+    });
+    return await Promise.race([check(), timeout]);
+  } catch (error) {
+    return result(false, (error as Error).message, Date.now() - started);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+async function checkRedis(): Promise<HealthCheck> {
+  const client = getRedisClient();
+  if (!client) return result(false, 'Redis client not initialized');
+  const started = Date.now();
+  await client.send('PING', []);
+  return result(true, 'PING ok', Date.now() - started);
+}
+
+// Passes while at least one account has a usable session, since requests fail over between accounts
+async function checkCookie(): Promise<HealthCheck> {
+  const accounts = getEngageAccounts();
+  if (accounts.length === 0) return result(false, 'No Engage account configured');
+  const details: string[] = [];
+  let usable = 0;
+  for (const account of accounts) {
+    const { present, knownBad, expiresAt, store } = await getCookieHealth(account);
+    const detail = !present
+      ? `No Engage session cookie in the ${store} store`
+      : knownBad ?? `Session cookie in the ${store} store${expiresAt ? `, expires ${expiresAt}` : ''}`;
+    if (present && !knownBad) usable++;
+    details.push(accounts.length > 1 ? `${account.id}: ${detail}` : detail);
+  }
+  return result(usable > 0, details.join('; '));
+}
+
+async function checkS3(): Promise<HealthCheck> {
+  if (s3CheckCache && Date.now() - Date.parse(s3CheckCache.checkedAt) < HEALTH_S3_CHECK_INTERVAL_SECS * 1000) {
+    return s3CheckCache;
+  }
+  const started = Date.now();
+  const error = await checkS3Writable();
+  s3CheckCache = result(error === null, error ?? 'Bucket writable', Date.now() - started);
+  return s3CheckCache;
+}
+
+async function checkCrawl(): Promise<HealthCheck> {
+  const maxAgeMs = READY_MAX_CRAWL_AGE_HOURS * 60 * 60 * 1000;
+  let last: CrawlSuccess | null;
+  try {
+    last = await getLastCrawlSuccess();
+  } catch (error) {
+    return result(false, `Could not read the last crawl: ${(error as Error).message}`);
+  }
+  if (!last) {
+    // A new deployment gets one threshold's worth of time to finish its first crawl
+    return Date.now() - startedAt < maxAgeMs
+      ? result(true, 'No crawl has finished yet')
+      : result(false, `No crawl has finished in ${READY_MAX_CRAWL_AGE_HOURS}h`);
+  }
+  const ageHours = (Date.now() - Date.parse(last.at)) / (60 * 60 * 1000);
+  const detail = `Last ${last.kind} crawl finished at ${last.at}`;
+  return ageHours <= READY_MAX_CRAWL_AGE_HOURS
+    ? result(true, detail)
+    : result(false, `${detail}, more than ${READY_MAX_CRAWL_AGE_HOURS}h ago`);
+}
+
+/**
+ * Runs all dependency checks. Ready only if every check passes.
+ */
+export async function getReadiness(): Promise<Readiness> {
+  const [redis, cookie, s3, crawl] = await Promise.all([
+    runCheck(checkRedis),
+    runCheck(checkCookie),
+    runCheck(checkS3),
+    runCheck(checkCrawl)
+  ]);
+  const checks = { redis, cookie, s3, crawl };
+  return { ready: Object.values(checks).every(check => check.ok), checks };
+}
+
+/**
+ * Readiness plus the state of the process, background jobs, crawl queue, Engage client
+ * and Engage accounts and sessions.
+ */
+export async function getServiceStatus(): Promise<ServiceStatus> {
+  const [readiness, control, queue, reports, accounts, sessions] = await Promise.all([
+    getReadiness(),
+    getCrawlControl(),
+    getCrawlQueueCounts(),
+    listCrawlReports(1),
+    getAccountStatus(),
+    getSessionStatus()
+  ]);
+  const memory = process.memoryUsage();
+  const engage = getEngageStatus();
+  return {
+    ...readiness,
+    startedAt: new Date(startedAt).toISOString(),
+    uptimeSeconds: Math.round((Date.now() - startedAt) / 1000),
+    memory: { rssMB: Math.round(memory.rss / 1024 / 1024), heapUsedMB: Math.round(memory.heapUsed / 1024 / 1024) },
+    jobs: getCacheJobStatus(),
+    crawl: { control, queue, lastReport: reports[0] ?? null },
+    engage: { circuit: engage.circuit.state, concurrency: engage.concurrency.limit },
+    accounts,
+    sessions
+  };
+}
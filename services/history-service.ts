@@ -0,0 +1,178 @@
+// services/history-service.ts
+import { config } from 'dotenv';
+import { getRedisClient, isListableActivity } from './redis-service';
+import { diffActivity, type FieldChange } from '../utils/diff';
+import { logger } from '../utils/logger';
+import type { ActivityData } from '../models/activity';
+
+config();
+
+// Streams live outside the `activity:` prefix so SCAN over activity keys never sees them
+const ACTIVITY_HISTORY_PREFIX = 'activity-history:';
+const ACTIVITY_CHANGES_KEY = 'activity-changes';
+
+// Stream retention (approximate, trimmed with MAXLEN ~)
+const HISTORY_MAX_ENTRIES_PER_ACTIVITY = parseInt(process.env.HISTORY_MAX_ENTRIES_PER_ACTIVITY || '200', 10);
+const CHANGES_STREAM_MAX_ENTRIES = parseInt(process.env.CHANGES_STREAM_MAX_ENTRIES || '10000', 10);
+
+export type ActivityChangeType = 'created' | 'updated' | 'removed';
+
+export interface ActivityChange {
+  eventId: string; // stream entry ID, usable as the since= cursor
+  activityId: string;
+  type: ActivityChangeType;
+  name: string | null;
+  changedAt: string; // ISO timestamp
+  changes: FieldChange[]; // empty for created and removed
+}
+
+/**
+ * Works out what kind of change a write is, if any.
+ * Error and cache-preserved records are transient and never count as changes.
+ */
+function classifyChange(previous: ActivityData | null, next: ActivityData): { type: ActivityChangeType; changes: FieldChange[] } | null {
+  if (next.error || next.source === 'cache-preserved') return null;
+  // An error record replaced whatever was there before, so there is nothing reliable to compare against
+  if (previous?.error) return null;
+
+  const wasListed = isListableActivity(previous);
+  const isListed = isListableActivity(next);
+  if (!wasListed && isListed) return { type: 'created', changes: [] };
+  if (wasListed && !isListed) return next.source === 'api-fetch-empty' ? { type: 'removed', changes: [] } : null;
+  if (!wasListed || !isListed) return null;
+
+  const changes = diffActivity(previous!, next);
+  return changes.length > 0 ? { type: 'updated', changes } : null;
+}
+
+/**
+ * Converts a stream entry's field list (["k1", "v1", "k2", "v2"] or a map) into an object.
+ */
+function entryFields(raw: any): Record<string, string> {
+  if (Array.isArray(raw)) {
+    const fields: Record<string, string> = {};
+    for (let i = 0; i + 1 < raw.length; i += 2) {
+      fields[String(raw[i])] = String(raw[i + 1]);
+    }
+    return fields;
+  }
+  return raw && typeof raw === 'object' ? raw : {};
+}
+
+/**
+ * Parses an XRANGE/XREVRANGE reply into changes.
+ */
+function parseStreamEntries(reply: any): ActivityChange[] {
+  if (!Array.isArray(reply)) return [];
+  const entries: ActivityChange[] = [];
+  for (const entry of reply) {
+    if (!Array.isArray(entry) || entry.length < 2) continue;
+    const fields = entryFields(entry[1]);
+    // Per-activity entries carry the ID of the same change in the global stream
+    const eventId = fields.eventId || String(entry[0]);
+    let changes: FieldChange[] = [];
+    try {
+      changes = JSON.parse(fields.changes || '[]');
+    } catch {
+      logger.warn(`Malformed changes in history entry ${eventId}.`);
+    }
+    entries.push({
+      eventId,
+      activityId: fields.activityId ?? '',
+      type: fields.type as ActivityChangeType,
+      name: fields.name || null,
+      // Stream IDs start with the millisecond timestamp they were added at
+      changedAt: new Date(parseInt(eventId.split('-')[0]!, 10)).toISOString(),
+      changes
+    });
+  }
+  return entries;
+}
+
+/**
+ * Compares a write against the previous record and appends a field-level diff to the
+ * activity's history stream and the global changes stream.
+ * @param activityId - The activity ID
+ * @param previous - The record that was cached before the write, if any
+ * @param next - The record being written
+ * @returns The recorded change, or null if nothing relevant changed or recording failed
+ */
+export async function recordActivityChange(
+  activityId: string,
+  previous: ActivityData | null,
+  next: ActivityData
+): Promise<ActivityChange | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+
+  const classified = classifyChange(previous, next);
+  if (!classified) return null;
+
+  const name = next.name ?? previous?.name ?? '';
+  const fields = ['activityId', activityId, 'type', classified.type, 'name', name, 'changes', JSON.stringify(classified.changes)];
+  try {
+    const eventId = String(await client.send('XADD', [
+      ACTIVITY_CHANGES_KEY, 'MAXLEN', '~', String(CHANGES_STREAM_MAX_ENTRIES), '*', ...fields
+    ]));
+    // The per-activity stream gets its own ID; the global one is kept as a field so an
+    // entry has the same eventId in both streams
+    await client.send('XADD', [
+      `${ACTIVITY_HISTORY_PREFIX}${activityId}`, 'MAXLEN', '~', String(HISTORY_MAX_ENTRIES_PER_ACTIVITY), '*', 'eventId', eventId, ...fields
+    ]);
+    logger.debug(`Recorded ${classified.type} change for activity ${activityId} (${classified.changes.length} fields).`);
+    return {
+      eventId,
+      activityId,
+      type: classified.type,
+      name: name || null,
+      changedAt: new Date(parseInt(eventId.split('-')[0]!, 10)).toISOString(),
+      changes: classified.changes
+    };
+  } catch (err) {
+    logger.error(`Error recording history for activity ${activityId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Gets an activity's change history, newest first.
+ * @param activityId - The activity ID
+ * @param limit - Maximum number of entries
+ * @returns History entries, or [] on error
+ */
+export async function getActivityHistory(activityId: string, limit: number): Promise<ActivityChange[]> {
+  const client = getRedisClient();
+  if (!client) {
+    logger.warn('Redis client not available, skipping getActivityHistory');
+    return [];
+  }
+  try {
+    const reply = await client.send('XREVRANGE', [`${ACTIVITY_HISTORY_PREFIX}${activityId}`, '+', '-', 'COUNT', String(limit)]);
+    return parseStreamEntries(reply);
+  } catch (err) {
+    logger.error(`Error getting history for activity ${activityId}:`, err);
+    return [];
+  }
+}
+
+/**
+ * Gets changes across all activities, oldest first.
+ * @param since - Either a timestamp in ms (inclusive) or an eventId from a previous page (exclusive)
+ * @param limit - Maximum number of entries
+ * @returns Changes, or [] on error
+ */
+export async function getChangesSince(since: { timestamp: number } | { eventId: string }, limit: number): Promise<ActivityChange[]> {
+  const client = getRedisClient();
+  if (!client) {
+    logger.warn('Redis client not available, skipping getChangesSince');
+    return [];
+  }
+  const start = 'eventId' in since ? `(${since.eventId}` : String(since.timestamp);
+  try {
+    const reply = await client.send('XRANGE', [ACTIVITY_CHANGES_KEY, start, '+', 'COUNT', String(limit)]);
+    return parseStreamEntries(reply);
+  } catch (err) {
+    logger.error('Error getting activity changes:', err);
+    return [];
+  }
+}
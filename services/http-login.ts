@@ -0,0 +1,89 @@
+// services/http-login.ts
+import axios, { type AxiosResponse } from 'axios';
+import type { Cookie } from 'playwright';
+import { logger } from '../utils/logger';
+import {
+  extractFormInputs,
+  extractHiddenFields,
+  extractFormAction,
+  parseSetCookieHeaders,
+  mergeCookies
+} from '../utils/webforms';
+
+/**
+ * Logs in to Engage by posting the Login.aspx WebForms form directly, without a browser.
+ */
+
+const LOGIN_URL = 'https://engage.nkcswx.cn/Login.aspx';
+const LOGIN_FIELD_PREFIX = 'ctl00$PageContent$loginControl$';
+const HTTP_LOGIN_TIMEOUT_MS = 30000;
+const USER_AGENT = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+function cookieHeader(cookies: Cookie[]): string {
+  return cookies.map(c => `${c.name}=${c.value}`).join('; ');
+}
+
+function responseCookies(response: AxiosResponse, url: string): Cookie[] {
+  const header = response.headers['set-cookie'];
+  return parseSetCookieHeaders(Array.isArray(header) ? header : header ? [String(header)] : [], url);
+}
+
+/**
+ * Logs in with a plain form post.
+ * @param username - URL-encoded username
+ * @param password - URL-encoded password
+ * @returns The session cookies
+ * @throws Error if the login page cannot be read or the credentials are rejected
+ */
+export async function loginWithHttp(username: string, password: string): Promise<Cookie[]> {
+  logger.info('Starting HTTP form login...');
+  // Redirects are followed by hand so the cookies set along the way are kept
+  const request = { timeout: HTTP_LOGIN_TIMEOUT_MS, maxRedirects: 0, responseType: 'text' as const, validateStatus: (status: number) => status < 400 };
+
+  const page = await axios.get(LOGIN_URL, { ...request, headers: { 'User-Agent': USER_AGENT } });
+  let cookies = responseCookies(page, LOGIN_URL);
+  const html = String(page.data);
+  const hidden = extractHiddenFields(html);
+  if (!hidden.__VIEWSTATE) {
+    throw new Error('Login page has no __VIEWSTATE; the form may have changed');
+  }
+
+  const loginButton = extractFormInputs(html).find(input => input.name === `${LOGIN_FIELD_PREFIX}btnLogin`);
+  const form = new URLSearchParams(hidden);
+  form.set(`${LOGIN_FIELD_PREFIX}txtUN`, decodeURIComponent(username));
+  form.set(`${LOGIN_FIELD_PREFIX}txtPwd`, decodeURIComponent(password));
+  form.set(`${LOGIN_FIELD_PREFIX}cbRememberMe`, 'on');
+  form.set(`${LOGIN_FIELD_PREFIX}btnLogin`, loginButton?.value || 'Login');
+
+  const action = extractFormAction(html, LOGIN_URL);
+  const response = await axios.post(action, form.toString(), {
+    ...request,
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Referer': LOGIN_URL,
+      'Cookie': cookieHeader(cookies)
+    }
+  });
+  cookies = mergeCookies(cookies, responseCookies(response, action));
+
+  // WebForms answers a failed login by rendering the form again; a successful one redirects
+  const location = response.headers.location as string | undefined;
+  if (response.status < 300 || !location || location.includes('Login.aspx')) {
+    throw new Error(`Login form rejected the credentials (HTTP ${response.status})`);
+  }
+
+  // The landing page may set more session cookies
+  const landingUrl = new URL(location, action).toString();
+  const landing = await axios.get(landingUrl, { ...request, headers: { 'User-Agent': USER_AGENT, 'Cookie': cookieHeader(cookies) } });
+  cookies = mergeCookies(cookies, responseCookies(landing, landingUrl));
+  if (String(landing.headers.location ?? '').includes('Login.aspx')) {
+    throw new Error('Session was not accepted after the login redirect');
+  }
+
+  if (cookies.length === 0) {
+    throw new Error('Login redirected but set no cookies');
+  }
+  logger.info(`HTTP login successful. Collected ${cookies.length} cookies.`);
+  return cookies;
+}
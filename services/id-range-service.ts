@@ -0,0 +1,146 @@
+// services/id-range-service.ts
+import { config } from 'dotenv';
+import { getRedisClient } from './redis-service';
+import { nextEmptyProbeState, type EmptyProbeState, type IdRange } from '../utils/id-range';
+import { logger } from '../utils/logger';
+
+config();
+
+/**
+ * What the crawler has learned about which activity IDs exist: the lowest and highest IDs
+ * that returned data, and a backoff schedule for IDs that keep returning nothing.
+ */
+
+const ID_RANGE_KEY = 'crawl:id-range'; // hash: min, max, updatedAt
+const EMPTY_IDS_KEY = 'crawl:empty-ids'; // hash: activity ID -> EmptyProbeState JSON
+const LISTED_EMPTY_KEY = 'crawl:listed-empty'; // hash: activity ID -> empty answers in a row while listed
+
+const EMPTY_ID_BACKOFF_BASE_MINS = parseInt(process.env.EMPTY_ID_BACKOFF_BASE_MINS || '360', 10);
+const EMPTY_ID_BACKOFF_MAX_HOURS = parseInt(process.env.EMPTY_ID_BACKOFF_MAX_HOURS || '720', 10);
+
+// Widens the stored range to include an ID, atomically so parallel workers cannot undo each other
+const EXTEND_RANGE_SCRIPT = `
+local id = tonumber(ARGV[1])
+local min = tonumber(redis.call('HGET', KEYS[1], 'min'))
+local max = tonumber(redis.call('HGET', KEYS[1], 'max'))
+local changed = 0
+if not min or id < min then redis.call('HSET', KEYS[1], 'min', id); changed = 1 end
+if not max or id > max then redis.call('HSET', KEYS[1], 'max', id); changed = 1 end
+if changed == 1 then redis.call('HSET', KEYS[1], 'updatedAt', ARGV[2]) end
+return changed
+`;
+
+/**
+ * Gets the learned ID range.
+ * @returns The lowest and highest IDs that returned data, or null before any were found
+ */
+export async function getLearnedIdRange(): Promise<IdRange | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  try {
+    const [min, max] = await client.send('HMGET', [ID_RANGE_KEY, 'min', 'max']);
+    if (min == null || max == null) return null;
+    return { min: parseInt(min, 10), max: parseInt(max, 10) };
+  } catch (err) {
+    logger.error('Error getting learned activity ID range:', err);
+    return null;
+  }
+}
+
+/**
+ * Records that an ID returned an activity: widens the learned range and clears any backoff.
+ * @param activityId - The activity ID
+ */
+export async function recordActivityFound(activityId: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    const changed = Number(await client.send('EVAL', [EXTEND_RANGE_SCRIPT, '1', ID_RANGE_KEY, activityId, new Date().toISOString()]));
+    if (changed) {
+      logger.info(`Learned activity ID range now includes ${activityId}.`);
+    }
+    await client.send('HDEL', [EMPTY_IDS_KEY, activityId]);
+    await client.send('HDEL', [LISTED_EMPTY_KEY, activityId]);
+  } catch (err) {
+    logger.error(`Error recording activity ${activityId} as found:`, err);
+  }
+}
+
+/**
+ * Records that an ID returned nothing and pushes its next probe further out.
+ * @param activityId - The activity ID
+ */
+export async function recordActivityEmpty(activityId: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    const raw = await client.send('HGET', [EMPTY_IDS_KEY, activityId]);
+    const state = nextEmptyProbeState(
+      raw ? JSON.parse(raw) : null,
+      Date.now(),
+      EMPTY_ID_BACKOFF_BASE_MINS * 60 * 1000,
+      EMPTY_ID_BACKOFF_MAX_HOURS * 60 * 60 * 1000
+    );
+    await client.send('HSET', [EMPTY_IDS_KEY, activityId, JSON.stringify(state)]);
+    await client.send('HDEL', [LISTED_EMPTY_KEY, activityId]);
+  } catch (err) {
+    logger.error(`Error recording activity ${activityId} as empty:`, err);
+  }
+}
+
+/**
+ * Records that a listed activity returned nothing. Its cached record is kept and the ID is
+ * not backed off; the count says when it should be treated as removed.
+ * @param activityId - The activity ID
+ * @returns Empty answers in a row while listed, this one included; 0 if it could not be recorded
+ */
+export async function recordListedActivityEmpty(activityId: string): Promise<number> {
+  const client = getRedisClient();
+  if (!client) return 0;
+  try {
+    return Number(await client.send('HINCRBY', [LISTED_EMPTY_KEY, activityId, '1']));
+  } catch (err) {
+    logger.error(`Error recording listed activity ${activityId} as empty:`, err);
+    return 0;
+  }
+}
+
+/**
+ * Gets the backoff state of one ID.
+ * @param activityId - The activity ID
+ * @returns Its state, or null if it has not returned empty since it last returned data
+ */
+export async function getEmptyProbeState(activityId: string): Promise<EmptyProbeState | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  try {
+    const raw = await client.send('HGET', [EMPTY_IDS_KEY, activityId]);
+    return raw ? JSON.parse(raw) : null;
+  } catch (err) {
+    logger.error(`Error getting empty state of activity ${activityId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Gets the backoff state of every ID that has returned empty.
+ * @returns Map of activity ID to its state
+ */
+export async function getEmptyProbeStates(): Promise<Map<string, EmptyProbeState>> {
+  const states = new Map<string, EmptyProbeState>();
+  const client = getRedisClient();
+  if (!client) return states;
+  try {
+    const reply = await client.send('HGETALL', [EMPTY_IDS_KEY]);
+    // HGETALL arrives as a map or as a flat [field, value, ...] array depending on the protocol
+    const entries: [string, string][] = Array.isArray(reply)
+      ? Array.from({ length: reply.length / 2 }, (_, i) => [String(reply[i * 2]), String(reply[i * 2 + 1])])
+      : Object.entries(reply ?? {}).map(([k, v]) => [k, String(v)]);
+    for (const [activityId, json] of entries) {
+      states.set(activityId, JSON.parse(json));
+    }
+  } catch (err) {
+    logger.error('Error getting empty activity ID states:', err);
+  }
+  return states;
+}
@@ -0,0 +1,155 @@
+// services/login-lock.ts
+import { randomUUID } from 'crypto';
+import { config } from 'dotenv';
+import { getRedisClient } from './redis-service';
+import { logger } from '../utils/logger';
+import { accountScopedKey } from '../utils/engage-accounts';
+
+config();
+
+/**
+ * Coordinates Engage logins across instances through Redis: one instance holds the login
+ * lock and logs in, the others wait and pick up the cookies it saves. The lock expires if
+ * its holder dies, and a shared cooldown stops every instance from logging in again right
+ * after a login when Engage answers with a burst of 500s. Each Engage account has its own
+ * lock and cooldown, keyed by its storage key.
+ * Without Redis, everything falls back to this process alone.
+ */
+
+const LOGIN_LOCK_KEY = 'auth:login-lock'; // string: holder token, expires after LOGIN_LOCK_TTL_MS; :<storageKey> per extra account
+const AUTH_COOLDOWN_KEY = 'auth:cooldown'; // string: set while re-logins are throttled
+
+const LOGIN_LOCK_TTL_MS = parseInt(process.env.LOGIN_LOCK_TTL_MS || '90000', 10); // Renewed while the login runs
+const LOGIN_WAIT_TIMEOUT_MS = parseInt(process.env.LOGIN_WAIT_TIMEOUT_MS || '180000', 10);
+const LOGIN_LOCK_POLL_MS = 1000;
+
+// Only the holder may extend or release the lock
+const EXTEND_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0
+`;
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+const localCooldownUntil = new Map<string, number>();
+
+/**
+ * Takes the login lock.
+ * @returns The holder token, or null if another instance holds the lock
+ */
+async function acquireLoginLock(lockKey: string): Promise<string | null> {
+  const token = randomUUID();
+  const client = getRedisClient();
+  if (!client) return token;
+  try {
+    const reply = await client.send('SET', [lockKey, token, 'NX', 'PX', String(LOGIN_LOCK_TTL_MS)]);
+    return reply === 'OK' ? token : null;
+  } catch (err) {
+    // Logging in without the lock beats not logging in at all
+    logger.error('Error acquiring login lock, logging in without it:', err);
+    return token;
+  }
+}
+
+async function runLockScript(script: string, lockKey: string, token: string, ...args: string[]): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.send('EVAL', [script, '1', lockKey, token, ...args]);
+  } catch (err) {
+    logger.error('Error updating login lock:', err);
+  }
+}
+
+/**
+ * Runs a login while holding the cluster-wide login lock. If another instance holds it,
+ * waits for that login and reuses its result instead.
+ * @param storageKey - EngageAccount.storageKey of the account logging in
+ * @param login - Performs the login
+ * @param reuse - Returns the result of a login finished since the given time, or null
+ * @throws Error if the other instance's login produced nothing within LOGIN_WAIT_TIMEOUT_MS
+ */
+export async function runExclusiveLogin<T>(
+  storageKey: string,
+  login: () => Promise<T>,
+  reuse: (since: number) => Promise<T | null>
+): Promise<T> {
+  const lockKey = accountScopedKey(LOGIN_LOCK_KEY, storageKey);
+  const waitStartedAt = Date.now();
+  let waited = false;
+  while (true) {
+    const token = await acquireLoginLock(lockKey);
+    if (token) {
+      let heartbeat: ReturnType<typeof setInterval> | undefined;
+      try {
+        // The holder we waited for may have saved cookies just before letting go
+        if (waited) {
+          const reused = await reuse(waitStartedAt);
+          if (reused) return reused;
+        }
+        heartbeat = setInterval(
+          () => runLockScript(EXTEND_LOCK_SCRIPT, lockKey, token, String(LOGIN_LOCK_TTL_MS)),
+          Math.max(1000, Math.floor(LOGIN_LOCK_TTL_MS / 3))
+        );
+        return await login();
+      } finally {
+        clearInterval(heartbeat);
+        await runLockScript(RELEASE_LOCK_SCRIPT, lockKey, token);
+      }
+    }
+
+    if (!waited) {
+      logger.info('Login in progress on another instance, waiting for its cookies...');
+      waited = true;
+    }
+    await new Promise(resolve => setTimeout(resolve, LOGIN_LOCK_POLL_MS));
+    const reused = await reuse(waitStartedAt);
+    if (reused) {
+      logger.info('Reusing cookies from the login on another instance.');
+      return reused;
+    }
+    if (Date.now() - waitStartedAt > LOGIN_WAIT_TIMEOUT_MS) {
+      throw new Error(`Timed out after ${LOGIN_WAIT_TIMEOUT_MS}ms waiting for another instance to log in`);
+    }
+  }
+}
+
+/**
+ * Starts an account's re-login cooldown on every instance.
+ * @param storageKey - EngageAccount.storageKey
+ * @param durationMs - How long re-logins are throttled
+ */
+export async function startAuthCooldown(storageKey: string, durationMs: number): Promise<void> {
+  const until = Date.now() + durationMs;
+  localCooldownUntil.set(storageKey, until);
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.send('SET', [accountScopedKey(AUTH_COOLDOWN_KEY, storageKey), String(until), 'PX', String(durationMs)]);
+  } catch (err) {
+    logger.error('Error setting auth cooldown:', err);
+  }
+}
+
+/**
+ * Time left in an account's re-login cooldown on any instance, in ms; 0 if re-login is allowed.
+ * @param storageKey - EngageAccount.storageKey
+ */
+export async function getAuthCooldownRemaining(storageKey: string): Promise<number> {
+  const localRemaining = Math.max(0, (localCooldownUntil.get(storageKey) ?? 0) - Date.now());
+  const client = getRedisClient();
+  if (!client) return localRemaining;
+  try {
+    const remaining = Number(await client.send('PTTL', [accountScopedKey(AUTH_COOLDOWN_KEY, storageKey)]));
+    return Math.max(localRemaining, remaining > 0 ? remaining : 0);
+  } catch (err) {
+    logger.error('Error reading auth cooldown:', err);
+    return localRemaining;
+  }
+}
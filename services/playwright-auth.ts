@@ -1,34 +1,65 @@
 import { chromium, type BrowserContext, type Cookie } from 'playwright';
+import { config } from 'dotenv';
 import { logger } from '../utils/logger';
-import * as fs from 'node:fs';
-import { resolve } from 'node:path';
+import { engageLoginAttempts, engageLoginDuration, startTimer } from '../utils/metrics';
+import { getCookieStore, type CookieStore, type StoredCookies } from './cookie-store';
+import { runExclusiveLogin, startAuthCooldown, getAuthCooldownRemaining } from './login-lock';
+import { getQuarantineRemaining, recordAccountLogin } from './account-pool';
+import { loginWithHttp } from './http-login';
+import type { EngageAccount } from '../utils/engage-accounts';
 
-const LOGIN_URL = 'https://engage.nkcswx.cn/Login.aspx';
-const COOKIE_FILE_PATH = resolve(import.meta.dir, 'cookies.json');
-
-let _inMemoryCookies: Cookie[] | null = null;
+config();
 
-// Login lock to prevent concurrent login attempts
-let _loginLock: Promise<Cookie[]> | null = null;
+const LOGIN_URL = 'https://engage.nkcswx.cn/Login.aspx';
+// "playwright" drives a headless browser; "http" posts the login form directly and falls
+// back to Playwright if that fails
+const LOGIN_STRATEGY = (process.env.LOGIN_STRATEGY || 'playwright').toLowerCase();
+// Other replicas may log in and replace the stored cookies, so the local copy is re-read this often
+const COOKIE_MEMORY_CACHE_MS = 30000;
+
+// Cookie jar and login state of one Engage account in this process
+interface AccountSession {
+  store: CookieStore;
+  inMemoryCookies: StoredCookies | null;
+  inMemoryLoadedAt: number;
+  // Login already running in this process; other callers here share its result
+  loginInProgress: Promise<Cookie[]> | null;
+  // Why the current cookies are known not to work, e.g. re-login failed and the expired
+  // cookies were restored. Cleared when new cookies are saved.
+  cookiesKnownBad: string | null;
+}
 
-// Cookie backup: preserved before clearCookieCache, restored on re-login failure
-let _cookieBackup: Cookie[] | null = null;
+const _sessions = new Map<string, AccountSession>();
+
+function sessionOf(account: EngageAccount): AccountSession {
+  let session = _sessions.get(account.id);
+  if (!session) {
+    session = {
+      store: getCookieStore(account.storageKey),
+      inMemoryCookies: null,
+      inMemoryLoadedAt: 0,
+      loginInProgress: null,
+      cookiesKnownBad: null
+    };
+    _sessions.set(account.id, session);
+  }
+  return session;
+}
 
 // Auth failure throttle: debounce consecutive re-login triggers from 500 errors
-// Prevents thundering herd when server is slow and returns many 500s
-let _authFailureCooldownUntil = 0;
+// Prevents thundering herd when server is slow and returns many 500s.
+// Shared by all instances through Redis (see services/login-lock.ts).
 const AUTH_FAILURE_COOLDOWN_MS = 15000; // 15s cooldown between re-login cycles
 
 /**
  * Put all callers to wait during auth cooldown window.
  * Returns true if auth is allowed (outside cooldown), false if throttled.
  */
-export function tryAcquireAuthLock(): boolean {
-  const now = Date.now();
-  if (now < _authFailureCooldownUntil) {
-    const remaining = _authFailureCooldownUntil - now;
+export async function tryAcquireAuthLock(account: EngageAccount): Promise<boolean> {
+  const remaining = await getAuthCooldownRemaining(account.storageKey);
+  if (remaining > 0) {
     logger.warn(
-      `Re-login throttled: ${Math.round(remaining / 1000)}s cooldown remaining. ` +
+      `Re-login of account ${account.id} throttled: ${Math.round(remaining / 1000)}s cooldown remaining. ` +
       `Existing cookies are likely still valid — server 500 is a temporary slowdown.`
     );
     return false;
@@ -37,40 +68,100 @@ export function tryAcquireAuthLock(): boolean {
 }
 
 /**
- * Called after a successful re-login to release the cooldown.
+ * Called after a successful re-login to start the cooldown on every instance.
  */
-export function releaseAuthCooldown(): void {
-  _authFailureCooldownUntil = Date.now() + AUTH_FAILURE_COOLDOWN_MS;
+export async function releaseAuthCooldown(account: EngageAccount): Promise<void> {
+  await startAuthCooldown(account.storageKey, AUTH_FAILURE_COOLDOWN_MS);
   logger.info(`Auth cooldown set: ${AUTH_FAILURE_COOLDOWN_MS}ms to prevent thundering herd re-logins.`);
 }
 
 /**
- * Ensure only one login process runs at a time
+ * Cookies saved by a login that finished at or after the given time, read past the
+ * in-memory copy.
  */
-export async function ensureSingleLogin(username: string, password: string): Promise<Cookie[]> {
-  // Wait for any existing login to complete
-  if (_loginLock) {
-    logger.info('Login in progress, waiting for existing login to complete...');
-    await _loginLock;
+async function loadCookiesSavedSince(account: EngageAccount, since: number): Promise<Cookie[] | null> {
+  const session = sessionOf(account);
+  const stored = await session.store.load();
+  if (!stored || Date.parse(stored.savedAt) < since) return null;
+  session.inMemoryCookies = stored;
+  session.inMemoryLoadedAt = Date.now();
+  session.cookiesKnownBad = null;
+  return stored.cookies;
+}
+
+/**
+ * Ensure only one login per account runs at a time across all instances. Callers that
+ * find a login already running, here or elsewhere, wait for it and reuse its cookies.
+ * @throws Error if the account is quarantined or the login fails
+ */
+export async function ensureSingleLogin(account: EngageAccount): Promise<Cookie[]> {
+  const session = sessionOf(account);
+  if (session.loginInProgress) {
+    logger.info(`Login of account ${account.id} in progress, waiting for existing login to complete...`);
+    return await session.loginInProgress;
   }
-  
-  // Create new lock promise for this login attempt
-  _loginLock = (async () => {
+
+  const quarantineRemaining = await getQuarantineRemaining(account);
+  if (quarantineRemaining > 0) {
+    throw new Error(`Account ${account.id} is quarantined for another ${Math.ceil(quarantineRemaining / 60000)}min`);
+  }
+
+  session.loginInProgress = (async () => {
     try {
-      return await loginWithPlaywright(username, password);
+      return await runExclusiveLogin(
+        account.storageKey,
+        () => performLogin(account),
+        since => loadCookiesSavedSince(account, since)
+      );
     } finally {
-      _loginLock = null;
+      session.loginInProgress = null;
     }
   })();
-  
-  return await _loginLock;
+
+  return await session.loginInProgress;
+}
+
+/**
+ * Log in with the configured strategy, save the cookies and record the result for the
+ * account's quarantine
+ */
+async function performLogin(account: EngageAccount): Promise<Cookie[]> {
+  try {
+    const cookies = await loginWithStrategy(account.username, account.password);
+    await saveCookiesToCache(account, cookies);
+    await recordAccountLogin(account);
+    return cookies;
+  } catch (error) {
+    await recordAccountLogin(account, (error as Error).message);
+    throw error;
+  }
+}
+
+async function loginWithStrategy(username: string, password: string): Promise<Cookie[]> {
+  if (LOGIN_STRATEGY === 'http') {
+    const elapsed = startTimer();
+    try {
+      const cookies = await loginWithHttp(username, password);
+      engageLoginAttempts.inc({ strategy: 'http', result: 'success' });
+      engageLoginDuration.observe({ strategy: 'http', result: 'success' }, elapsed());
+      return cookies;
+    } catch (error) {
+      engageLoginAttempts.inc({ strategy: 'http', result: 'failure' });
+      engageLoginDuration.observe({ strategy: 'http', result: 'failure' }, elapsed());
+      logger.warn(`HTTP login failed: ${(error as Error).message}. Falling back to Playwright.`);
+    }
+  } else if (LOGIN_STRATEGY !== 'playwright') {
+    logger.warn(`Unknown LOGIN_STRATEGY "${LOGIN_STRATEGY}". Using Playwright.`);
+  }
+  return loginWithPlaywright(username, password);
 }
 
 /**
- * Login using Playwright and extract cookies
+ * Login using Playwright and extract cookies. The caller saves them.
  */
 export async function loginWithPlaywright(username: string, password: string): Promise<Cookie[]> {
   logger.info('Starting Playwright login process...');
+  const elapsed = startTimer();
   
   const browserLaunchOptions: any = { 
     headless: true,
@@ -122,14 +213,16 @@ export async function loginWithPlaywright(username: string, password: string): P
 
     const cookies = await context.cookies();
     logger.info(`Extracted ${cookies.length} cookies`);
-
-    await saveCookiesToCache(cookies);
     logImportantCookies(cookies);
 
     await browser.close();
+    engageLoginAttempts.inc({ strategy: 'playwright', result: 'success' });
+    engageLoginDuration.observe({ strategy: 'playwright', result: 'success' }, elapsed());
     return cookies;
   } catch (error) {
     logger.error('Error during Playwright login:', error);
+    engageLoginAttempts.inc({ strategy: 'playwright', result: 'failure' });
+    engageLoginDuration.observe({ strategy: 'playwright', result: 'failure' }, elapsed());
     await browser.close();
     throw error;
   }
@@ -168,97 +261,81 @@ function logImportantCookies(cookies: Cookie[]): void {
 }
 
 /**
- * Load cookies from cache file
+ * Load an account's cookies from its cookie store, through a short-lived in-memory copy
  */
-export async function loadCachedCookies(): Promise<Cookie[] | null> {
-  if (_inMemoryCookies) {
-    logger.debug('Using in-memory cached cookies.');
-    return _inMemoryCookies;
-  }
-
-  if (!fs.existsSync(COOKIE_FILE_PATH)) {
-    logger.debug('Cookie cache file not found. No cached cookies loaded.');
-    return null;
+export async function loadCachedCookies(account: EngageAccount): Promise<Cookie[] | null> {
+  const session = sessionOf(account);
+  if (session.inMemoryCookies && Date.now() - session.inMemoryLoadedAt < COOKIE_MEMORY_CACHE_MS) {
+    logger.debug(`Using in-memory cached cookies of account ${account.id}.`);
+    return session.inMemoryCookies.cookies;
   }
 
-  try {
-    const cookies = JSON.parse(fs.readFileSync(COOKIE_FILE_PATH, 'utf-8')) as Cookie[];
-    _inMemoryCookies = cookies;
-    logger.debug(`Loaded ${cookies.length} cookies from file cache.`);
-    return cookies;
-  } catch (error: any) {
-    logger.warn('Error loading cookies from file:', error.message);
+  const stored = await session.store.load();
+  if (!stored) {
+    logger.debug(`No cookies of account ${account.id} in the ${session.store.kind} cookie store.`);
+    session.inMemoryCookies = null;
     return null;
   }
+  session.inMemoryCookies = stored;
+  session.inMemoryLoadedAt = Date.now();
+  logger.debug(`Loaded ${stored.cookies.length} cookies of account ${account.id} from the ${session.store.kind} cookie store.`);
+  return stored.cookies;
 }
 
 /**
- * Save cookies to cache file
+ * Save an account's cookies to its cookie store, replacing the current ones
  */
-export async function saveCookiesToCache(cookies: Cookie[]): Promise<void> {
+export async function saveCookiesToCache(account: EngageAccount, cookies: Cookie[]): Promise<void> {
   if (!cookies || cookies.length === 0) {
     logger.warn('Attempted to save empty or null cookies. Aborting save.');
     return;
   }
 
-  _inMemoryCookies = cookies;
-  
+  const session = sessionOf(account);
+  session.cookiesKnownBad = null;
   try {
-    await fs.promises.writeFile(COOKIE_FILE_PATH, JSON.stringify(cookies, null, 2), 'utf-8');
-    logger.debug('Cookies saved to file cache.');
+    session.inMemoryCookies = await session.store.save(cookies);
+    session.inMemoryLoadedAt = Date.now();
+    logger.debug(`Cookies of account ${account.id} saved to the ${session.store.kind} cookie store.`);
   } catch (error: any) {
-    logger.error('Error saving cookies to file:', error.message);
+    logger.error('Error saving cookies:', error.message);
   }
 }
 
 /**
- * Backup current cookies before clearing. Restored if re-login fails.
+ * Backup an account's current cookies before a re-login. Restored if the re-login fails.
+ * @returns Whether there were cookies to back up
  */
-export function backupCookies(): Cookie[] | null {
-  if (_inMemoryCookies) {
-    _cookieBackup = [..._inMemoryCookies];
-    logger.info('Cookies backed up before clear.');
+export async function backupCookies(account: EngageAccount): Promise<boolean> {
+  const backedUp = await sessionOf(account).store.backup();
+  if (backedUp) {
+    logger.info(`Cookies of account ${account.id} backed up before re-login.`);
   }
-  return _cookieBackup;
+  return backedUp;
 }
 
 /**
- * Restore cookies from backup after failed re-login.
+ * Restore an account's cookies from backup after failed re-login.
  */
-export async function restoreCookieBackup(): Promise<boolean> {
-  if (_cookieBackup) {
-    _inMemoryCookies = _cookieBackup;
-    try {
-      await fs.promises.writeFile(COOKIE_FILE_PATH, JSON.stringify(_cookieBackup, null, 2), 'utf-8');
-      logger.info('Cookies restored from backup successfully.');
-      _cookieBackup = null;
-      return true;
-    } catch (error: any) {
-      logger.error('Failed to restore cookies from backup:', error.message);
-      return false;
-    }
+export async function restoreCookieBackup(account: EngageAccount): Promise<boolean> {
+  const session = sessionOf(account);
+  session.inMemoryCookies = null;
+  if (await session.store.restoreBackup()) {
+    logger.info(`Cookies of account ${account.id} restored from backup successfully.`);
+    return true;
   }
-  logger.warn('No cookie backup available for restore.');
+  logger.warn(`No cookie backup of account ${account.id} available for restore.`);
   return false;
 }
 
 /**
- * Clear cookie cache
- * Prefer backupAndClearCookieCache() instead to preserve old cookies.
+ * Clear an account's cookie cache
  */
-export async function clearCookieCache(): Promise<void> {
-  _inMemoryCookies = null;
-  
-  try {
-    await fs.promises.unlink(COOKIE_FILE_PATH);
-    logger.debug('Cookie cache file deleted.');
-  } catch (error: any) {
-    if (error.code !== 'ENOENT') {
-      logger.error('Error deleting cookie file:', error.message);
-    } else {
-      logger.debug('Cookie cache file did not exist, no need to delete.');
-    }
-  }
+export async function clearCookieCache(account: EngageAccount): Promise<void> {
+  const session = sessionOf(account);
+  session.inMemoryCookies = null;
+  await session.store.clear();
+  logger.debug(`Cookie store of account ${account.id} cleared.`);
 }
 
 /**
@@ -269,12 +346,41 @@ export function cookiesToString(cookies: Cookie[]): string {
 }
 
 /**
- * Get cookie string from cache
+ * Get an account's cookie string from cache
  */
-export async function getCachedCookieString(): Promise<string | null> {
-  const cookies = await loadCachedCookies();
+export async function getCachedCookieString(account: EngageAccount): Promise<string | null> {
+  const cookies = await loadCachedCookies(account);
   if (!cookies || cookies.length === 0) {
     return null;
   }
   return cookiesToString(cookies);
 }
+
+/**
+ * An account's stored cookies with their save and expiry times, read past the in-memory copy.
+ */
+export async function loadStoredCookies(account: EngageAccount): Promise<StoredCookies | null> {
+  return sessionOf(account).store.load();
+}
+
+/**
+ * Flags an account's current cookies as not working until new ones are saved.
+ * @param reason - Shown by the readiness check
+ */
+export function markCookiesBad(account: EngageAccount, reason: string): void {
+  sessionOf(account).cookiesKnownBad = reason;
+}
+
+/**
+ * Whether an account has cookies cached, and why they are known not to work, if they are.
+ */
+export async function getCookieHealth(account: EngageAccount): Promise<{ present: boolean; knownBad: string | null; expiresAt: string | null; store: string }> {
+  const cookies = await loadCachedCookies(account);
+  const session = sessionOf(account);
+  return {
+    present: !!cookies && cookies.length > 0,
+    knownBad: session.cookiesKnownBad,
+    expiresAt: session.inMemoryCookies?.expiresAt ?? null,
+    store: session.store.kind
+  };
+}
@@ -0,0 +1,119 @@
+// services/rate-limit-service.ts
+import { getRedisClient } from './redis-service';
+import { TokenBucket, type RateLimiter } from '../utils/rate-limiter';
+import { logger } from '../utils/logger';
+
+/**
+ * Token bucket kept in Redis, so a requests-per-minute ceiling holds across all instances
+ * instead of per instance. Without Redis, or while Redis fails, each instance falls back
+ * to its own bucket with the same settings.
+ */
+
+// Refills the bucket for the time since the last take and takes a token if there is one.
+// Uses the Redis clock so instances with skewed clocks share one schedule.
+const TAKE_TOKEN_SCRIPT = `
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local msPerToken = tonumber(ARGV[1])
+local capacity = tonumber(ARGV[2])
+local state = redis.call('HMGET', KEYS[1], 'tokens', 'at')
+local tokens = tonumber(state[1]) or capacity
+local at = tonumber(state[2]) or now
+if now > at then
+  tokens = math.min(capacity, tokens + (now - at) / msPerToken)
+  at = now
+end
+local waitMs = 0
+if tokens >= 1 then tokens = tokens - 1 else waitMs = math.ceil((1 - tokens) * msPerToken) end
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'at', at)
+redis.call('PEXPIRE', KEYS[1], math.ceil(capacity * msPerToken) + 1000)
+return waitMs
+`;
+
+// Waiters poll again after at most this long, in case a token frees up early
+const MAX_POLL_MS = 1000;
+
+export class SharedTokenBucket implements RateLimiter {
+  private readonly key: string;
+  private readonly msPerToken: number;
+  private readonly capacity: number;
+  private readonly local: TokenBucket;
+  private waiting = 0;
+
+  /**
+   * @param key - Redis hash holding the bucket
+   * @param ratePerMinute - Tokens added per minute across all instances
+   * @param capacity - Most tokens held, i.e. requests allowed back to back
+   */
+  constructor(key: string, ratePerMinute: number, capacity: number = 1) {
+    this.local = new TokenBucket(ratePerMinute, capacity);
+    this.key = key;
+    this.msPerToken = 60000 / ratePerMinute;
+    this.capacity = capacity;
+  }
+
+  /**
+   * Takes a token from the shared bucket.
+   * @returns 0 if a token was taken, ms until one will be available, or null if Redis is unavailable
+   */
+  private async tryTake(): Promise<number | null> {
+    const client = getRedisClient();
+    if (!client) return null;
+    try {
+      return Number(await client.send('EVAL', [TAKE_TOKEN_SCRIPT, '1', this.key, String(this.msPerToken), String(this.capacity)]));
+    } catch (err) {
+      logger.error('Error taking a shared rate limit token. Using this instance\'s limit:', err);
+      return null;
+    }
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new Error('Aborted while waiting for rate limiter');
+    }
+    this.waiting++;
+    try {
+      for (;;) {
+        const waitMs = await this.tryTake();
+        if (waitMs === null) return await this.local.acquire(signal);
+        if (waitMs === 0) return;
+        await sleep(Math.min(waitMs, MAX_POLL_MS), signal);
+      }
+    } finally {
+      this.waiting--;
+    }
+  }
+
+  /**
+   * Get number of callers on this instance waiting for a token.
+   */
+  getWaitingCount(): number {
+    return this.waiting;
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new Error('Aborted while waiting for rate limiter'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create a shared limiter for a requests-per-minute setting.
+ * @param key - Redis hash holding the bucket
+ * @param requestsPerMinute - Ceiling across all instances; 0 or less means unlimited
+ * @param burst - Requests allowed back to back before spacing kicks in
+ * @returns The limiter, or null when unlimited
+ */
+export function createSharedRateLimiter(key: string, requestsPerMinute: number, burst: number = 1): SharedTokenBucket | null {
+  if (!Number.isFinite(requestsPerMinute) || requestsPerMinute <= 0) return null;
+  return new SharedTokenBucket(key, requestsPerMinute, Math.max(1, burst));
+}
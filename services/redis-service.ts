@@ -2,14 +2,26 @@
 import { RedisClient } from "bun";
 import { config } from 'dotenv';
 import { logger } from '../utils/logger';
+import { getNormalizedSchedule } from '../utils/schedule-parser';
+import { redisCommandDuration, startTimer } from '../utils/metrics';
 
 config();
 
 export const ACTIVITY_KEY_PREFIX = 'activity:'; // Exported for use in cache-manager
 const STAFF_KEY = 'staffs:all';
 
+// Secondary index keys. The prefix must not match `${ACTIVITY_KEY_PREFIX}*`,
+// otherwise SCAN in getAllActivityKeys() would pick the index sets up as activities.
+const ACTIVITY_INDEX_PREFIX = 'activity-index:';
+const INDEX_ALL_KEY = `${ACTIVITY_INDEX_PREFIX}all`;
+const INDEX_EXPIRY_KEY = `${ACTIVITY_INDEX_PREFIX}expiry`;
+const INDEX_VERSION_KEY = `${ACTIVITY_INDEX_PREFIX}version`;
+// Bump when the index layout changes so startup rebuilds it from the activity keys
+const INDEX_VERSION = '2';
+const MGET_CHUNK_SIZE = 500;
+
 // Cache TTL configuration (in seconds)
-const ACTIVITY_CACHE_TTL = parseInt(process.env.ACTIVITY_CACHE_TTL || '86400', 10); // Default: 24 hours
+export const ACTIVITY_CACHE_TTL = parseInt(process.env.ACTIVITY_CACHE_TTL || '86400', 10); // Default: 24 hours
 const STAFF_CACHE_TTL = parseInt(process.env.STAFF_CACHE_TTL || '86400', 10); // Default: 24 hours
 const ERROR_CACHE_TTL = parseInt(process.env.ERROR_CACHE_TTL || '3600', 10); // Default: 1 hour for errors
 
@@ -17,8 +29,38 @@ const ERROR_CACHE_TTL = parseInt(process.env.ERROR_CACHE_TTL || '3600', 10); //
 const redisUrl = process.env.REDIS_URL || 'redis://localhost:6379';
 let redisClient: RedisClient | null = null;
 
+/**
+ * Wraps the client so the latency of every command is recorded in
+ * redis_command_duration_seconds. Raw commands sent with send() are labelled by their
+ * command name, everything else by the method name.
+ */
+function instrumentRedisClient(client: RedisClient): RedisClient {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver);
+      if (typeof value !== 'function' || typeof property !== 'string') return value;
+      return (...args: any[]) => {
+        const elapsed = startTimer();
+        const result = value.apply(target, args);
+        if (!(result instanceof Promise)) return result;
+        const command = (property === 'send' ? String(args[0]) : property).toUpperCase();
+        return result.then(
+          reply => {
+            redisCommandDuration.observe({ command, result: 'ok' }, elapsed());
+            return reply;
+          },
+          error => {
+            redisCommandDuration.observe({ command, result: 'error' }, elapsed());
+            throw error;
+          }
+        );
+      };
+    }
+  });
+}
+
 try {
-  redisClient = new RedisClient(redisUrl);
+  redisClient = instrumentRedisClient(new RedisClient(redisUrl));
   logger.info('Redis client initialized. Connection will be established on first command.');
 } catch (error) {
   logger.error('Failed to initialize Redis client:', error);
@@ -63,11 +105,317 @@ export async function setActivityData(activityId: string, data: any, ttl?: numbe
       String(expiration),
       JSON.stringify(data)
     ]);
+    await updateActivityIndexes(activityId, data, expiration);
   } catch (err) {
     logger.error(`Error setting activity ${activityId} in Redis:`, err);
   }
 }
 
+/**
+ * Deletes an activity from Redis, including its index entries.
+ * @param activityId - The activity ID to delete
+ * @returns true if the key existed
+ */
+export async function deleteActivityData(activityId: string): Promise<boolean> {
+  if (!redisClient) {
+    logger.warn('Redis client not available, skipping deleteActivityData');
+    return false;
+  }
+  try {
+    const deleted = Number(await redisClient.send('DEL', [`${ACTIVITY_KEY_PREFIX}${activityId}`]));
+    await removeActivityFromIndexes(activityId);
+    return deleted > 0;
+  } catch (err) {
+    logger.error(`Error deleting activity ${activityId} from Redis:`, err);
+    return false;
+  }
+}
+
+// --- Secondary indexes ---
+
+/**
+ * Dimensions that activities are indexed by.
+ * Each (dimension, value) pair is a Redis set of activity IDs.
+ */
+export type ActivityIndexDimension = 'category' | 'academicYear' | 'isStudentLed' | 'grade';
+
+export interface ActivityIndexFilters {
+  category?: string;
+  academicYear?: string;
+  isStudentLed?: boolean;
+  grade?: string; // grade label, e.g. "G7" or "KG2"
+}
+
+function indexKey(dimension: ActivityIndexDimension, value: string): string {
+  return `${ACTIVITY_INDEX_PREFIX}${dimension}:${value}`;
+}
+
+function indexValuesKey(dimension: ActivityIndexDimension): string {
+  return `${ACTIVITY_INDEX_PREFIX}values:${dimension}`;
+}
+
+function indexMembershipKey(activityId: string): string {
+  return `${ACTIVITY_INDEX_PREFIX}member-of:${activityId}`;
+}
+
+/**
+ * Whether a cached entry is a real activity that list endpoints should return.
+ */
+export function isListableActivity(data: any): boolean {
+  return !!(data && data.id && data.name && !data.error && data.source !== 'api-fetch-empty');
+}
+
+/**
+ * Computes the index sets an activity belongs to.
+ * @returns Index keys plus the (dimension, value) pairs that need registering in the values sets
+ */
+function computeIndexEntries(data: any): { keys: string[]; values: Array<[ActivityIndexDimension, string]> } {
+  const keys: string[] = [INDEX_ALL_KEY];
+  const values: Array<[ActivityIndexDimension, string]> = [];
+
+  if (data.category) {
+    keys.push(indexKey('category', data.category));
+    values.push(['category', data.category]);
+  }
+  if (data.academicYear) {
+    keys.push(indexKey('academicYear', data.academicYear));
+    values.push(['academicYear', data.academicYear]);
+  }
+  // Treat missing value as false, same as the list filter always has
+  keys.push(indexKey('isStudentLed', String(data.isStudentLed ?? false)));
+
+  // One set per grade label, so KG activities stay out of the G1-G12 sets
+  const gradeRange = getNormalizedSchedule(data).gradeRange;
+  for (const label of gradeRange?.labels ?? []) {
+    keys.push(indexKey('grade', label));
+  }
+  return { keys, values };
+}
+
+/**
+ * Moves an activity into the index sets matching its current data.
+ * The member-of set remembers previous memberships so stale ones can be removed
+ * without reading the old record.
+ * @param activityId - The activity ID
+ * @param data - The activity data that was just written
+ * @param expiration - TTL of the activity key in seconds
+ */
+async function updateActivityIndexes(activityId: string, data: any, expiration: number): Promise<void> {
+  if (!redisClient) return;
+  const client = redisClient;
+  const memberKey = indexMembershipKey(activityId);
+
+  const previousKeys: string[] = (await client.send('SMEMBERS', [memberKey])) || [];
+  const { keys: nextKeys, values } = isListableActivity(data)
+    ? computeIndexEntries(data)
+    : { keys: [], values: [] };
+
+  const staleKeys = previousKeys.filter(k => !nextKeys.includes(k));
+  await Promise.all([
+    ...staleKeys.map(k => client.send('SREM', [k, activityId])),
+    ...nextKeys.map(k => client.send('SADD', [k, activityId])),
+    ...values.map(([dimension, value]) => client.send('SADD', [indexValuesKey(dimension), value]))
+  ]);
+
+  await client.send('DEL', [memberKey]);
+  if (nextKeys.length > 0) {
+    await client.send('SADD', [memberKey, ...nextKeys]);
+    await client.send('ZADD', [INDEX_EXPIRY_KEY, String(Date.now() + expiration * 1000), activityId]);
+  } else {
+    await client.send('ZREM', [INDEX_EXPIRY_KEY, activityId]);
+  }
+}
+
+/**
+ * Removes an activity from every index set it belongs to.
+ * @param activityId - The activity ID
+ */
+export async function removeActivityFromIndexes(activityId: string): Promise<void> {
+  if (!redisClient) return;
+  const client = redisClient;
+  const memberKey = indexMembershipKey(activityId);
+  try {
+    const keys: string[] = (await client.send('SMEMBERS', [memberKey])) || [];
+    await Promise.all(keys.map(k => client.send('SREM', [k, activityId])));
+    await client.send('DEL', [memberKey]);
+    await client.send('ZREM', [INDEX_EXPIRY_KEY, activityId]);
+  } catch (err) {
+    logger.error(`Error removing activity ${activityId} from indexes:`, err);
+  }
+}
+
+/**
+ * Drops index entries whose activity key has expired.
+ * Activity keys carry a TTL while index sets do not, so this runs before index reads.
+ */
+async function pruneExpiredIndexEntries(): Promise<void> {
+  if (!redisClient) return;
+  const expiredIds: string[] = (await redisClient.send('ZRANGEBYSCORE', [
+    INDEX_EXPIRY_KEY,
+    '-inf',
+    String(Date.now())
+  ])) || [];
+  if (expiredIds.length === 0) return;
+
+  logger.debug(`Pruning ${expiredIds.length} expired activities from indexes.`);
+  await Promise.all(expiredIds.map(id => removeActivityFromIndexes(String(id))));
+}
+
+/**
+ * Gets the IDs of listable activities matching all given filters, using the index sets.
+ * @param filters - Optional filters; omitted ones are not applied
+ * @returns Activity IDs (unordered)
+ */
+export async function queryActivityIds(filters: ActivityIndexFilters = {}): Promise<string[]> {
+  if (!redisClient) {
+    logger.warn('Redis client not available, skipping queryActivityIds');
+    return [];
+  }
+  try {
+    await pruneExpiredIndexEntries();
+
+    const keys: string[] = [];
+    if (filters.category !== undefined) keys.push(indexKey('category', filters.category));
+    if (filters.academicYear !== undefined) keys.push(indexKey('academicYear', filters.academicYear));
+    if (filters.isStudentLed !== undefined) keys.push(indexKey('isStudentLed', String(filters.isStudentLed)));
+    if (filters.grade !== undefined) keys.push(indexKey('grade', filters.grade));
+
+    const ids = keys.length === 0
+      ? await redisClient.send('SMEMBERS', [INDEX_ALL_KEY])
+      : await redisClient.send('SINTER', keys);
+    return (ids || []).map((id: any) => String(id));
+  } catch (err) {
+    logger.error('Error querying activity indexes:', err);
+    return [];
+  }
+}
+
+/**
+ * Gets several activities in bulk with MGET.
+ * IDs whose key no longer exists are dropped from the indexes.
+ * @param activityIds - The activity IDs to fetch
+ * @returns Parsed activities in the same order, missing ones omitted
+ */
+export async function getActivitiesByIds(activityIds: string[]): Promise<any[]> {
+  if (!redisClient) {
+    logger.warn('Redis client not available, skipping getActivitiesByIds');
+    return [];
+  }
+  const activities: any[] = [];
+  const missingIds: string[] = [];
+  try {
+    for (let i = 0; i < activityIds.length; i += MGET_CHUNK_SIZE) {
+      const chunk = activityIds.slice(i, i + MGET_CHUNK_SIZE);
+      const values: (string | null)[] = await redisClient.send('MGET', chunk.map(id => `${ACTIVITY_KEY_PREFIX}${id}`));
+      values.forEach((value, idx) => {
+        if (value) {
+          activities.push(JSON.parse(value));
+        } else {
+          missingIds.push(chunk[idx]!);
+        }
+      });
+    }
+    if (missingIds.length > 0) {
+      logger.debug(`${missingIds.length} indexed activities no longer exist. Removing from indexes.`);
+      await Promise.all(missingIds.map(id => removeActivityFromIndexes(id)));
+    }
+    return activities;
+  } catch (err) {
+    logger.error('Error getting activities in bulk from Redis:', err);
+    return activities;
+  }
+}
+
+/**
+ * Counts listable activities per value of an index dimension.
+ * Values whose set has become empty are forgotten.
+ * @param dimension - 'category' or 'academicYear'
+ * @returns Map of value to activity count
+ */
+export async function getActivityIndexCounts(dimension: 'category' | 'academicYear'): Promise<Record<string, number>> {
+  if (!redisClient) {
+    logger.warn('Redis client not available, skipping getActivityIndexCounts');
+    return {};
+  }
+  const client = redisClient;
+  try {
+    await pruneExpiredIndexEntries();
+
+    const values: string[] = ((await client.send('SMEMBERS', [indexValuesKey(dimension)])) || []).map(String);
+    const counts: number[] = await Promise.all(
+      values.map(async value => Number(await client.send('SCARD', [indexKey(dimension, value)])))
+    );
+
+    const result: Record<string, number> = {};
+    const emptyValues: string[] = [];
+    values.forEach((value, idx) => {
+      const count = counts[idx] ?? 0;
+      if (count > 0) {
+        result[value] = count;
+      } else {
+        emptyValues.push(value);
+      }
+    });
+    if (emptyValues.length > 0) {
+      await client.send('SREM', [indexValuesKey(dimension), ...emptyValues]);
+    }
+    return result;
+  } catch (err) {
+    logger.error(`Error counting activity index values for ${dimension}:`, err);
+    return {};
+  }
+}
+
+/**
+ * Rebuilds the secondary indexes from the activity keys if the stored layout is outdated.
+ * Needed once after upgrading, since activities written before then were never indexed.
+ * @param force - Rebuild even if the stored index version is current
+ */
+export async function rebuildActivityIndexes(force: boolean = false): Promise<void> {
+  if (!redisClient) {
+    logger.warn('Redis client not available, skipping rebuildActivityIndexes');
+    return;
+  }
+  const client = redisClient;
+  try {
+    const storedVersion = await client.get(INDEX_VERSION_KEY);
+    if (!force && storedVersion === INDEX_VERSION) {
+      logger.info('Activity indexes are up-to-date.');
+      return;
+    }
+
+    logger.info(`Rebuilding activity indexes (stored version: ${storedVersion ?? 'none'}, current: ${INDEX_VERSION})...`);
+    const activityKeys = await getAllActivityKeys();
+    const seenIds = new Set<string>();
+
+    for (let i = 0; i < activityKeys.length; i += MGET_CHUNK_SIZE) {
+      const chunk = activityKeys.slice(i, i + MGET_CHUNK_SIZE);
+      const [values, ttls] = await Promise.all([
+        client.send('MGET', chunk) as Promise<(string | null)[]>,
+        Promise.all(chunk.map(key => client.send('TTL', [key]) as Promise<number>))
+      ]);
+      await Promise.all(chunk.map(async (key, idx) => {
+        const value = values[idx];
+        if (!value) return;
+        const activityId = key.substring(ACTIVITY_KEY_PREFIX.length);
+        const ttl = Number(ttls[idx]);
+        seenIds.add(activityId);
+        await updateActivityIndexes(activityId, JSON.parse(value), ttl > 0 ? ttl : ACTIVITY_CACHE_TTL);
+      }));
+    }
+
+    // Forget activities that are indexed but no longer stored
+    const indexedIds: string[] = ((await client.send('SMEMBERS', [INDEX_ALL_KEY])) || []).map(String);
+    const orphanIds = indexedIds.filter(id => !seenIds.has(id));
+    await Promise.all(orphanIds.map(id => removeActivityFromIndexes(id)));
+
+    await client.set(INDEX_VERSION_KEY, INDEX_VERSION);
+    logger.info(`Activity indexes rebuilt from ${activityKeys.length} keys (${orphanIds.length} orphaned entries removed).`);
+  } catch (err) {
+    logger.error('Error rebuilding activity indexes:', err);
+  }
+}
+
 /**
  * Gets staff data from Redis.
  * @returns Parsed JSON object or null if not found/error
@@ -170,6 +518,26 @@ export function getRedisClient(): RedisClient | null {
   return redisClient;
 }
 
+// Pub/sub methods exist on Bun's RedisClient at runtime but are missing from the pinned bun-types
+export type RedisSubscriber = RedisClient & {
+  subscribe(channel: string, listener: (message: string, channel: string) => void): Promise<number>;
+  unsubscribe(channel?: string): Promise<void>;
+};
+
+/**
+ * Creates a separate connection for SUBSCRIBE. A connection in subscriber mode cannot run
+ * other commands, so it must never be the shared client.
+ * @returns The new client or null if it could not be created
+ */
+export function createRedisSubscriber(): RedisSubscriber | null {
+  try {
+    return new RedisClient(redisUrl) as RedisSubscriber;
+  } catch (error) {
+    logger.error('Failed to create Redis subscriber client:', error);
+    return null;
+  }
+}
+
 /**
  * Closes the Redis connection.
  */
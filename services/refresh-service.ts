@@ -0,0 +1,180 @@
+// services/refresh-service.ts
+import { config } from 'dotenv';
+import { getRedisClient, ACTIVITY_CACHE_TTL } from './redis-service';
+import { getActivityHistory } from './history-service';
+import {
+  decideRefresh,
+  compareRefreshPriority,
+  parseSeasonWindows,
+  type RefreshDecision,
+  type RefreshPolicyConfig,
+  type RefreshTier
+} from '../utils/refresh-policy';
+import { logger } from '../utils/logger';
+import type { ActivityData } from '../models/activity';
+
+config();
+
+/**
+ * Keeps each cached activity's next check time, decided by the refresh policy whenever the
+ * activity is written, and hands the stale-club update its due activities in priority order.
+ */
+
+const REFRESH_SCHEDULE_KEY = 'refresh:schedule'; // zset: activity ID -> next check (ms)
+const REFRESH_TIERS_KEY = 'refresh:tiers'; // hash: activity ID -> RefreshTier
+
+const CLUB_UPDATE_INTERVAL_MINS = parseInt(process.env.CLUB_UPDATE_INTERVAL_MINS || '60', 10);
+const REFRESH_HOT_MINS = parseInt(process.env.REFRESH_HOT_MINS || '60', 10);
+const REFRESH_WARM_MINS = parseInt(process.env.REFRESH_WARM_MINS || String(CLUB_UPDATE_INTERVAL_MINS), 10);
+const REFRESH_COLD_HOURS = parseInt(process.env.REFRESH_COLD_HOURS || '168', 10); // Default: weekly
+const ACADEMIC_YEAR_START_MONTH = parseInt(process.env.ACADEMIC_YEAR_START_MONTH || '8', 10);
+const SIGNUP_SEASONS = process.env.SIGNUP_SEASONS || '08-15..09-20,01-10..02-10'; // MM-DD..MM-DD, comma-separated
+const REFRESH_UPCOMING_DAYS = parseInt(process.env.REFRESH_UPCOMING_DAYS || '14', 10);
+const REFRESH_VOLATILE_CHANGES = parseInt(process.env.REFRESH_VOLATILE_CHANGES || '3', 10);
+const REFRESH_CHANGE_WINDOW_DAYS = parseInt(process.env.REFRESH_CHANGE_WINDOW_DAYS || '30', 10);
+
+const policyConfig: RefreshPolicyConfig = {
+  intervalsMs: {
+    hot: REFRESH_HOT_MINS * 60 * 1000,
+    warm: REFRESH_WARM_MINS * 60 * 1000,
+    cold: REFRESH_COLD_HOURS * 60 * 60 * 1000
+  },
+  academicYearStartMonth: ACADEMIC_YEAR_START_MONTH,
+  signupSeasons: parseSeasonWindows(SIGNUP_SEASONS),
+  upcomingDays: REFRESH_UPCOMING_DAYS,
+  volatileChangeCount: REFRESH_VOLATILE_CHANGES
+};
+
+export interface DueActivity {
+  activityId: string;
+  tier: RefreshTier;
+  nextCheckAt: number;
+}
+
+/**
+ * Counts the changes recorded for an activity within REFRESH_CHANGE_WINDOW_DAYS.
+ */
+async function countRecentChanges(activityId: string, now: number): Promise<number> {
+  if (REFRESH_VOLATILE_CHANGES <= 0) return 0;
+  const since = now - REFRESH_CHANGE_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+  const history = await getActivityHistory(activityId, REFRESH_VOLATILE_CHANGES);
+  return history.filter(change => new Date(change.changedAt).getTime() >= since).length;
+}
+
+/**
+ * Decides when an activity should next be checked.
+ * @param activityId - The activity ID
+ * @param data - The record about to be cached
+ */
+export async function planActivityRefresh(activityId: string, data: ActivityData): Promise<RefreshDecision> {
+  const now = new Date();
+  const recentChanges = await countRecentChanges(activityId, now.getTime());
+  return decideRefresh(data, recentChanges, now, policyConfig);
+}
+
+/**
+ * Cache TTL (seconds) that keeps a record around until well after its next check,
+ * so activities on long refresh intervals do not expire in between.
+ */
+export function refreshCacheTtl(decision: RefreshDecision): number {
+  const untilCheck = Math.ceil((decision.nextCheckAt - Date.now()) / 1000);
+  return Math.max(ACTIVITY_CACHE_TTL, untilCheck * 2);
+}
+
+/**
+ * Stores an activity's next check time.
+ * @param activityId - The activity ID
+ * @param decision - From planActivityRefresh
+ */
+export async function scheduleActivityRefresh(activityId: string, decision: RefreshDecision): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.send('ZADD', [REFRESH_SCHEDULE_KEY, String(decision.nextCheckAt), activityId]);
+    await client.send('HSET', [REFRESH_TIERS_KEY, activityId, decision.tier]);
+    logger.debug(`Activity ${activityId} is ${decision.tier} (${decision.reason}); next check ${new Date(decision.nextCheckAt).toISOString()}.`);
+  } catch (err) {
+    logger.error(`Error scheduling refresh for activity ${activityId}:`, err);
+  }
+}
+
+/**
+ * Forgets an activity's schedule, e.g. when it is purged.
+ */
+export async function removeActivityRefresh(activityId: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.send('ZREM', [REFRESH_SCHEDULE_KEY, activityId]);
+    await client.send('HDEL', [REFRESH_TIERS_KEY, activityId]);
+  } catch (err) {
+    logger.error(`Error removing refresh schedule for activity ${activityId}:`, err);
+  }
+}
+
+// WITHSCORES and HGETALL replies arrive flat ([a, b, a, b]), as pairs ([[a, b]]) or as a map
+function toPairs(reply: any): [string, string][] {
+  if (!reply) return [];
+  if (!Array.isArray(reply)) return Object.entries(reply).map(([k, v]) => [k, String(v)]);
+  if (reply.length > 0 && Array.isArray(reply[0])) return reply.map((pair: any[]) => [String(pair[0]), String(pair[1])]);
+  const pairs: [string, string][] = [];
+  for (let i = 0; i + 1 < reply.length; i += 2) pairs.push([String(reply[i]), String(reply[i + 1])]);
+  return pairs;
+}
+
+/**
+ * Splits cached activities into those due for a check, hottest and most overdue first,
+ * and those that have never been scheduled (cached before the policy existed).
+ * @param activityIds - IDs currently in the cache
+ * @param now - Current time (ms)
+ */
+export async function getDueActivities(
+  activityIds: string[],
+  now: number = Date.now()
+): Promise<{ due: DueActivity[]; unscheduled: string[] }> {
+  const client = getRedisClient();
+  if (!client) return { due: [], unscheduled: activityIds };
+  try {
+    const schedule = new Map(toPairs(await client.send('ZRANGE', [REFRESH_SCHEDULE_KEY, '0', '-1', 'WITHSCORES'])));
+    const tiers = new Map(toPairs(await client.send('HGETALL', [REFRESH_TIERS_KEY])));
+    const due: DueActivity[] = [];
+    const unscheduled: string[] = [];
+    const cached = new Set(activityIds);
+
+    for (const activityId of activityIds) {
+      const nextCheck = schedule.get(activityId);
+      if (nextCheck === undefined) {
+        unscheduled.push(activityId);
+      } else if (Number(nextCheck) <= now) {
+        due.push({ activityId, tier: (tiers.get(activityId) as RefreshTier) ?? 'warm', nextCheckAt: Number(nextCheck) });
+      }
+    }
+    // Drop schedules of activities whose cache entry expired
+    const orphaned = [...schedule.keys()].filter(id => !cached.has(id));
+    if (orphaned.length > 0) {
+      await client.send('ZREM', [REFRESH_SCHEDULE_KEY, ...orphaned]);
+      await client.send('HDEL', [REFRESH_TIERS_KEY, ...orphaned]);
+    }
+    return { due: due.sort(compareRefreshPriority), unscheduled };
+  } catch (err) {
+    logger.error('Error reading refresh schedule:', err);
+    return { due: [], unscheduled: activityIds };
+  }
+}
+
+/**
+ * Counts scheduled activities per tier, for the admin API.
+ */
+export async function getRefreshTierCounts(): Promise<Record<RefreshTier, number>> {
+  const counts: Record<RefreshTier, number> = { hot: 0, warm: 0, cold: 0 };
+  const client = getRedisClient();
+  if (!client) return counts;
+  try {
+    for (const [, tier] of toPairs(await client.send('HGETALL', [REFRESH_TIERS_KEY]))) {
+      if (tier in counts) counts[tier as RefreshTier]++;
+    }
+  } catch (err) {
+    logger.error('Error counting refresh tiers:', err);
+  }
+  return counts;
+}
@@ -6,6 +6,7 @@ import sharp from 'sharp';
 import crypto from 'crypto';
 import { logger } from '../utils/logger';
 import { decodeBase64Image } from '../utils/image-processor';
+import { s3ImageUploads } from '../utils/metrics';
 
 config();
 
@@ -81,6 +82,7 @@ export async function uploadImageFromBase64(
     if (exists) {
       const publicUrl = constructS3Url(objectKey);
       logger.info(`Image already exists in S3 (MD5: ${md5Hash}), returning existing URL: ${publicUrl}`);
+      s3ImageUploads.inc({ result: 'deduplicated' });
       return publicUrl;
     }
     // File doesn't exist, proceed with upload
@@ -91,9 +93,11 @@ export async function uploadImageFromBase64(
     
     const publicUrl = constructS3Url(objectKey);
     logger.info(`Image uploaded to S3 as AVIF (MD5: ${md5Hash}): ${publicUrl}`);
+    s3ImageUploads.inc({ result: 'uploaded' });
     return publicUrl;
   } catch (error) {
     logger.error(`S3 Upload Error for activity ${activityId}:`, error);
+    s3ImageUploads.inc({ result: 'failed' });
     return null;
   }
 }
@@ -149,6 +153,25 @@ export async function listS3Objects(prefix: string): Promise<string[]> {
   }
 }
 
+/**
+ * Checks that the bucket accepts writes by writing and deleting a small probe object.
+ * @returns null if writable, otherwise what went wrong
+ */
+export async function checkS3Writable(): Promise<string | null> {
+  if (!s3Client) {
+    return 'S3 client not configured';
+  }
+  try {
+    const probe = s3Client.file(`${PUBLIC_URL_FILE_PREFIX}/.healthcheck`);
+    await probe.write(new Date().toISOString(), { type: 'text/plain' });
+    await probe.delete();
+    return null;
+  } catch (error) {
+    logger.error('S3 health check failed:', error);
+    return (error as Error).message;
+  }
+}
+
 /**
  * Constructs the public S3 URL for an object key.
  * Uses S3_PUBLIC_URL if set (reverse proxy scenario), otherwise uses S3_ENDPOINT.
@@ -0,0 +1,244 @@
+// services/search-service.ts
+import { config } from 'dotenv';
+import { logger } from '../utils/logger';
+import { SearchIndex, highlightText, type SearchDocument } from '../utils/search-index';
+import { queryActivityIds, getActivitiesByIds, isListableActivity, getStaffData } from './redis-service';
+import { subscribeClusterEvents } from './event-stream-service';
+import type { AppEvent } from './event-bus';
+import type { ActivityData } from '../models/activity';
+
+config();
+
+// Full rebuild interval; drops activities whose cache entries expired and catches missed events
+const SEARCH_INDEX_RESYNC_MINS = parseInt(process.env.SEARCH_INDEX_RESYNC_MINS || '30', 10); // 0 = disabled
+
+// Characters of description context shown on each side of the first match
+const DESCRIPTION_SNIPPET_RADIUS = 60;
+
+export interface ActivitySearchResult {
+  id: string;
+  name: string;
+  photo: string;
+  category: string | null;
+  academicYear: string | null;
+  score: number;
+  highlights: {
+    name?: string;
+    description?: string;
+    category?: string;
+    staff?: string[];
+    studentLeaders?: string[];
+  };
+}
+
+export interface ActivitySearchResponse {
+  query: string;
+  total: number;
+  results: ActivitySearchResult[];
+}
+
+export interface StaffSearchResult {
+  id: string;
+  name: string;
+  score: number;
+  highlight: string;
+}
+
+export interface StaffSearchResponse {
+  query: string;
+  total: number;
+  results: StaffSearchResult[];
+}
+
+// Process-wide indexes, kept current by updateSearchIndex() and updateStaffSearchIndex() on every
+// write of this instance, and by startSearchIndexSync() for writes of the others
+const searchIndex = new SearchIndex();
+const staffSearchIndex = new SearchIndex();
+
+let resyncTimer: ReturnType<typeof setInterval> | null = null;
+let unsubscribeChanges: (() => void) | null = null;
+
+// Keys in the cached staff object that are not staff entries
+const STAFF_METADATA_KEYS = new Set(['lastCheck', 'cache']);
+
+function toSearchDocument(data: ActivityData): SearchDocument {
+  return {
+    name: data.name ?? '',
+    description: data.description ?? '',
+    staff: (data.staff ?? []).join('\n'),
+    studentLeaders: (data.studentLeaders ?? []).join('\n'),
+    category: data.category ?? ''
+  };
+}
+
+function highlightList(values: string[] | undefined, terms: string[]): string[] | undefined {
+  const highlighted = (values ?? [])
+    .map(value => highlightText(value, terms))
+    .filter((value): value is string => value !== null);
+  return highlighted.length > 0 ? highlighted : undefined;
+}
+
+/**
+ * Adds, replaces or removes an activity in the search index after it was written to the cache.
+ * @param activityId - The activity ID
+ * @param data - The activity data that was stored
+ */
+export function updateSearchIndex(activityId: string, data: ActivityData): void {
+  if (isListableActivity(data)) {
+    searchIndex.upsert(activityId, toSearchDocument(data));
+  } else {
+    searchIndex.remove(activityId);
+  }
+}
+
+/**
+ * Removes an activity from the search index.
+ * @param activityId - The activity ID
+ */
+export function removeFromSearchIndex(activityId: string): void {
+  searchIndex.remove(activityId);
+}
+
+/**
+ * Replaces the staff search index with the names in the cached staff object.
+ * @param staffData - Staff ID to name map, as stored by setStaffData
+ */
+export function updateStaffSearchIndex(staffData: Record<string, any>): void {
+  staffSearchIndex.clear();
+  for (const [id, name] of Object.entries(staffData)) {
+    if (STAFF_METADATA_KEYS.has(id) || typeof name !== 'string' || !name) continue;
+    staffSearchIndex.upsert(id, { name, description: '', staff: '', studentLeaders: '', category: '' });
+  }
+}
+
+/**
+ * Rebuilds the search indexes from every listable activity and the staff map in Redis.
+ */
+export async function rebuildSearchIndex(): Promise<void> {
+  logger.info('Rebuilding activity search index...');
+  const activityIds = await queryActivityIds();
+  const activities: ActivityData[] = await getActivitiesByIds(activityIds);
+
+  searchIndex.clear();
+  for (const activity of activities) {
+    if (activity.id) updateSearchIndex(activity.id, activity);
+  }
+
+  const staffData = await getStaffData();
+  if (staffData) {
+    updateStaffSearchIndex(staffData);
+  }
+  logger.info(`Search index rebuilt with ${searchIndex.size} activities and ${staffSearchIndex.size} staff.`);
+}
+
+/**
+ * Applies a change announced by any instance, reading the stored record so the index
+ * matches Redis whichever instance made the write.
+ */
+async function applyChangeEvent(event: AppEvent): Promise<void> {
+  if (event.type === 'staff.updated') {
+    const staffData = await getStaffData();
+    if (staffData) updateStaffSearchIndex(staffData);
+    return;
+  }
+  const activityId: string | undefined = event.data?.activityId;
+  if (!event.type.startsWith('activity.') || !activityId) return;
+  const [activity] = await getActivitiesByIds([activityId]);
+  if (activity) {
+    updateSearchIndex(activityId, activity);
+  } else {
+    removeFromSearchIndex(activityId);
+  }
+}
+
+/**
+ * Keeps this instance's indexes in step with the other instances: changes announced on the
+ * event stream are applied as they arrive, and the indexes are rebuilt every
+ * SEARCH_INDEX_RESYNC_MINS.
+ */
+export function startSearchIndexSync(): void {
+  if (unsubscribeChanges) return;
+  unsubscribeChanges = subscribeClusterEvents(applyChangeEvent);
+  if (SEARCH_INDEX_RESYNC_MINS > 0) {
+    resyncTimer = setInterval(() => {
+      rebuildSearchIndex().catch(error => logger.error('Error rebuilding search index:', error));
+    }, SEARCH_INDEX_RESYNC_MINS * 60 * 1000);
+  }
+}
+
+/**
+ * Stops following other instances' writes.
+ */
+export function stopSearchIndexSync(): void {
+  unsubscribeChanges?.();
+  unsubscribeChanges = null;
+  if (resyncTimer) clearInterval(resyncTimer);
+  resyncTimer = null;
+}
+
+/**
+ * Searches activities by name, description, staff, student leaders and category.
+ * @param query - Free-text query, Chinese and/or English
+ * @param limit - Maximum number of results
+ * @returns Ranked results with highlighted snippets
+ */
+export async function searchActivities(query: string, limit: number): Promise<ActivitySearchResponse> {
+  const { total, hits } = searchIndex.search(query, limit);
+  if (hits.length === 0) {
+    return { query, total: 0, results: [] };
+  }
+
+  const activities: ActivityData[] = await getActivitiesByIds(hits.map(hit => hit.id));
+  const activitiesById = new Map(activities.map(a => [String(a.id), a]));
+
+  const results: ActivitySearchResult[] = [];
+  for (const hit of hits) {
+    const activity = activitiesById.get(hit.id);
+    // The activity may have expired since it was indexed
+    if (!activity || !isListableActivity(activity)) {
+      searchIndex.remove(hit.id);
+      continue;
+    }
+    const terms = hit.matchedTerms;
+    results.push({
+      id: hit.id,
+      name: activity.name as string,
+      photo: activity.photo || '',
+      category: activity.category ?? null,
+      academicYear: activity.academicYear ?? null,
+      score: Math.round(hit.score * 1000) / 1000,
+      highlights: {
+        name: highlightText(activity.name ?? '', terms) ?? undefined,
+        description: highlightText(activity.description ?? '', terms, DESCRIPTION_SNIPPET_RADIUS) ?? undefined,
+        category: highlightText(activity.category ?? '', terms) ?? undefined,
+        staff: highlightList(activity.staff, terms),
+        studentLeaders: highlightList(activity.studentLeaders, terms)
+      }
+    });
+  }
+  return { query, total, results };
+}
+
+/**
+ * Searches staff names, including by pinyin and with typo tolerance.
+ * @param query - Free-text query
+ * @param limit - Maximum number of results
+ * @returns Ranked staff with the matched part of the name highlighted
+ */
+export async function searchStaff(query: string, limit: number): Promise<StaffSearchResponse> {
+  const { total, hits } = staffSearchIndex.search(query, limit);
+  const staffData = (await getStaffData()) || {};
+
+  const results: StaffSearchResult[] = [];
+  for (const hit of hits) {
+    const name = staffData[hit.id];
+    if (typeof name !== 'string') continue;
+    results.push({
+      id: hit.id,
+      name,
+      score: Math.round(hit.score * 1000) / 1000,
+      highlight: highlightText(name, hit.matchedTerms) ?? name
+    });
+  }
+  return { query, total, results };
+}
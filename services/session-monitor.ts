@@ -0,0 +1,266 @@
+// services/session-monitor.ts
+import { config } from 'dotenv';
+import { getRedisClient } from './redis-service';
+import { getCookieStore } from './cookie-store';
+import { cookiesToString, loadStoredCookies, markCookiesBad } from './playwright-auth';
+import { getEngageAccounts, hasEngageAccounts } from './account-pool';
+import { forceRelogin, probeSession, type SessionProbeResult } from '../engage-api/get-activity';
+import { logger } from '../utils/logger';
+import { accountScopedKey, type EngageAccount } from '../utils/engage-accounts';
+import {
+  addSessionLifetime,
+  expectedSessionLifetime,
+  sessionRefreshReason,
+  type SessionLifetimeConfig,
+  type SessionLifetimeObservation,
+  type SessionRefreshConfig
+} from '../utils/session-lifetime';
+
+config();
+
+/**
+ * Background check of the Engage sessions. Every SESSION_PROBE_INTERVAL_MINS one instance
+ * probes each account's stored cookies with a cheap request, learns how long sessions last from the
+ * ones it sees end, and logs in again before a session is expected to run out,
+ * so crawls and API requests do not have to discover a dead session themselves.
+ */
+
+const SESSION_PROBE_INTERVAL_MINS = parseInt(process.env.SESSION_PROBE_INTERVAL_MINS || '10', 10); // 0 = disabled
+const SESSION_PROBE_ACTIVITY_ID = process.env.SESSION_PROBE_ACTIVITY_ID || process.env.FIXED_STAFF_ACTIVITY_ID || '7095';
+const SESSION_REFRESH_FRACTION = parseFloat(process.env.SESSION_REFRESH_FRACTION || '0.8');
+const SESSION_EXPIRY_MARGIN_MINS = parseInt(process.env.SESSION_EXPIRY_MARGIN_MINS || '15', 10);
+const SESSION_MAX_AGE_HOURS = parseInt(process.env.SESSION_MAX_AGE_HOURS || '0', 10); // 0 = no limit
+const SESSION_MIN_LIFETIME_MINS = parseInt(process.env.SESSION_MIN_LIFETIME_MINS || '30', 10);
+const SESSION_LIFETIME_WINDOW_DAYS = parseInt(process.env.SESSION_LIFETIME_WINDOW_DAYS || '14', 10);
+const SESSION_LIFETIMES_KEPT = 10;
+// A probe that looks expired is repeated after this long before the session counts as ended
+const SESSION_EXPIRY_CONFIRM_MS = 5000;
+
+const STATE_KEY = 'auth:session-monitor'; // string: SessionMonitorState JSON, per account
+const TICK_LOCK_KEY = 'auth:session-monitor:tick'; // string: held by the instance probing this interval
+
+const lifetimeConfig: SessionLifetimeConfig = {
+  keep: SESSION_LIFETIMES_KEPT,
+  maxAgeMs: SESSION_LIFETIME_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+  minLifetimeMs: SESSION_MIN_LIFETIME_MINS * 60 * 1000
+};
+
+const refreshConfig: SessionRefreshConfig = {
+  refreshFraction: SESSION_REFRESH_FRACTION,
+  expiryMarginMs: SESSION_EXPIRY_MARGIN_MINS * 60 * 1000,
+  maxAgeMs: SESSION_MAX_AGE_HOURS * 60 * 60 * 1000
+};
+
+interface SessionMonitorState {
+  lastProbeAt: string | null;
+  lastProbeResult: SessionProbeResult | 'no-session' | null;
+  lastValidAt: string | null;
+  consecutiveFailures: number;
+  observedLifetimes: SessionLifetimeObservation[]; // oldest first
+  endedSessionSavedAt: string | null; // login time of the last session whose end was recorded
+  lastRefreshAt: string | null;
+  lastRefreshReason: string | null;
+  lastRefreshOk: boolean | null;
+}
+
+export interface SessionStatus extends SessionMonitorState {
+  account: string; // EngageAccount.id
+  enabled: boolean;
+  store: string;
+  present: boolean;
+  lastLoginAt: string | null;
+  ageMs: number | null;
+  expiresAt: string | null;
+  expectedLifetimeMs: number | null;
+  refreshDue: string | null; // why the next probe would refresh the session, if it would
+}
+
+let monitorTimer: ReturnType<typeof setInterval> | null = null;
+let checking = false;
+
+function initialState(): SessionMonitorState {
+  return {
+    lastProbeAt: null,
+    lastProbeResult: null,
+    lastValidAt: null,
+    consecutiveFailures: 0,
+    observedLifetimes: [],
+    endedSessionSavedAt: null,
+    lastRefreshAt: null,
+    lastRefreshReason: null,
+    lastRefreshOk: null
+  };
+}
+
+async function loadState(account: EngageAccount): Promise<SessionMonitorState> {
+  const client = getRedisClient();
+  if (!client) return initialState();
+  try {
+    const raw = await client.get(accountScopedKey(STATE_KEY, account.storageKey));
+    return raw ? { ...initialState(), ...JSON.parse(raw) } : initialState();
+  } catch (err) {
+    logger.error('Error loading session monitor state:', err);
+    return initialState();
+  }
+}
+
+async function saveState(account: EngageAccount, state: SessionMonitorState): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    await client.set(accountScopedKey(STATE_KEY, account.storageKey), JSON.stringify(state));
+  } catch (err) {
+    logger.error('Error saving session monitor state:', err);
+  }
+}
+
+/**
+ * Lets one instance probe per interval.
+ */
+async function claimTick(): Promise<boolean> {
+  const client = getRedisClient();
+  if (!client) return true;
+  try {
+    const ttlMs = Math.max(1000, Math.floor(SESSION_PROBE_INTERVAL_MINS * 60 * 1000 * 0.9));
+    return (await client.send('SET', [TICK_LOCK_KEY, String(process.pid), 'NX', 'PX', String(ttlMs)])) === 'OK';
+  } catch (err) {
+    logger.error('Error claiming session monitor tick:', err);
+    return true;
+  }
+}
+
+async function refreshSession(account: EngageAccount, state: SessionMonitorState, reason: string): Promise<void> {
+  logger.info(`Refreshing Engage session of account ${account.id}: ${reason}.`);
+  state.lastRefreshAt = new Date().toISOString();
+  state.lastRefreshReason = reason;
+  state.lastRefreshOk = await forceRelogin(account);
+  if (!state.lastRefreshOk) {
+    logger.warn('Session refresh failed. Requests will keep using the current cookies.');
+  }
+}
+
+/**
+ * Probes every account's stored session once and refreshes those that have expired or
+ * are about to.
+ */
+export async function checkSession(): Promise<void> {
+  if (checking) return;
+  checking = true;
+  try {
+    for (const account of getEngageAccounts()) {
+      await checkAccountSession(account);
+    }
+  } finally {
+    checking = false;
+  }
+}
+
+async function checkAccountSession(account: EngageAccount): Promise<void> {
+  try {
+    const state = await loadState(account);
+    const stored = await loadStoredCookies(account);
+    const now = Date.now();
+    state.lastProbeAt = new Date(now).toISOString();
+    if (!stored) {
+      // The next request that needs a session logs in
+      state.lastProbeResult = 'no-session';
+      await saveState(account, state);
+      return;
+    }
+
+    const loginAt = Date.parse(stored.savedAt);
+    const cookies = cookiesToString(stored.cookies);
+    let result = await probeSession(cookies, SESSION_PROBE_ACTIVITY_ID);
+    if (result === 'expired') {
+      // Engage also answers 500 when it is struggling; only a second 500 ends the session
+      await new Promise(resolve => setTimeout(resolve, SESSION_EXPIRY_CONFIRM_MS));
+      if (await probeSession(cookies, SESSION_PROBE_ACTIVITY_ID) !== 'expired') result = 'inconclusive';
+    }
+    state.lastProbeResult = result;
+    if (result === 'valid') {
+      state.lastValidAt = state.lastProbeAt;
+      state.consecutiveFailures = 0;
+      const reason = sessionRefreshReason({
+        ageMs: now - loginAt,
+        expiresAt: stored.expiresAt ? Date.parse(stored.expiresAt) : null,
+        expectedLifetimeMs: expectedSessionLifetime(state.observedLifetimes, now, lifetimeConfig),
+        now
+      }, refreshConfig);
+      if (reason) await refreshSession(account, state, reason);
+    } else {
+      state.consecutiveFailures++;
+      if (result === 'expired') {
+        const lastValidAt = state.lastValidAt ? Date.parse(state.lastValidAt) : NaN;
+        // The session lasted at least until its last good probe; record each session once
+        if (state.endedSessionSavedAt !== stored.savedAt && lastValidAt >= loginAt) {
+          state.observedLifetimes = addSessionLifetime(state.observedLifetimes, lastValidAt - loginAt, now, lifetimeConfig);
+          logger.info(`Engage session of account ${account.id} ended after at least ${Math.round((lastValidAt - loginAt) / 60000)}min.`);
+        }
+        state.endedSessionSavedAt = stored.savedAt;
+        markCookiesBad(account, 'Session probe found the session expired');
+        await refreshSession(account, state, 'session expired');
+      } else {
+        logger.warn(`Session probe of account ${account.id} inconclusive (${state.consecutiveFailures} in a row).`);
+      }
+    }
+    await saveState(account, state);
+  } catch (error) {
+    logger.error(`Error checking Engage session of account ${account.id}:`, error);
+  }
+}
+
+/**
+ * Gets the session state of every account for the status endpoints.
+ */
+export async function getSessionStatus(): Promise<SessionStatus[]> {
+  return Promise.all(getEngageAccounts().map(getAccountSessionStatus));
+}
+
+async function getAccountSessionStatus(account: EngageAccount): Promise<SessionStatus> {
+  const [state, stored] = await Promise.all([loadState(account), loadStoredCookies(account)]);
+  const now = Date.now();
+  const loginAt = stored ? Date.parse(stored.savedAt) : null;
+  const expectedLifetimeMs = expectedSessionLifetime(state.observedLifetimes, now, lifetimeConfig);
+  return {
+    ...state,
+    account: account.id,
+    enabled: monitorTimer !== null,
+    store: getCookieStore(account.storageKey).kind,
+    present: stored !== null,
+    lastLoginAt: stored?.savedAt ?? null,
+    ageMs: loginAt !== null ? now - loginAt : null,
+    expiresAt: stored?.expiresAt ?? null,
+    expectedLifetimeMs,
+    refreshDue: loginAt !== null
+      ? sessionRefreshReason({
+        ageMs: now - loginAt,
+        expiresAt: stored?.expiresAt ? Date.parse(stored.expiresAt) : null,
+        expectedLifetimeMs,
+        now
+      }, refreshConfig)
+      : null
+  };
+}
+
+/**
+ * Starts probing the session every SESSION_PROBE_INTERVAL_MINS.
+ */
+export function startSessionMonitor(): void {
+  if (monitorTimer || SESSION_PROBE_INTERVAL_MINS <= 0) return;
+  if (!hasEngageAccounts()) {
+    logger.warn('Session monitor not started: no Engage account is configured.');
+    return;
+  }
+  monitorTimer = setInterval(async () => {
+    if (await claimTick()) await checkSession();
+  }, SESSION_PROBE_INTERVAL_MINS * 60 * 1000);
+  logger.info(`Session monitor started. Probing every ${SESSION_PROBE_INTERVAL_MINS} minutes.`);
+}
+
+/**
+ * Stops the session monitor.
+ */
+export function stopSessionMonitor(): void {
+  if (monitorTimer) clearInterval(monitorTimer);
+  monitorTimer = null;
+}
@@ -0,0 +1,350 @@
+// services/webhook-service.ts
+import axios from 'axios';
+import { randomBytes } from 'crypto';
+import { config } from 'dotenv';
+import { v4 as uuidv4 } from 'uuid';
+import { getRedisClient } from './redis-service';
+import { subscribeEvents, CHANGE_EVENT_TYPES, type AppEvent, type ChangeEventType } from './event-bus';
+import { logger } from '../utils/logger';
+import { signWebhookPayload, webhookRetryDelayMs } from '../utils/webhooks';
+
+config();
+
+const SUBSCRIPTIONS_KEY = 'webhook:subscriptions'; // hash: subscription ID -> JSON
+const DELIVERIES_KEY = 'webhook:deliveries'; // hash: delivery ID -> JSON, pending deliveries only
+const RETRY_SCHEDULE_KEY = 'webhook:retry'; // zset: delivery ID -> due time in ms
+const DEAD_LETTER_KEY = 'webhook:dead-letter'; // list of JSON, newest first
+
+// Delivery configuration
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8', 10);
+const WEBHOOK_RETRY_BASE_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_MS || '30000', 10); // doubles per attempt
+const WEBHOOK_RETRY_MAX_MS = parseInt(process.env.WEBHOOK_RETRY_MAX_MS || '3600000', 10); // Default: 1 hour
+const WEBHOOK_RETRY_POLL_MS = parseInt(process.env.WEBHOOK_RETRY_POLL_MS || '5000', 10);
+const WEBHOOK_DEAD_LETTER_MAX = parseInt(process.env.WEBHOOK_DEAD_LETTER_MAX || '1000', 10);
+
+export type WebhookEventFilter = ChangeEventType | '*';
+
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  events: WebhookEventFilter[];
+  secret: string;
+  description: string | null;
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  subscriptionId: string;
+  event: AppEvent;
+  attempts: number;
+  lastError: string | null;
+  createdAt: string;
+}
+
+export interface DeadLetter extends WebhookDelivery {
+  url: string;
+  failedAt: string;
+}
+
+let unsubscribe: (() => void) | null = null;
+let retryTimer: ReturnType<typeof setInterval> | null = null;
+
+function matchesSubscription(subscription: WebhookSubscription, type: string): boolean {
+  if (!CHANGE_EVENT_TYPES.includes(type as ChangeEventType)) return false;
+  return subscription.events.includes('*') || subscription.events.includes(type as ChangeEventType);
+}
+
+/**
+ * Sends one payload to a URL.
+ * @returns null on a 2xx response, otherwise a short error description
+ */
+async function postEvent(subscription: WebhookSubscription, event: AppEvent, deliveryId: string): Promise<string | null> {
+  const body = JSON.stringify(event);
+  const timestamp = Math.floor(Date.now() / 1000);
+  try {
+    const response = await axios.post(subscription.url, body, {
+      timeout: WEBHOOK_TIMEOUT_MS,
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'dsas-cca-webhooks',
+        'X-Webhook-Id': deliveryId,
+        'X-Webhook-Event': event.type,
+        'X-Webhook-Timestamp': String(timestamp),
+        'X-Webhook-Signature': signWebhookPayload(subscription.secret, timestamp, body)
+      },
+      // Redirects could forward the signed payload somewhere else
+      maxRedirects: 0,
+      validateStatus: () => true
+    });
+    if (response.status >= 200 && response.status < 300) return null;
+    return `HTTP ${response.status}`;
+  } catch (err) {
+    return (err as Error).message || 'Request failed';
+  }
+}
+
+// --- Subscriptions ---
+
+/**
+ * Gets all webhook subscriptions.
+ * @returns Subscriptions, or [] on error
+ */
+export async function listWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+  const client = getRedisClient();
+  if (!client) return [];
+  try {
+    const values: string[] = (await client.send('HVALS', [SUBSCRIPTIONS_KEY])) || [];
+    return values.map(value => JSON.parse(value) as WebhookSubscription);
+  } catch (err) {
+    logger.error('Error listing webhook subscriptions:', err);
+    return [];
+  }
+}
+
+/**
+ * Gets one webhook subscription.
+ * @returns The subscription, or null if not found/error
+ */
+export async function getWebhookSubscription(subscriptionId: string): Promise<WebhookSubscription | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  try {
+    const value = await client.send('HGET', [SUBSCRIPTIONS_KEY, subscriptionId]);
+    return value ? JSON.parse(value) : null;
+  } catch (err) {
+    logger.error(`Error getting webhook subscription ${subscriptionId}:`, err);
+    return null;
+  }
+}
+
+/**
+ * Validates the fields of a new subscription.
+ * @returns An error message, or null if valid
+ */
+export function validateWebhookInput(input: { url?: unknown; events?: unknown; secret?: unknown }): string | null {
+  if (typeof input.url !== 'string') return 'url is required.';
+  let url: URL;
+  try {
+    url = new URL(input.url);
+  } catch {
+    return 'url is not a valid URL.';
+  }
+  if (url.protocol !== 'https:' && url.protocol !== 'http:') return 'url must use http or https.';
+  if (input.events !== undefined) {
+    if (!Array.isArray(input.events) || input.events.length === 0) return 'events must be a non-empty array.';
+    const invalid = input.events.filter(e => e !== '*' && !CHANGE_EVENT_TYPES.includes(e));
+    if (invalid.length > 0) return `Unknown events: ${invalid.join(', ')}. Valid events: *, ${CHANGE_EVENT_TYPES.join(', ')}.`;
+  }
+  if (input.secret !== undefined && (typeof input.secret !== 'string' || input.secret.length < 16)) {
+    return 'secret must be a string of at least 16 characters.';
+  }
+  return null;
+}
+
+/**
+ * Registers a webhook subscription. Input must have passed validateWebhookInput().
+ * @returns The subscription including its secret, or null on error
+ */
+export async function createWebhookSubscription(input: {
+  url: string;
+  events?: WebhookEventFilter[];
+  secret?: string;
+  description?: string;
+}): Promise<WebhookSubscription | null> {
+  const client = getRedisClient();
+  if (!client) return null;
+  const subscription: WebhookSubscription = {
+    id: uuidv4(),
+    url: input.url,
+    events: input.events ?? ['*'],
+    secret: input.secret ?? randomBytes(32).toString('hex'),
+    description: input.description ?? null,
+    createdAt: new Date().toISOString()
+  };
+  try {
+    await client.send('HSET', [SUBSCRIPTIONS_KEY, subscription.id, JSON.stringify(subscription)]);
+    logger.info(`Webhook subscription ${subscription.id} created for ${subscription.url} (${subscription.events.join(', ')}).`);
+    return subscription;
+  } catch (err) {
+    logger.error('Error creating webhook subscription:', err);
+    return null;
+  }
+}
+
+/**
+ * Removes a webhook subscription. Its pending deliveries are dropped when they come due.
+ * @returns true if it existed
+ */
+export async function deleteWebhookSubscription(subscriptionId: string): Promise<boolean> {
+  const client = getRedisClient();
+  if (!client) return false;
+  try {
+    const removed = Number(await client.send('HDEL', [SUBSCRIPTIONS_KEY, subscriptionId]));
+    if (removed > 0) logger.info(`Webhook subscription ${subscriptionId} deleted.`);
+    return removed > 0;
+  } catch (err) {
+    logger.error(`Error deleting webhook subscription ${subscriptionId}:`, err);
+    return false;
+  }
+}
+
+/**
+ * Sends a webhook.ping event straight away, without retries.
+ * @returns null on success, otherwise the error
+ */
+export async function sendTestWebhook(subscription: WebhookSubscription): Promise<string | null> {
+  const event = {
+    id: uuidv4(),
+    type: 'webhook.ping',
+    createdAt: new Date().toISOString(),
+    data: { subscriptionId: subscription.id }
+  } as unknown as AppEvent;
+  return postEvent(subscription, event, uuidv4());
+}
+
+/**
+ * Gets the most recent deliveries that ran out of attempts.
+ * @returns Dead letters, newest first, or [] on error
+ */
+export async function getDeadLetters(limit: number): Promise<DeadLetter[]> {
+  const client = getRedisClient();
+  if (!client) return [];
+  try {
+    const values: string[] = (await client.send('LRANGE', [DEAD_LETTER_KEY, '0', String(limit - 1)])) || [];
+    return values.map(value => JSON.parse(value) as DeadLetter);
+  } catch (err) {
+    logger.error('Error getting webhook dead letters:', err);
+    return [];
+  }
+}
+
+// --- Delivery ---
+
+/**
+ * Queues an event for a subscription and tries it straight away.
+ */
+async function enqueueDelivery(subscription: WebhookSubscription, event: AppEvent): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  const delivery: WebhookDelivery = {
+    id: uuidv4(),
+    subscriptionId: subscription.id,
+    event,
+    attempts: 0,
+    lastError: null,
+    createdAt: new Date().toISOString()
+  };
+  await client.send('HSET', [DELIVERIES_KEY, delivery.id, JSON.stringify(delivery)]);
+  await client.send('ZADD', [RETRY_SCHEDULE_KEY, String(Date.now()), delivery.id]);
+  await attemptDelivery(delivery.id);
+}
+
+/**
+ * Makes one attempt at a queued delivery. The delivery is claimed by removing it from the
+ * retry schedule, so with several instances only one of them sends it.
+ */
+async function attemptDelivery(deliveryId: string): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+
+  const claimed = Number(await client.send('ZREM', [RETRY_SCHEDULE_KEY, deliveryId]));
+  if (claimed === 0) return;
+
+  const raw = await client.send('HGET', [DELIVERIES_KEY, deliveryId]);
+  if (!raw) return;
+  const delivery: WebhookDelivery = JSON.parse(raw);
+
+  const subscription = await getWebhookSubscription(delivery.subscriptionId);
+  if (!subscription) {
+    logger.info(`Dropping webhook delivery ${deliveryId}: subscription ${delivery.subscriptionId} no longer exists.`);
+    await client.send('HDEL', [DELIVERIES_KEY, deliveryId]);
+    return;
+  }
+
+  const error = await postEvent(subscription, delivery.event, delivery.id);
+  delivery.attempts += 1;
+  if (!error) {
+    logger.debug(`Webhook delivery ${deliveryId} (${delivery.event.type}) to ${subscription.url} succeeded after ${delivery.attempts} attempt(s).`);
+    await client.send('HDEL', [DELIVERIES_KEY, deliveryId]);
+    return;
+  }
+
+  delivery.lastError = error;
+  if (delivery.attempts >= WEBHOOK_MAX_ATTEMPTS) {
+    logger.warn(`Webhook delivery ${deliveryId} to ${subscription.url} failed ${delivery.attempts} times (${error}). Moving to dead-letter list.`);
+    const deadLetter: DeadLetter = { ...delivery, url: subscription.url, failedAt: new Date().toISOString() };
+    await client.send('LPUSH', [DEAD_LETTER_KEY, JSON.stringify(deadLetter)]);
+    await client.send('LTRIM', [DEAD_LETTER_KEY, '0', String(WEBHOOK_DEAD_LETTER_MAX - 1)]);
+    await client.send('HDEL', [DELIVERIES_KEY, deliveryId]);
+    return;
+  }
+
+  const delay = webhookRetryDelayMs(delivery.attempts, WEBHOOK_RETRY_BASE_MS, WEBHOOK_RETRY_MAX_MS);
+  logger.warn(`Webhook delivery ${deliveryId} to ${subscription.url} failed (${error}). Retrying in ${Math.round(delay / 1000)}s.`);
+  await client.send('HSET', [DELIVERIES_KEY, deliveryId, JSON.stringify(delivery)]);
+  await client.send('ZADD', [RETRY_SCHEDULE_KEY, String(Date.now() + delay), deliveryId]);
+}
+
+/**
+ * Attempts every delivery whose retry time has come.
+ */
+async function processDueDeliveries(): Promise<void> {
+  const client = getRedisClient();
+  if (!client) return;
+  try {
+    const dueIds: string[] = (await client.send('ZRANGEBYSCORE', [RETRY_SCHEDULE_KEY, '-inf', String(Date.now()), 'LIMIT', '0', '100'])) || [];
+    for (const deliveryId of dueIds) {
+      await attemptDelivery(String(deliveryId));
+    }
+  } catch (err) {
+    logger.error('Error processing due webhook deliveries:', err);
+  }
+}
+
+async function handleEvent(event: AppEvent): Promise<void> {
+  const subscriptions = (await listWebhookSubscriptions()).filter(s => matchesSubscription(s, event.type));
+  for (const subscription of subscriptions) {
+    try {
+      await enqueueDelivery(subscription, event);
+    } catch (err) {
+      logger.error(`Error queueing webhook delivery of ${event.type} to ${subscription.url}:`, err);
+    }
+  }
+}
+
+/**
+ * Starts forwarding bus events to webhook subscribers and the retry loop.
+ * Deliveries left unscheduled by a crash between claim and reschedule are requeued.
+ */
+export async function startWebhookDispatcher(): Promise<void> {
+  if (unsubscribe) return;
+  const client = getRedisClient();
+  if (client) {
+    try {
+      const pendingIds: string[] = (await client.send('HKEYS', [DELIVERIES_KEY])) || [];
+      for (const deliveryId of pendingIds) {
+        // NX leaves already scheduled deliveries alone
+        await client.send('ZADD', [RETRY_SCHEDULE_KEY, 'NX', String(Date.now()), String(deliveryId)]);
+      }
+    } catch (err) {
+      logger.error('Error requeueing pending webhook deliveries:', err);
+    }
+  }
+  unsubscribe = subscribeEvents(handleEvent);
+  retryTimer = setInterval(() => {
+    processDueDeliveries();
+  }, WEBHOOK_RETRY_POLL_MS);
+  logger.info('Webhook dispatcher started.');
+}
+
+/**
+ * Stops the webhook dispatcher. Pending deliveries stay queued in Redis.
+ */
+export function stopWebhookDispatcher(): void {
+  unsubscribe?.();
+  unsubscribe = null;
+  if (retryTimer) clearInterval(retryTimer);
+  retryTimer = null;
+}
@@ -3,8 +3,11 @@ set -e
 
 echo "🚀 Starting DSAS CCA Backend..."
 
+# Cookies in Redis are shared and refreshed by the app itself; only the file store is checked here
+if [ "${COOKIE_STORE:-redis}" != "file" ]; then
+  echo "🔐 Cookies are kept in Redis. The app logs in when needed."
 # Check if cookies exist and are valid
-if [ -f /usr/src/app/services/cookies.json ]; then
+elif [ -f /usr/src/app/services/cookies.json ]; then
   echo "📁 Cookies file found. Checking validity..."
   
   # Try to fetch a simple activity to test cookies
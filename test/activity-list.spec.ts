@@ -0,0 +1,61 @@
+import { test, expect } from 'bun:test';
+import { encodeListCursor, decodeListCursor, paginateActivities } from '../utils/activity-list';
+import type { ActivityData } from '../models/activity';
+
+const activities: ActivityData[] = [
+  { id: '10', name: 'Chess', category: 'Clubs' },
+  { id: '2', name: 'Art', category: 'Arts' },
+  { id: '7', name: 'chess', category: 'Clubs' },
+  { id: '31', name: 'Badminton', category: 'Sports' },
+  { id: '4', name: 'Chess', category: 'Clubs' }
+];
+
+const ids = (page: ActivityData[]) => page.map(activity => activity.id);
+
+function pageThrough(sort: 'name' | 'id', order: 'asc' | 'desc', limit: number): string[] {
+  const seen: string[] = [];
+  let cursor: string | null = null;
+  do {
+    const result = paginateActivities(activities, sort, order, limit, cursor ? decodeListCursor(cursor) : null);
+    seen.push(...result.page.map(activity => activity.id!));
+    cursor = result.nextCursor;
+  } while (cursor);
+  return seen;
+}
+
+test('should break ties by ID so pages neither repeat nor skip activities', () => {
+  const first = paginateActivities(activities, 'name', 'asc', 2, null);
+  expect(ids(first.page)).toEqual(['2', '31']);
+  // Three activities named "Chess" (case-insensitively) straddle the page boundary
+  const second = paginateActivities(activities, 'name', 'asc', 2, decodeListCursor(first.nextCursor!));
+  expect(ids(second.page)).toEqual(['4', '7']);
+  expect(pageThrough('name', 'asc', 2)).toEqual(['2', '31', '4', '7', '10']);
+  expect(pageThrough('name', 'asc', 5)).toEqual(['2', '31', '4', '7', '10']);
+});
+
+test('should page in descending order with numeric ID comparison', () => {
+  expect(pageThrough('id', 'desc', 2)).toEqual(['31', '10', '7', '4', '2']);
+  expect(pageThrough('id', 'asc', 3)).toEqual(['2', '4', '7', '10', '31']);
+  expect(pageThrough('name', 'desc', 2)).toEqual(['10', '7', '4', '31', '2']);
+  const last = paginateActivities(activities, 'id', 'desc', 5, null);
+  expect(last.nextCursor).toBeNull();
+});
+
+test('should ignore a cursor made for another sort or order', () => {
+  const byName = decodeListCursor(encodeListCursor(activities[2]!, 'name', 'asc'));
+  expect(byName).toEqual({ sort: 'name', order: 'asc', key: 'chess', id: '7' });
+  expect(ids(paginateActivities(activities, 'id', 'asc', 2, byName).page)).toEqual(['2', '4']);
+  expect(ids(paginateActivities(activities, 'name', 'desc', 2, byName).page)).toEqual(['10', '7']);
+  expect(ids(paginateActivities(activities, 'name', 'asc', 2, byName).page)).toEqual(['10']);
+});
+
+test('should reject malformed cursors', () => {
+  const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+  expect(decodeListCursor('not a cursor')).toBeNull();
+  expect(decodeListCursor('')).toBeNull();
+  expect(decodeListCursor(encode(null))).toBeNull();
+  expect(decodeListCursor(encode({ sort: 'price', order: 'asc', key: 'x', id: '1' }))).toBeNull();
+  expect(decodeListCursor(encode({ sort: 'name', order: 'up', key: 'x', id: '1' }))).toBeNull();
+  expect(decodeListCursor(encode({ sort: 'name', order: 'asc', key: 'x', id: 1 }))).toBeNull();
+  expect(decodeListCursor(encode({ sort: 'name', order: 'asc', key: 'x', id: '1' }))).toEqual({ sort: 'name', order: 'asc', key: 'x', id: '1' });
+});
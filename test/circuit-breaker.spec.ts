@@ -0,0 +1,68 @@
+import { test, expect } from 'bun:test';
+import { CircuitBreaker, CircuitOpenError, describeOutage } from '../utils/circuit-breaker';
+import { AdaptiveConcurrency } from '../utils/semaphore';
+
+test('should open after consecutive failures and close after successful probes', () => {
+  let now = 0;
+  const breaker = new CircuitBreaker('engage', { failureThreshold: 3, openDurationMs: 1000, halfOpenProbes: 2 }, () => now);
+  breaker.recordFailure('timeout');
+  breaker.recordFailure('timeout');
+  breaker.recordSuccess(); // resets the count
+  for (let i = 0; i < 3; i++) breaker.recordFailure('HTTP 503');
+  expect(breaker.getState()).toBe('open');
+  expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+  now = 1000;
+  expect(breaker.tryAcquire()).toBe(true);
+  expect(breaker.getState()).toBe('half-open');
+  expect(breaker.tryAcquire()).toBe(true);
+  expect(breaker.tryAcquire()).toBe(false); // only two probes
+  breaker.recordSuccess();
+  breaker.recordSuccess();
+  expect(breaker.getState()).toBe('closed');
+  expect(breaker.getStatus().totalOpens).toBe(1);
+});
+
+test('should reopen when a probe fails', () => {
+  let now = 0;
+  const breaker = new CircuitBreaker('engage', { failureThreshold: 1, openDurationMs: 1000, halfOpenProbes: 1 }, () => now);
+  breaker.recordFailure('ECONNREFUSED');
+  now = 1500;
+  expect(breaker.tryAcquire()).toBe(true);
+  breaker.recordFailure('ECONNREFUSED');
+  expect(breaker.getState()).toBe('open');
+  expect(breaker.getRetryAt()).toBe(2500);
+  expect(breaker.isAvailable()).toBe(false);
+});
+
+test('should not count cancelled requests as outages', () => {
+  expect(describeOutage({ code: 'ERR_CANCELED', message: 'canceled', __CANCEL__: true })).toBeUndefined();
+  expect(describeOutage({ code: 'ERR_CANCELED', message: 'canceled' })).toBeUndefined();
+  expect(describeOutage({ code: 'ECONNABORTED', message: 'timeout of 10000ms exceeded' })).toBe('ECONNABORTED');
+  expect(describeOutage({ message: 'socket hang up' })).toBe('socket hang up');
+  expect(describeOutage({ response: { status: 503 } })).toBe('HTTP 503');
+  expect(describeOutage({ response: { status: 500 } })).toBeUndefined();
+
+  // A cancelled probe frees its slot without closing or reopening the circuit
+  let now = 0;
+  const breaker = new CircuitBreaker('engage', { failureThreshold: 1, openDurationMs: 1000, halfOpenProbes: 1 }, () => now);
+  breaker.recordFailure('ECONNREFUSED');
+  now = 1000;
+  expect(breaker.tryAcquire()).toBe(true);
+  breaker.recordCancelled();
+  expect(breaker.getState()).toBe('half-open');
+  expect(breaker.tryAcquire()).toBe(true);
+  breaker.recordSuccess();
+  expect(breaker.getState()).toBe('closed');
+});
+
+test('should halve concurrency on slow or failing windows and grow it by one otherwise', () => {
+  const adaptive = new AdaptiveConcurrency({ min: 1, max: 8, initial: 4, targetLatencyMs: 1000, maxErrorRate: 0.25, windowSize: 4 });
+  const limits: number[] = [];
+  adaptive.onChange(limit => limits.push(limit));
+  for (let i = 0; i < 4; i++) adaptive.record(200, true);
+  for (let i = 0; i < 4; i++) adaptive.record(200, i > 1); // 50% errors
+  for (let i = 0; i < 4; i++) adaptive.record(3000, true); // too slow
+  expect(limits).toEqual([5, 2, 1]);
+  expect(adaptive.getStatus().lastWindow).toEqual({ samples: 4, errorRate: 0, avgLatencyMs: 3000 });
+});
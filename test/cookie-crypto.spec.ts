@@ -0,0 +1,29 @@
+import { test, expect } from 'bun:test';
+import { parseEncryptionKey, encryptSecret, decryptSecret } from '../utils/cookie-crypto';
+
+const key = parseEncryptionKey('00112233445566778899aabbccddeeff00112233445566778899aabbccddeeff');
+
+test('should round-trip secrets with a fresh IV each time', () => {
+  const first = encryptSecret('ASP.NET_SessionId=abc', key);
+  const second = encryptSecret('ASP.NET_SessionId=abc', key);
+  expect(first).not.toBe(second);
+  expect(first.startsWith('v1:')).toBe(true);
+  expect(decryptSecret(first, key)).toBe('ASP.NET_SessionId=abc');
+  expect(decryptSecret(second, key)).toBe('ASP.NET_SessionId=abc');
+});
+
+test('should reject tampered payloads and wrong keys', () => {
+  const payload = encryptSecret('secret', key);
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  const flipped = Buffer.from(ciphertext!, 'base64');
+  flipped[0] = flipped[0]! ^ 1;
+  expect(() => decryptSecret([version, iv, tag, flipped.toString('base64')].join(':'), key)).toThrow();
+  expect(() => decryptSecret(payload, parseEncryptionKey(Buffer.alloc(32, 7).toString('base64')))).toThrow();
+  expect(() => decryptSecret('plain text', key)).toThrow('Unrecognized encrypted payload');
+});
+
+test('should accept 32-byte keys only', () => {
+  expect(parseEncryptionKey(Buffer.alloc(32, 1).toString('base64')).length).toBe(32);
+  expect(() => parseEncryptionKey('too-short')).toThrow();
+  expect(() => parseEncryptionKey('abcd'.repeat(15))).toThrow();
+});
@@ -0,0 +1,26 @@
+import { test, expect } from 'bun:test';
+import { crawlFailureReason, type CrawlOutcomeCounts } from '../utils/crawl-outcome';
+
+const none: CrawlOutcomeCounts = {
+  attempted: 0, skipped: 0, deferred: 0, created: 0, updated: 0, removed: 0, unchanged: 0, empty: 0
+};
+
+test('should accept a run with few failed items', () => {
+  const counts = { ...none, attempted: 100, skipped: 20, unchanged: 60, empty: 15 };
+  expect(crawlFailureReason(counts, { done: 95, failed: 5 }, 0.2)).toBeNull();
+  expect(crawlFailureReason(counts, { done: 80, failed: 20 }, 0.2)).toBeNull();
+  expect(crawlFailureReason(none, { done: 0, failed: 0 }, 0.2)).toBeNull();
+});
+
+test('should reject a run where too many items failed', () => {
+  const counts = { ...none, attempted: 100, unchanged: 70 };
+  expect(crawlFailureReason(counts, { done: 70, failed: 30 }, 0.2)).toBe('30 of 100 items failed');
+});
+
+test('should reject a run where no fetch got an answer', () => {
+  // Only cached scan items and deferred ones: nothing was fetched
+  expect(crawlFailureReason({ ...none, attempted: 10, skipped: 8, deferred: 2 }, { done: 8, failed: 0 }, 0.2)).toBeNull();
+  expect(crawlFailureReason({ ...none, attempted: 12, skipped: 10 }, { done: 10, failed: 2 }, 0.5))
+    .toBe('none of 2 fetches got an answer');
+  expect(crawlFailureReason({ ...none, attempted: 3 }, null, 0.2)).toBe('none of 3 fetches got an answer');
+});
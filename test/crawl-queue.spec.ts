@@ -0,0 +1,27 @@
+import { test, expect } from 'bun:test';
+import { decideCrawlItem, splitPendingForReset } from '../utils/crawl-queue';
+
+test('should finish, requeue or fail an item by its outcome and attempts', () => {
+  expect(decideCrawlItem({ ok: true }, 1, 3)).toEqual({ status: 'done', attempts: 1, requeue: null });
+  expect(decideCrawlItem({ ok: false }, 1, 3)).toEqual({ status: 'pending', attempts: 1, requeue: 'back' });
+  expect(decideCrawlItem({ ok: false }, 2, 3)).toEqual({ status: 'pending', attempts: 2, requeue: 'back' });
+  expect(decideCrawlItem({ ok: false }, 3, 3)).toEqual({ status: 'failed', attempts: 3, requeue: null });
+});
+
+test('should requeue a deferred item at the front without using up an attempt', () => {
+  expect(decideCrawlItem({ ok: false, deferred: true }, 1, 3)).toEqual({ status: 'pending', attempts: 0, requeue: 'front' });
+  // Even on what would be the last attempt
+  expect(decideCrawlItem({ ok: false, deferred: true }, 3, 3)).toEqual({ status: 'pending', attempts: 2, requeue: 'front' });
+});
+
+test('should keep pending high-priority items across a new run and count them', () => {
+  const { kept, dropped } = splitPendingForReset(
+    ['5', '9', '12', '40'],
+    [{ priority: 'high' }, { priority: 'normal' }, null, { priority: 'high' }]
+  );
+  expect(kept).toEqual(['5', '40']);
+  expect(dropped).toEqual(['9', '12']);
+  // States saved before priorities were recorded
+  expect(splitPendingForReset(['7'], [{}])).toEqual({ kept: [], dropped: ['7'] });
+  expect(splitPendingForReset([], [])).toEqual({ kept: [], dropped: [] });
+});
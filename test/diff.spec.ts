@@ -0,0 +1,41 @@
+import { test, expect } from 'bun:test';
+import { diffActivity, diffStaffMaps } from '../utils/diff';
+
+const before = {
+  id: '42',
+  name: 'Chess Club',
+  staff: ['Mr Shane Rose'],
+  meeting: { day: 'Tuesday', startTime: '15:30', endTime: '16:30', location: { room: '201', site: 'Secondary' } },
+  lastCheck: '2024-09-01T00:00:00.000Z'
+};
+
+test('should report nested field changes by dotted path', () => {
+  const after = {
+    ...before,
+    staff: ['Mr Shane Rose', 'Ms Cindy Xue'],
+    meeting: { ...before.meeting, location: { room: '305', site: 'Secondary' } }
+  };
+  expect(diffActivity(before, after)).toEqual([
+    { path: 'meeting.location.room', before: '201', after: '305' },
+    { path: 'staff', before: ['Mr Shane Rose'], after: ['Mr Shane Rose', 'Ms Cindy Xue'] }
+  ]);
+});
+
+test('should ignore bookkeeping fields and null/missing differences', () => {
+  const after = { ...before, lastCheck: '2024-09-02T00:00:00.000Z', cache: 'HIT', description: null };
+  expect(diffActivity(before, after)).toEqual([]);
+  expect(diffActivity(before, { ...before, description: 'New' })).toEqual([
+    { path: 'description', before: null, after: 'New' }
+  ]);
+});
+
+test('should report added, removed and renamed staff', () => {
+  const previous = { '1': 'Mr Shane Rose', '2': 'Ms Cindy Xue', lastCheck: '2024-09-01T00:00:00.000Z' };
+  const next = { '1': 'Mr Shane Rose', '2': 'Dr Cindy Xue', '3': 'Ms Amy Li', lastCheck: '2024-09-02T00:00:00.000Z' };
+  expect(diffStaffMaps(previous, next)).toEqual({
+    added: { '3': 'Ms Amy Li' },
+    removed: {},
+    renamed: { '2': { before: 'Ms Cindy Xue', after: 'Dr Cindy Xue' } }
+  });
+  expect(diffStaffMaps(previous, { ...previous, lastCheck: 'later' })).toBeNull();
+});
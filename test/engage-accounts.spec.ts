@@ -0,0 +1,59 @@
+import { test, expect } from 'bun:test';
+import {
+  accountId,
+  accountScopedKey,
+  parseEngageAccounts,
+  initialAccountHealth,
+  recordLoginResult,
+  isQuarantined,
+  orderAccounts,
+  type AccountHealth
+} from '../utils/engage-accounts';
+
+const MIN = 60 * 1000;
+const policy = { maxLoginFailures: 3, quarantineMs: 60 * MIN };
+
+test('should list the API_USERNAME account first with the unscoped keys', () => {
+  const { accounts, invalid } = parseEngageAccounts(
+    'second%40school.cn:p%3Ass, third:pw\nmain%40school.cn:dup  broken',
+    { username: 'Main%40school.cn', password: 'secret' }
+  );
+  expect(accounts.map(account => account.username)).toEqual(['Main%40school.cn', 'second%40school.cn', 'third']);
+  expect(accounts[0]!.storageKey).toBe('');
+  expect(accounts[1]).toMatchObject({ password: 'p%3Ass', storageKey: accounts[1]!.id });
+  expect(accounts[0]!.id).toBe(accountId('main@school.cn'));
+  expect(accounts[0]!.id).toMatch(/^[0-9a-f]{10}$/);
+  expect(invalid).toEqual(['bro…']);
+  expect(accountScopedKey('auth:cookies', accounts[0]!.storageKey)).toBe('auth:cookies');
+  expect(accountScopedKey('auth:cookies', accounts[1]!.storageKey)).toBe(`auth:cookies:${accounts[1]!.id}`);
+  expect(parseEngageAccounts(undefined, {}).accounts).toEqual([]);
+});
+
+test('should quarantine an account after repeated login failures until it logs in', () => {
+  const now = Date.parse('2025-03-01T00:00:00Z');
+  let health = initialAccountHealth();
+  health = recordLoginResult(health, now, policy, 'Login failed');
+  health = recordLoginResult(health, now, policy, 'Login failed');
+  expect(isQuarantined(health, now)).toBe(false);
+  health = recordLoginResult(health, now, policy, 'Account locked');
+  expect(health).toMatchObject({ consecutiveLoginFailures: 3, quarantinedUntil: now + 60 * MIN, lastLoginError: 'Account locked' });
+  expect(isQuarantined(health, now + 59 * MIN)).toBe(true);
+  expect(isQuarantined(health, now + 60 * MIN)).toBe(false);
+  // One more failure after the quarantine puts it straight back
+  expect(isQuarantined(recordLoginResult(health, now + 61 * MIN, policy, 'Account locked'), now + 61 * MIN)).toBe(true);
+  expect(recordLoginResult(health, now + 61 * MIN, policy)).toEqual({
+    consecutiveLoginFailures: 0, quarantinedUntil: null, lastLoginAt: now + 61 * MIN, lastLoginError: null
+  });
+});
+
+test('should rotate through healthy accounts and try quarantined ones last', () => {
+  const now = Date.parse('2025-03-01T00:00:00Z');
+  const accounts = [{ id: 'a' }, { id: 'b' }, { id: 'c' }];
+  const quarantined: AccountHealth = { ...initialAccountHealth(), consecutiveLoginFailures: 3, quarantinedUntil: now + MIN };
+  const health = new Map([['b', quarantined]]);
+  const order = (turn: number) => orderAccounts(accounts, health, now, turn).map(account => account.id);
+  expect(order(0)).toEqual(['a', 'c', 'b']);
+  expect(order(1)).toEqual(['c', 'a', 'b']);
+  expect(order(2)).toEqual(['a', 'c', 'b']);
+  expect(orderAccounts(accounts, new Map(), now, 1).map(account => account.id)).toEqual(['b', 'c', 'a']);
+});
@@ -1,21 +1,24 @@
 import { loginWithPlaywright, saveCookiesToCache } from '../services/playwright-auth';
+import { getEngageAccounts } from '../services/account-pool';
 
-const username = process.env.API_USERNAME;
-const password = process.env.API_PASSWORD;
+// The API_USERNAME account, whose cookies startup.sh checks
+const account = getEngageAccounts()[0];
 
-if (!username || !password) {
+if (!process.env.API_USERNAME || !process.env.API_PASSWORD || !account) {
   console.error('❌ API_USERNAME and API_PASSWORD environment variables are required');
   process.exit(1);
 }
 
 console.log('🔑 Starting cookie extraction...\n');
 
-loginWithPlaywright(username, password)
+loginWithPlaywright(account.username, account.password)
   .then(cookies => {
     console.log(`\n✅ Extracted ${cookies.length} cookies`);
-    console.log('📁 Cookies saved to: ./services/cookies.json');
+    console.log('📁 Cookies saved to the cookie store');
     
-    saveCookiesToCache(cookies);
+    return saveCookiesToCache(account, cookies);
+  })
+  .then(() => {
     process.exit(0);
   })
   .catch(error => {
@@ -0,0 +1,53 @@
+import { test, expect } from 'bun:test';
+import { buildActivityCalendar, hasCalendarEvent } from '../utils/ical';
+
+const chessClub = {
+  id: '42',
+  name: 'Chess, Go; & Xiangqi',
+  description: 'Line one\nLine two',
+  schedule: '2024/2025 S1 G6-12',
+  staff: ['Mr Shane Rose', 'Ms Cindy Xue'],
+  meeting: {
+    day: 'Tuesday & Thursday',
+    startTime: '3:30 PM',
+    endTime: '4:30 PM',
+    location: { block: 'B', room: '201', site: 'Secondary Campus' }
+  },
+  duration: { startDate: '2024-09-02', endDate: '2025-01-17', isRecurringWeekly: true }
+};
+
+test('should build a weekly recurring event starting on the first meeting day', () => {
+  const ics = buildActivityCalendar([chessClub], 'DSAS CCA', new Date('2024-08-01T00:00:00Z'));
+  const lines = ics.split('\r\n');
+
+  expect(lines[0]).toBe('BEGIN:VCALENDAR');
+  expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+  expect(lines).toContain('UID:activity-42@dsas-cca');
+  expect(lines).toContain('DTSTAMP:20240801T000000Z');
+  // 2024-09-02 is a Monday, so the first meeting is Tuesday the 3rd
+  expect(lines).toContain('DTSTART;TZID=Asia/Shanghai:20240903T153000');
+  expect(lines).toContain('DTEND;TZID=Asia/Shanghai:20240903T163000');
+  expect(lines).toContain('RRULE:FREQ=WEEKLY;BYDAY=TU,TH;UNTIL=20250117T155959Z');
+  expect(lines).toContain('SUMMARY:Chess\\, Go\\; & Xiangqi');
+  expect(lines).toContain('DESCRIPTION:Line one\\nLine two');
+  expect(lines).toContain('LOCATION:201\\, B\\, Secondary Campus');
+  expect(lines).toContain('ATTENDEE;CN="Mr Shane Rose";CUTYPE=INDIVIDUAL;ROLE=CHAIR:invalid:nomail');
+});
+
+test('should fold long lines at 75 octets without splitting characters', () => {
+  const activity = { ...chessClub, description: '国际象棋'.repeat(30) };
+  const ics = buildActivityCalendar([activity], 'DSAS CCA');
+  for (const line of ics.split('\r\n')) {
+    expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    expect(line).not.toContain('�');
+  }
+  const unfolded = ics.replace(/\r\n /g, '');
+  expect(unfolded).toContain(`DESCRIPTION:${'国际象棋'.repeat(30)}`);
+});
+
+test('should skip activities without a usable meeting time', () => {
+  const noMeeting = { id: '7', name: 'Ad hoc', meeting: { day: 'TBC', location: {} }, duration: {} };
+  expect(hasCalendarEvent(chessClub)).toBe(true);
+  expect(hasCalendarEvent(noMeeting)).toBe(false);
+  expect(buildActivityCalendar([noMeeting], 'DSAS CCA')).not.toContain('BEGIN:VEVENT');
+});
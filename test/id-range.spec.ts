@@ -0,0 +1,35 @@
+import { test, expect } from 'bun:test';
+import { planScanRange, probeAheadIds, emptyProbeBackoffMs, nextEmptyProbeState, isProbeDue, emptyAnswerAction } from '../utils/id-range';
+
+test('should scan the configured range until a range is learned, then the learned range plus probe-ahead', () => {
+  expect(planScanRange({ min: 3000, max: 8000 }, null, 200)).toEqual({ min: 3000, max: 8000 });
+  expect(planScanRange({ min: 3000, max: 8000 }, { min: 7012, max: 8150 }, 200)).toEqual({ min: 7012, max: 8350 });
+  expect(planScanRange({ min: 0, max: 9999 }, { min: 9000, max: 9950 }, 200)).toEqual({ min: 9000, max: 9999 });
+  expect(probeAheadIds({ min: 7000, max: 7100 }, 3)).toEqual(['7101', '7102', '7103']);
+  expect(probeAheadIds(null, 3)).toEqual([]);
+});
+
+test('should back off exponentially on repeatedly empty IDs', () => {
+  const hour = 60 * 60 * 1000;
+  expect(emptyProbeBackoffMs(1, hour, 24 * hour)).toBe(hour);
+  expect(emptyProbeBackoffMs(3, hour, 24 * hour)).toBe(4 * hour);
+  expect(emptyProbeBackoffMs(100, hour, 24 * hour)).toBe(24 * hour);
+
+  const first = nextEmptyProbeState(null, 0, hour, 24 * hour);
+  const second = nextEmptyProbeState(first, hour, hour, 24 * hour);
+  expect(second).toEqual({ emptyCount: 2, nextProbeAt: 3 * hour });
+  expect(isProbeDue(second, 2 * hour)).toBe(false);
+  expect(isProbeDue(second, 3 * hour)).toBe(true);
+  expect(isProbeDue(undefined, 0)).toBe(true);
+});
+
+test('should remove a listed activity only after repeated empty answers', () => {
+  expect(emptyAnswerAction(false, 0, 3)).toBe('back-off');
+  expect(emptyAnswerAction(true, 1, 3)).toBe('keep');
+  expect(emptyAnswerAction(true, 2, 3)).toBe('keep');
+  expect(emptyAnswerAction(true, 3, 3)).toBe('remove');
+  expect(emptyAnswerAction(true, 5, 3)).toBe('remove');
+  // Counting failed: keep the activity rather than remove it on one answer
+  expect(emptyAnswerAction(true, 0, 3)).toBe('keep');
+  expect(emptyAnswerAction(true, 10, 0)).toBe('keep');
+});
@@ -0,0 +1,42 @@
+import { test, expect } from 'bun:test';
+import { TokenBucket, createRateLimiter, retryBackoffMs } from '../utils/rate-limiter';
+
+test('should space requests to the configured rate once the burst is used', () => {
+  let now = 0;
+  const bucket = new TokenBucket(60, 2, () => now);
+  expect(bucket.tryTake()).toBe(0);
+  expect(bucket.tryTake()).toBe(0);
+  expect(bucket.tryTake()).toBe(1000);
+  now = 500;
+  expect(bucket.tryTake()).toBe(500);
+  now = 1000;
+  expect(bucket.tryTake()).toBe(0);
+  // Idle time refills only up to capacity
+  now = 60000;
+  expect(bucket.tryTake()).toBe(0);
+  expect(bucket.tryTake()).toBe(0);
+  expect(bucket.tryTake()).toBeGreaterThan(0);
+  expect(createRateLimiter(0)).toBeNull();
+});
+
+test('should release waiters in order and reject aborted ones', async () => {
+  const bucket = new TokenBucket(6000); // one token per 10ms
+  await bucket.acquire();
+  const order: number[] = [];
+  const controller = new AbortController();
+  const first = bucket.acquire().then(() => order.push(1));
+  const aborted = bucket.acquire(controller.signal);
+  const second = bucket.acquire().then(() => order.push(2));
+  controller.abort();
+  await expect(aborted).rejects.toThrow('Aborted');
+  await Promise.all([first, second]);
+  expect(order).toEqual([1, 2]);
+  expect(bucket.getWaitingCount()).toBe(0);
+});
+
+test('should back off exponentially with jitter up to the cap', () => {
+  expect(retryBackoffMs(1, 1000, 30000, () => 0)).toBe(500);
+  expect(retryBackoffMs(1, 1000, 30000, () => 0.5)).toBe(750);
+  expect(retryBackoffMs(3, 1000, 30000, () => 0.5)).toBe(3000);
+  expect(retryBackoffMs(50, 1000, 30000, () => 1)).toBe(30000);
+});
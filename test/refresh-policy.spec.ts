@@ -0,0 +1,47 @@
+import { test, expect } from 'bun:test';
+import { decideRefresh, currentAcademicYear, isInSeason, parseSeasonWindows, compareRefreshPriority, type RefreshPolicyConfig } from '../utils/refresh-policy';
+
+const HOUR = 60 * 60 * 1000;
+const config: RefreshPolicyConfig = {
+  intervalsMs: { hot: HOUR, warm: 6 * HOUR, cold: 168 * HOUR },
+  academicYearStartMonth: 8,
+  signupSeasons: parseSeasonWindows('08-15..09-20,12-20..01-10'),
+  upcomingDays: 14,
+  volatileChangeCount: 3
+};
+const lastCheck = '2024-10-15T00:00:00.000Z';
+const base = Date.parse(lastCheck);
+
+test('should work out the academic year and sign-up seasons in school time', () => {
+  expect(currentAcademicYear(new Date('2024-07-31T12:00:00Z'), 8)).toBe('2023/2024');
+  // 2024-07-31T20:00Z is already August 1st in China
+  expect(currentAcademicYear(new Date('2024-07-31T20:00:00Z'), 8)).toBe('2024/2025');
+  expect(isInSeason(new Date('2025-01-05T00:00:00Z'), config.signupSeasons)).toBe(true);
+  expect(isInSeason(new Date('2025-03-01T00:00:00Z'), config.signupSeasons)).toBe(false);
+  expect(parseSeasonWindows('08-15..09-20, nonsense')).toEqual([{ start: '08-15', end: '09-20' }]);
+});
+
+test('should tier activities by academic year, dates and change frequency', () => {
+  const now = new Date('2024-10-15T02:00:00Z');
+  const running = { academicYear: '2024/2025', duration: { startDate: '2024-09-01', endDate: '2025-01-15' }, lastCheck };
+  expect(decideRefresh(running, 0, now, config)).toEqual({ tier: 'hot', nextCheckAt: base + HOUR, reason: 'running' });
+
+  const later = { academicYear: '2024/2025', duration: { startDate: '2025-02-20', endDate: '2025-06-01' }, lastCheck };
+  expect(decideRefresh(later, 0, now, config).tier).toBe('warm');
+  expect(decideRefresh({ ...later, duration: { startDate: '2024-10-20', endDate: '2025-06-01' } }, 0, now, config).reason).toBe('starting soon');
+
+  const archived = { academicYear: '2022/2023', lastCheck };
+  expect(decideRefresh(archived, 0, now, config)).toEqual({ tier: 'cold', nextCheckAt: base + 168 * HOUR, reason: 'past academic year' });
+  expect(decideRefresh(archived, 3, now, config).tier).toBe('warm');
+  expect(decideRefresh({ error: 'Timeout', lastCheck }, 0, now, config).tier).toBe('hot');
+});
+
+test('should order due activities by tier, then by how overdue they are', () => {
+  const due = [
+    { tier: 'cold' as const, nextCheckAt: 1 },
+    { tier: 'hot' as const, nextCheckAt: 50 },
+    { tier: 'hot' as const, nextCheckAt: 10 },
+    { tier: 'warm' as const, nextCheckAt: 5 }
+  ];
+  expect(due.sort(compareRefreshPriority).map(d => `${d.tier}:${d.nextCheckAt}`)).toEqual(['hot:10', 'hot:50', 'warm:5', 'cold:1']);
+});
@@ -0,0 +1,73 @@
+import { test, expect } from 'bun:test';
+import {
+  parseWeekdays,
+  parseClockTime,
+  parseDate,
+  parseTerm,
+  parseGradeRange,
+  parseGradeLabel,
+  normalizeSchedule
+} from '../utils/schedule-parser';
+
+test('should parse weekdays in English and Chinese', () => {
+  expect(parseWeekdays('Tuesday')).toEqual(['tuesday']);
+  expect(parseWeekdays('Wed & Mon')).toEqual(['monday', 'wednesday']);
+  expect(parseWeekdays('周二、星期四')).toEqual(['tuesday', 'thursday']);
+  expect(parseWeekdays('TBC')).toEqual([]);
+});
+
+test('should parse clock times into 24h HH:mm', () => {
+  expect(parseClockTime('15:30')).toBe('15:30');
+  expect(parseClockTime('3:30 PM')).toBe('15:30');
+  expect(parseClockTime('12:15am')).toBe('00:15');
+  expect(parseClockTime('15:30:00')).toBe('15:30');
+  expect(parseClockTime('15')).toBeNull();
+  expect(parseClockTime('24:00')).toBeNull();
+});
+
+test('should parse dates into ISO format', () => {
+  expect(parseDate('2024-09-02')).toBe('2024-09-02');
+  expect(parseDate('02/09/2024')).toBe('2024-09-02');
+  expect(parseDate('2 Sep 2024')).toBe('2024-09-02');
+  expect(parseDate('/Date(1725206400000)/')).toBe('2024-09-02');
+  expect(parseDate('31/02/2024')).toBeNull();
+});
+
+test('should derive term and semester from the schedule', () => {
+  expect(parseTerm('2024/2025 S2 G6-12', null)).toEqual({ term: 'S2', semester: 2 });
+  expect(parseTerm('Full Year', null)).toEqual({ term: 'FY', semester: null });
+  expect(parseTerm('G1-5', '2024-09-02')).toEqual({ term: null, semester: 1 });
+});
+
+test('should keep kindergarten grades distinct from G1-G12', () => {
+  expect(parseGradeRange('KG1-KG3')).toEqual({
+    min: 'KG1',
+    max: 'KG3',
+    stages: ['kg'],
+    labels: ['KG1', 'KG2', 'KG3']
+  });
+  expect(parseGradeRange('2024/2025 S1 G4-7')?.stages).toEqual(['primary', 'secondary']);
+  expect(parseGradeRange('KG3-G1')?.labels).toEqual(['KG3', 'G1']);
+  expect(parseGradeLabel('7')).toBe('G7');
+  expect(parseGradeLabel('kg2')).toBe('KG2');
+  expect(parseGradeLabel('13')).toBeNull();
+});
+
+test('should build the full normalized schedule from raw fields', () => {
+  const schedule = normalizeSchedule({
+    schedule: '2024/2025 S1 G6-12',
+    meeting: { day: 'Tuesday', startTime: '3:30 PM', endTime: '4:30 PM', location: {} },
+    duration: { startDate: '02/09/2024', endDate: '17/01/2025', isRecurringWeekly: true }
+  });
+  expect(schedule).toMatchObject({
+    weekdays: ['tuesday'],
+    startTime: '15:30',
+    endTime: '16:30',
+    startDate: '2024-09-02',
+    endDate: '2025-01-17',
+    isRecurringWeekly: true,
+    term: 'S1',
+    semester: 1
+  });
+  expect(schedule.gradeRange?.min).toBe('G6');
+});
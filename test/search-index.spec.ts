@@ -0,0 +1,72 @@
+import { test, expect } from 'bun:test';
+import { SearchIndex, tokenize, highlightText } from '../utils/search-index';
+
+function doc(name: string, description: string = '', staff: string = '') {
+  return { name, description, staff, studentLeaders: '', category: '' };
+}
+
+test('should split mixed Chinese/English text into words and Han bigrams', () => {
+  expect(tokenize('学生社团 Chess')).toEqual(['学', '学生', '生', '生社', '社', '社团', '团', 'chess']);
+  expect(tokenize('Issues T台上')).toEqual(['issues', 't', '台', '台上', '上']);
+});
+
+test('should rank name matches above description matches', () => {
+  const index = new SearchIndex();
+  index.upsert('1', doc('Art Club', 'We play chess sometimes'));
+  index.upsert('2', doc('Chess Club', 'Board games'));
+  index.upsert('3', doc('Football', 'Outdoor sport'));
+
+  const { total, hits } = index.search('chess');
+  expect(total).toBe(2);
+  expect(hits.map(h => h.id)).toEqual(['2', '1']);
+});
+
+test('should match Chinese queries and prefixes', () => {
+  const index = new SearchIndex();
+  index.upsert('1', doc('学生社团 - 辩论社'));
+  index.upsert('2', doc('Robotics (SL)'));
+
+  expect(index.search('社团').hits[0]?.id).toBe('1');
+  expect(index.search('robo').hits[0]?.id).toBe('2');
+});
+
+test('should forget removed and replaced documents', () => {
+  const index = new SearchIndex();
+  index.upsert('1', doc('Chess Club'));
+  index.upsert('1', doc('Go Club'));
+  expect(index.search('chess').total).toBe(0);
+  index.remove('1');
+  expect(index.search('go').total).toBe(0);
+  expect(index.size).toBe(0);
+});
+
+test('should highlight matches and trim long text to a snippet', () => {
+  expect(highlightText('Chess & Go Club', ['chess'])).toBe('<mark>Chess</mark> &amp; Go Club');
+  const long = `${'a '.repeat(100)}chess${' b'.repeat(100)}`;
+  const snippet = highlightText(long, ['chess'], 10)!;
+  expect(snippet.startsWith('…')).toBe(true);
+  expect(snippet.endsWith('…')).toBe(true);
+  expect(snippet).toContain('<mark>chess</mark>');
+  expect(highlightText('Football', ['chess'])).toBeNull();
+});
+
+test('should match Chinese names by full pinyin, syllables and initials', () => {
+  const index = new SearchIndex();
+  index.upsert('1', doc('学生社团 - 辩论社'));
+  index.upsert('2', doc('Chess Club'));
+
+  expect(index.search('xueshengshetuan').hits[0]?.id).toBe('1');
+  expect(index.search('bianlun').hits[0]?.id).toBe('1');
+  expect(index.search('xsst').hits[0]?.id).toBe('1');
+  expect(index.search('xsst').hits[0]?.matchedTerms).toContain('学生社团');
+});
+
+test('should tolerate typos in names and staff', () => {
+  const index = new SearchIndex();
+  index.upsert('1', doc('Robotics Club', '', 'Ms Cindy Xue'));
+  index.upsert('2', doc('Chess Club', '', 'Mr Shane Rose'));
+
+  expect(index.search('robitics').hits[0]?.id).toBe('1');
+  expect(index.search('shnae').hits[0]?.id).toBe('2');
+  expect(index.search('xyz').total).toBe(0);
+});
@@ -0,0 +1,49 @@
+import { test, expect } from 'bun:test';
+import {
+  addSessionLifetime,
+  expectedSessionLifetime,
+  sessionRefreshReason,
+  type SessionLifetimeObservation
+} from '../utils/session-lifetime';
+
+const MIN = 60 * 1000;
+const config = { refreshFraction: 0.8, expiryMarginMs: 10 * MIN, maxAgeMs: 0 };
+
+const lifetimeConfig = { keep: 5, maxAgeMs: 14 * 24 * 60 * MIN, minLifetimeMs: 30 * MIN };
+
+test('should plan for the median of recent session lifetimes', () => {
+  const now = Date.parse('2025-03-01T00:00:00Z');
+  let observations: SessionLifetimeObservation[] = [];
+  expect(expectedSessionLifetime(observations, now, lifetimeConfig)).toBeNull();
+  for (const lifetime of [300, 120, 240, 180]) {
+    observations = addSessionLifetime(observations, lifetime * MIN, now, lifetimeConfig);
+  }
+  // One short outlier does not drag the estimate down
+  observations = addSessionLifetime(observations, 40 * MIN, now, lifetimeConfig);
+  expect(expectedSessionLifetime(observations, now, lifetimeConfig)).toBe(180 * MIN);
+  observations = addSessionLifetime(observations, 200 * MIN, now, lifetimeConfig);
+  expect(observations.map(observation => observation.lifetimeMs)).toEqual([120, 240, 180, 40, 200].map(m => m * MIN));
+  expect(expectedSessionLifetime(observations, now, lifetimeConfig)).toBe(180 * MIN);
+});
+
+test('should skip sessions that ended right after login and forget old ones', () => {
+  const now = Date.parse('2025-03-01T00:00:00Z');
+  expect(addSessionLifetime([], 5 * MIN, now, lifetimeConfig)).toEqual([]);
+  const old = addSessionLifetime([], 35 * MIN, now - 15 * 24 * 60 * MIN, lifetimeConfig);
+  expect(expectedSessionLifetime(old, now, lifetimeConfig)).toBeNull();
+  expect(addSessionLifetime(old, 240 * MIN, now, lifetimeConfig)).toEqual([{ at: now, lifetimeMs: 240 * MIN }]);
+  // Never plans below the floor
+  expect(expectedSessionLifetime([{ at: now, lifetimeMs: 10 * MIN }], now, lifetimeConfig)).toBe(30 * MIN);
+});
+
+test('should refresh before cookies expire or the session reaches its expected lifetime', () => {
+  const now = Date.parse('2025-03-01T00:00:00Z');
+  expect(sessionRefreshReason({ ageMs: 10 * MIN, expiresAt: null, expectedLifetimeMs: null, now }, config)).toBeNull();
+  expect(sessionRefreshReason({ ageMs: 10 * MIN, expiresAt: now + 5 * MIN, expectedLifetimeMs: null, now }, config))
+    .toBe('cookies about to expire');
+  expect(sessionRefreshReason({ ageMs: 90 * MIN, expiresAt: null, expectedLifetimeMs: 120 * MIN, now }, config)).toBeNull();
+  expect(sessionRefreshReason({ ageMs: 96 * MIN, expiresAt: null, expectedLifetimeMs: 120 * MIN, now }, config))
+    .toBe('session 96min old, sessions last about 120min');
+  expect(sessionRefreshReason({ ageMs: 12 * 60 * MIN, expiresAt: null, expectedLifetimeMs: null, now }, { ...config, maxAgeMs: 12 * 60 * MIN }))
+    .toBe('session reached the maximum age');
+});
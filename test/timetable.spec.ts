@@ -0,0 +1,50 @@
+import { test, expect } from 'bun:test';
+import { findClash, findClashes, findAlternatives, isOpenToGrade } from '../utils/timetable';
+
+function activity(id: string, day: string, startTime: string, endTime: string, extra: Record<string, any> = {}) {
+  return {
+    id,
+    name: `Activity ${id}`,
+    category: 'Sports',
+    schedule: '2024/2025 S1 G6-12',
+    meeting: { day, startTime, endTime, location: {} },
+    duration: { startDate: '2024-09-02', endDate: '2025-01-17', isRecurringWeekly: true },
+    ...extra
+  };
+}
+
+test('should report overlapping weekday and time as a clash', () => {
+  const clash = findClash(activity('1', 'Tuesday & Thursday', '15:30', '16:30'), activity('2', 'Thursday', '16:00', '17:00'));
+  expect(clash).toEqual({ ids: ['1', '2'], weekdays: ['thursday'], startTime: '16:00', endTime: '16:30' });
+});
+
+test('should not treat back-to-back, other-day or other-semester sessions as clashes', () => {
+  const base = activity('1', 'Tuesday', '15:30', '16:30');
+  expect(findClash(base, activity('2', 'Tuesday', '16:30', '17:30'))).toBeNull();
+  expect(findClash(base, activity('3', 'Wednesday', '15:30', '16:30'))).toBeNull();
+  const springTerm = activity('4', 'Tuesday', '15:30', '16:30', {
+    duration: { startDate: '2025-02-10', endDate: '2025-06-13', isRecurringWeekly: true }
+  });
+  expect(findClash(base, springTerm)).toBeNull();
+  expect(findClashes([base, activity('5', 'Tuesday', '15:00', '16:00'), activity('6', 'Tuesday', '16:00', '17:00')])).toHaveLength(2);
+});
+
+test('should check grade eligibility using the grade range', () => {
+  expect(isOpenToGrade(activity('1', 'Monday', '15:30', '16:30'), 'G7')).toBe(true);
+  expect(isOpenToGrade(activity('1', 'Monday', '15:30', '16:30'), 'G4')).toBe(false);
+  expect(isOpenToGrade(activity('1', 'Monday', '15:30', '16:30', { schedule: 'KG1-KG3' }), 'G1')).toBe(false);
+  expect(isOpenToGrade(activity('1', 'Monday', '15:30', '16:30', { schedule: '' }), 'G1')).toBe(true);
+});
+
+test('should suggest alternatives that fit the rest of the selection', () => {
+  const football = activity('1', 'Tuesday', '15:30', '16:30');
+  const chess = activity('2', 'Tuesday', '15:30', '16:30', { category: 'Academic' });
+  const candidates = [
+    football,
+    activity('10', 'Tuesday', '16:00', '17:00'),
+    activity('11', 'Wednesday', '15:30', '16:30'),
+    activity('12', 'Friday', '15:30', '16:30', { schedule: '2024/2025 S1 G1-5' })
+  ];
+  const alternatives = findAlternatives(football, [football, chess], candidates, 'G7', 5);
+  expect(alternatives.map(a => a.id)).toEqual(['11']);
+});
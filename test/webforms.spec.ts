@@ -0,0 +1,59 @@
+import { test, expect } from 'bun:test';
+import {
+  extractFormInputs,
+  extractHiddenFields,
+  extractFormAction,
+  parseSetCookieHeaders,
+  mergeCookies
+} from '../utils/webforms';
+
+const loginPage = `
+<form method="post" action="./Login.aspx?ReturnUrl=%2fdefault.aspx" id="aspnetForm">
+<input type="hidden" name="__VIEWSTATE" id="__VIEWSTATE" value="/wEPDwUK+abc=" />
+<input type="hidden" name="__VIEWSTATEGENERATOR" value="C2EE9ABB" />
+<input type='hidden' name='__EVENTVALIDATION' value='a&amp;b&#61;' />
+<input name="ctl00$PageContent$loginControl$txtUN" type="text" id="txtUN" />
+<input type="submit" name="ctl00$PageContent$loginControl$btnLogin" value="Log In" />
+<input type="text" id="unnamed" />
+</form>`;
+
+test('should read the hidden fields and inputs of a WebForms page', () => {
+  expect(extractHiddenFields(loginPage)).toEqual({
+    __VIEWSTATE: '/wEPDwUK+abc=',
+    __VIEWSTATEGENERATOR: 'C2EE9ABB',
+    __EVENTVALIDATION: 'a&b='
+  });
+  const inputs = extractFormInputs(loginPage);
+  expect(inputs).toHaveLength(5);
+  expect(inputs.find(input => input.type === 'submit')?.value).toBe('Log In');
+  expect(inputs.find(input => input.name.endsWith('txtUN'))?.value).toBe('');
+});
+
+test('should resolve the form action against the page URL', () => {
+  expect(extractFormAction(loginPage, 'https://engage.nkcswx.cn/Login.aspx'))
+    .toBe('https://engage.nkcswx.cn/Login.aspx?ReturnUrl=%2fdefault.aspx');
+  expect(extractFormAction('<form method="post">', 'https://engage.nkcswx.cn/Login.aspx'))
+    .toBe('https://engage.nkcswx.cn/Login.aspx');
+});
+
+test('should parse Set-Cookie headers like Playwright reports cookies', () => {
+  const now = Date.parse('2025-01-01T00:00:00Z');
+  const cookies = parseSetCookieHeaders([
+    'ASP.NET_SessionId=abc123; path=/; HttpOnly; SameSite=Lax',
+    '.ASPXFORMSAUTH=XYZ==; expires=Thu, 02-Jan-2025 00:00:00 GMT; path=/; secure; HttpOnly',
+    'remember=1; Max-Age=60; Domain=.nkcswx.cn',
+    'invalid'
+  ], 'https://engage.nkcswx.cn/Login.aspx', now);
+  expect(cookies).toHaveLength(3);
+  expect(cookies[0]).toMatchObject({ name: 'ASP.NET_SessionId', value: 'abc123', domain: 'engage.nkcswx.cn', expires: -1, httpOnly: true });
+  expect(cookies[1]).toMatchObject({ value: 'XYZ==', expires: Date.parse('2025-01-02T00:00:00Z') / 1000, secure: true });
+  expect(cookies[2]).toMatchObject({ domain: 'nkcswx.cn', expires: now / 1000 + 60 });
+});
+
+test('should let later cookies replace earlier ones and drop expired ones', () => {
+  const now = 1000_000;
+  const [session, cleared] = parseSetCookieHeaders(['a=1', 'b=2'], 'https://engage.nkcswx.cn/', now);
+  const [updated, expired] = parseSetCookieHeaders(['a=3', 'b=; Max-Age=0'], 'https://engage.nkcswx.cn/', now);
+  const merged = mergeCookies([session!, cleared!], [updated!, expired!], now);
+  expect(merged.map(cookie => `${cookie.name}=${cookie.value}`)).toEqual(['a=3']);
+});
@@ -0,0 +1,23 @@
+import { test, expect } from 'bun:test';
+import { signWebhookPayload, webhookRetryDelayMs } from '../utils/webhooks';
+
+test('should sign "<timestamp>.<body>" with HMAC-SHA256', () => {
+  const body = '{"type":"activity.updated"}';
+  // Computed independently: hmac.new(b'whsec_test', b'1700000000.' + body, sha256).hexdigest()
+  expect(signWebhookPayload('whsec_test', 1700000000, body))
+    .toBe('sha256=11509e7507722a4a5e8752d653a487614cd37aa20a6f5595313ce95003c4d72a');
+  // The timestamp is part of what is signed, so a replay with a new timestamp fails verification
+  expect(signWebhookPayload('whsec_test', 1700000001, body)).not.toBe(signWebhookPayload('whsec_test', 1700000000, body));
+  expect(signWebhookPayload('other', 1700000000, body)).not.toBe(signWebhookPayload('whsec_test', 1700000000, body));
+});
+
+test('should double the retry delay with jitter and never exceed the cap', () => {
+  expect(webhookRetryDelayMs(1, 30000, 3600000, () => 0)).toBe(30000);
+  expect(webhookRetryDelayMs(3, 30000, 3600000, () => 0)).toBe(120000);
+  expect(webhookRetryDelayMs(3, 30000, 3600000, () => 0.5)).toBe(132000);
+  expect(webhookRetryDelayMs(7, 30000, 3600000, () => 0.5)).toBe(2112000);
+  // Jitter does not take a delay just under the cap past it
+  expect(webhookRetryDelayMs(7, 30000, 2000000, () => 0.5)).toBe(2000000);
+  expect(webhookRetryDelayMs(8, 30000, 3600000, () => 0)).toBe(3600000);
+  expect(webhookRetryDelayMs(1000, 30000, 3600000, () => 0.5)).toBe(3600000);
+});
@@ -0,0 +1,182 @@
+// utils/activity-list.ts
+import type { ActivityData, Weekday } from '../models/activity';
+import { getNormalizedSchedule } from './schedule-parser';
+
+export type ActivityListSort = 'name' | 'id' | 'category' | 'lastCheck';
+export type SortOrder = 'asc' | 'desc';
+
+export const ACTIVITY_LIST_SORTS: ActivityListSort[] = ['name', 'id', 'category', 'lastCheck'];
+
+// ActivityData fields a client may request with fields=; id, name and photo are always included
+export const ACTIVITY_LIST_FIELDS: string[] = [
+  'academicYear',
+  'category',
+  'description',
+  'duration',
+  'grades',
+  'isPreSignup',
+  'isStudentLed',
+  'lastCheck',
+  'materials',
+  'meeting',
+  'normalizedSchedule',
+  'poorWeatherPlan',
+  'requirements',
+  'schedule',
+  'semesterCost',
+  'staff',
+  'staffForReports',
+  'studentLeaders'
+];
+
+export interface MeetingFilters {
+  day?: Weekday;
+  startAfter?: string; // "HH:mm", inclusive
+  endBefore?: string; // "HH:mm", inclusive
+  site?: string;
+  room?: string;
+}
+
+export const DEFAULT_LIST_PAGE_SIZE = 50;
+export const MAX_LIST_PAGE_SIZE = 500;
+
+/**
+ * Position of the last item on a page. Encoded into an opaque cursor string.
+ */
+interface ListCursor {
+  sort: ActivityListSort;
+  order: SortOrder;
+  key: string;
+  id: string;
+}
+
+const collator = new Intl.Collator(['en', 'zh-CN'], { numeric: true, sensitivity: 'base' });
+
+function sortKey(activity: ActivityData, sort: ActivityListSort): string {
+  switch (sort) {
+    case 'name':
+      return activity.name ?? '';
+    case 'category':
+      return activity.category ?? '';
+    case 'lastCheck':
+      return activity.lastCheck ?? '';
+    case 'id':
+      return String(activity.id ?? '');
+  }
+}
+
+function compareKeys(sort: ActivityListSort, keyA: string, idA: string, keyB: string, idB: string): number {
+  let result: number;
+  if (sort === 'id') {
+    result = Number(keyA) - Number(keyB);
+  } else if (sort === 'lastCheck') {
+    // ISO timestamps sort correctly as plain strings
+    result = keyA < keyB ? -1 : keyA > keyB ? 1 : 0;
+  } else {
+    result = collator.compare(keyA, keyB);
+  }
+  // Ties are broken by ID so that the order, and therefore cursors, are stable
+  return result !== 0 ? result : Number(idA) - Number(idB);
+}
+
+/**
+ * Encodes a cursor pointing just after the given activity.
+ */
+export function encodeListCursor(activity: ActivityData, sort: ActivityListSort, order: SortOrder): string {
+  const cursor: ListCursor = { sort, order, key: sortKey(activity, sort), id: String(activity.id) };
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+/**
+ * Decodes a cursor string produced by encodeListCursor.
+ * @returns The cursor, or null if it is malformed
+ */
+export function decodeListCursor(value: string): ListCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf-8'));
+    if (
+      cursor &&
+      ACTIVITY_LIST_SORTS.includes(cursor.sort) &&
+      (cursor.order === 'asc' || cursor.order === 'desc') &&
+      typeof cursor.key === 'string' &&
+      typeof cursor.id === 'string'
+    ) {
+      return cursor as ListCursor;
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Sorts activities and returns one page of them.
+ * @param activities - Filtered activities
+ * @param sort - Sort field
+ * @param order - Sort direction
+ * @param limit - Page size
+ * @param cursor - Decoded cursor from the previous page, if any; ignored if it was made for another sort or order
+ * @returns The page and the cursor for the next page (null on the last page)
+ */
+export function paginateActivities(
+  activities: ActivityData[],
+  sort: ActivityListSort,
+  order: SortOrder,
+  limit: number,
+  cursor: ListCursor | null
+): { page: ActivityData[]; nextCursor: string | null } {
+  const direction = order === 'asc' ? 1 : -1;
+  const sorted = activities
+    .map(activity => ({ activity, key: sortKey(activity, sort), id: String(activity.id) }))
+    .sort((a, b) => direction * compareKeys(sort, a.key, a.id, b.key, b.id));
+
+  // A cursor from another sort or order points into a different sequence; the API rejects
+  // those, and here they are ignored rather than used to skip the wrong items
+  const after = cursor && cursor.sort === sort && cursor.order === order ? cursor : null;
+  const remaining = after
+    ? sorted.filter(item => direction * compareKeys(sort, item.key, item.id, after.key, after.id) > 0)
+    : sorted;
+  const page = remaining.slice(0, limit).map(item => item.activity);
+  const last = page[page.length - 1];
+  const nextCursor = remaining.length > limit && last ? encodeListCursor(last, sort, order) : null;
+  return { page, nextCursor };
+}
+
+/**
+ * Builds a list item with the always-present fields plus the requested ones.
+ */
+export function pickActivityFields(activity: ActivityData, fields: string[]): Record<string, any> {
+  const item: Record<string, any> = {
+    id: activity.id,
+    name: activity.name,
+    photo: activity.photo || ''
+  };
+  for (const field of fields) {
+    item[field] = activity[field] ?? null;
+  }
+  return item;
+}
+
+/**
+ * Checks an activity against the meeting day, time and location filters.
+ * Times compare as strings because normalized times are zero-padded "HH:mm".
+ * Site matches case-insensitively as a substring ("primary" matches "Primary Campus"),
+ * room matches case-insensitively as a whole.
+ */
+export function matchesMeetingFilters(activity: ActivityData, filters: MeetingFilters): boolean {
+  const schedule = getNormalizedSchedule(activity);
+  if (filters.day && !schedule.weekdays.includes(filters.day)) return false;
+  if (filters.startAfter && (!schedule.startTime || schedule.startTime < filters.startAfter)) return false;
+  if (filters.endBefore && (!schedule.endTime || schedule.endTime > filters.endBefore)) return false;
+
+  const location = activity.meeting?.location;
+  if (filters.site) {
+    const site = String(location?.site ?? '').toLowerCase();
+    if (!site.includes(filters.site.toLowerCase())) return false;
+  }
+  if (filters.room) {
+    const room = String(location?.room ?? '').trim().toLowerCase();
+    if (room !== filters.room.toLowerCase()) return false;
+  }
+  return true;
+}
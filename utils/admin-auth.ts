@@ -0,0 +1,49 @@
+// utils/admin-auth.ts
+import { createHash, timingSafeEqual } from 'crypto';
+import { config } from 'dotenv';
+import type { Request, Response, NextFunction } from 'express';
+import { logger } from './logger';
+
+config();
+
+// Comma-separated list of keys accepted by the admin API. Empty disables the admin API.
+const ADMIN_API_KEYS = (process.env.ADMIN_API_KEYS || '')
+  .split(',')
+  .map(key => key.trim())
+  .filter(Boolean);
+
+// Hashing first gives equal-length buffers, which timingSafeEqual requires
+const adminKeyDigests = ADMIN_API_KEYS.map(key => createHash('sha256').update(key).digest());
+
+function extractApiKey(req: Request): string | null {
+  const header = req.headers.authorization;
+  if (typeof header === 'string' && header.startsWith('Bearer ')) {
+    return header.slice('Bearer '.length).trim();
+  }
+  const apiKey = req.headers['x-api-key'];
+  return typeof apiKey === 'string' ? apiKey.trim() : null;
+}
+
+/**
+ * Express middleware that only lets requests with a valid admin API key through.
+ * Keys are sent as "Authorization: Bearer <key>" or "X-API-Key: <key>".
+ */
+export function requireAdminApiKey(req: Request, res: Response, next: NextFunction): void {
+  if (adminKeyDigests.length === 0) {
+    res.status(503).json({ error: 'Admin API is disabled. Set ADMIN_API_KEYS to enable it.' });
+    return;
+  }
+  const apiKey = extractApiKey(req);
+  if (!apiKey) {
+    res.status(401).json({ error: 'Missing admin API key.' });
+    return;
+  }
+  const digest = createHash('sha256').update(apiKey).digest();
+  const isValid = adminKeyDigests.some(allowed => timingSafeEqual(allowed, digest));
+  if (!isValid) {
+    logger.warn(`Rejected admin request with invalid API key: ${req.method} ${req.originalUrl}`);
+    res.status(401).json({ error: 'Invalid admin API key.' });
+    return;
+  }
+  next();
+}
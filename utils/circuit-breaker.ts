@@ -0,0 +1,200 @@
+// utils/circuit-breaker.ts
+/**
+ * Circuit breaker for calls to an unreliable upstream
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number; // consecutive failures that open the circuit
+  openDurationMs: number; // how long the circuit stays open before probing
+  halfOpenProbes: number; // requests let through while half-open; all must succeed to close
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  retryAt: string | null; // when an open circuit starts probing
+  lastFailure: string | null;
+  totalOpens: number;
+}
+
+// Thrown instead of making a request while the circuit is open
+export class CircuitOpenError extends Error {
+  retryAt: number;
+
+  constructor(name: string, retryAt: number) {
+    super(`Circuit "${name}" is open; not sending request.`);
+    this.name = 'CircuitOpenError';
+    this.retryAt = retryAt;
+  }
+}
+
+/**
+ * Closed: requests flow, consecutive failures are counted.
+ * Open: requests are refused until openDurationMs has passed.
+ * Half-open: a few probe requests go through; if they all succeed the circuit closes,
+ * if any fails it opens again.
+ */
+export class CircuitBreaker {
+  readonly name: string;
+  private readonly options: CircuitBreakerOptions;
+  private readonly now: () => number;
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+  private probesInFlight = 0;
+  private probeSuccesses = 0;
+  private lastFailure: string | null = null;
+  private totalOpens = 0;
+  private listeners: Array<(state: CircuitState) => void> = [];
+
+  constructor(name: string, options: CircuitBreakerOptions, now: () => number = Date.now) {
+    this.name = name;
+    this.options = {
+      failureThreshold: Math.max(1, options.failureThreshold),
+      openDurationMs: Math.max(0, options.openDurationMs),
+      halfOpenProbes: Math.max(1, options.halfOpenProbes)
+    };
+    this.now = now;
+  }
+
+  private transition(state: CircuitState): void {
+    if (this.state === state) return;
+    this.state = state;
+    if (state === 'open') {
+      this.openedAt = this.now();
+      this.totalOpens++;
+    }
+    if (state !== 'closed') {
+      this.probesInFlight = 0;
+      this.probeSuccesses = 0;
+    }
+    for (const listener of this.listeners) listener(state);
+  }
+
+  /**
+   * Ask to make a request. Every granted request must be followed by recordSuccess or recordFailure.
+   * @returns true if the request may go ahead
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open') {
+      if (this.now() < this.openedAt + this.options.openDurationMs) return false;
+      this.transition('half-open');
+    }
+    if (this.state === 'half-open') {
+      if (this.probesInFlight + this.probeSuccesses >= this.options.halfOpenProbes) return false;
+      this.probesInFlight++;
+    }
+    return true;
+  }
+
+  /**
+   * Like tryAcquire, but throws CircuitOpenError when refused.
+   */
+  acquire(): void {
+    if (!this.tryAcquire()) {
+      throw new CircuitOpenError(this.name, this.getRetryAt());
+    }
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+      this.probeSuccesses++;
+      if (this.probeSuccesses >= this.options.halfOpenProbes) {
+        this.transition('closed');
+      }
+    }
+  }
+
+  /**
+   * A granted request was cancelled by the caller, so it says nothing about the upstream.
+   * Frees its probe slot without counting it either way.
+   */
+  recordCancelled(): void {
+    if (this.state === 'half-open') {
+      this.probesInFlight = Math.max(0, this.probesInFlight - 1);
+    }
+  }
+
+  /**
+   * @param reason - Short description, shown in the status
+   */
+  recordFailure(reason: string): void {
+    this.consecutiveFailures++;
+    this.lastFailure = reason;
+    if (this.state === 'half-open') {
+      this.transition('open');
+    } else if (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Whether a request could be made right now (an open circuit whose wait is over counts).
+   */
+  isAvailable(): boolean {
+    if (this.state === 'closed') return true;
+    if (this.state === 'open') return this.now() >= this.getRetryAt();
+    return this.probesInFlight + this.probeSuccesses < this.options.halfOpenProbes;
+  }
+
+  /**
+   * Time (ms) at which an open circuit starts probing; now for other states.
+   */
+  getRetryAt(): number {
+    return this.state === 'open' ? this.openedAt + this.options.openDurationMs : this.now();
+  }
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Subscribe to state changes.
+   * @returns A function that unsubscribes
+   */
+  onStateChange(listener: (state: CircuitState) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    const isOpen = this.state === 'open';
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt: this.state !== 'closed' && this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: isOpen ? new Date(this.getRetryAt()).toISOString() : null,
+      lastFailure: this.lastFailure,
+      totalOpens: this.totalOpens
+    };
+  }
+}
+
+/**
+ * Whether a request failed because the caller cancelled it (a stopped crawl, a fetch deadline).
+ * Matches axios cancellations, which is what axios.isCancel checks.
+ */
+export function isCancelledRequest(error: any): boolean {
+  return error?.__CANCEL__ === true || error?.code === 'ERR_CANCELED';
+}
+
+/**
+ * Classifies a failed request: a reason string if it points at an outage, otherwise undefined.
+ * A cancelled request is not an outage.
+ */
+export function describeOutage(error: any): string | undefined {
+  if (isCancelledRequest(error)) return undefined;
+  const status = error?.response?.status;
+  if (status === undefined) {
+    // No response at all: timeout, connection refused, DNS failure
+    return error?.code || error?.message || 'no response';
+  }
+  return status >= 502 && status <= 504 ? `HTTP ${status}` : undefined;
+}
@@ -0,0 +1,47 @@
+// utils/cookie-crypto.ts
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+
+/**
+ * AES-256-GCM encryption for secrets kept at rest, such as the Engage session cookies.
+ * Payloads look like "v1:<iv>:<auth tag>:<ciphertext>", each part base64.
+ */
+
+const VERSION = 'v1';
+const IV_BYTES = 12;
+
+/**
+ * Parses a 32-byte key given as 64 hex characters or as base64.
+ * @throws Error if the key is not 32 bytes
+ */
+export function parseEncryptionKey(key: string): Buffer {
+  const trimmed = key.trim();
+  const bytes = /^[0-9a-fA-F]{64}$/.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (bytes.length !== 32) {
+    throw new Error('Encryption key must be 32 bytes, given as 64 hex characters or base64');
+  }
+  return bytes;
+}
+
+/**
+ * Encrypts a string with a fresh random IV.
+ */
+export function encryptSecret(plaintext: string, key: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+  return [VERSION, iv.toString('base64'), cipher.getAuthTag().toString('base64'), ciphertext.toString('base64')].join(':');
+}
+
+/**
+ * Decrypts a payload from encryptSecret.
+ * @throws Error if the payload is malformed, was tampered with, or the key is wrong
+ */
+export function decryptSecret(payload: string, key: Buffer): string {
+  const [version, iv, tag, ciphertext] = payload.split(':');
+  if (version !== VERSION || !iv || !tag || ciphertext === undefined) {
+    throw new Error('Unrecognized encrypted payload');
+  }
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
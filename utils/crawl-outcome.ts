@@ -0,0 +1,48 @@
+// utils/crawl-outcome.ts
+
+/**
+ * Decides whether a finished crawl run counts as a successful crawl for the readiness
+ * check. A run that drained its queue can still have failed every item, e.g. while
+ * Engage was down and each item ran out of attempts.
+ */
+
+export interface CrawlOutcomeCounts {
+  attempted: number;
+  skipped: number;
+  deferred: number;
+  created: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  empty: number;
+}
+
+export interface CrawlOutcomeQueue {
+  done: number;
+  failed: number; // items that ran out of attempts
+}
+
+/**
+ * Explains why a finished run does not count as a successful crawl.
+ * @param counts - The run's report counts
+ * @param queue - The final queue state, if known
+ * @param maxFailedRatio - Largest share (0-1) of finished items that may have failed
+ * @returns The reason, or null if the run succeeded
+ */
+export function crawlFailureReason(
+  counts: CrawlOutcomeCounts,
+  queue: CrawlOutcomeQueue | null,
+  maxFailedRatio: number
+): string | null {
+  const finished = queue ? queue.done + queue.failed : 0;
+  if (queue && finished > 0 && queue.failed / finished > maxFailedRatio) {
+    return `${queue.failed} of ${finished} items failed`;
+  }
+  // Engage answering "no such activity" is still an answer
+  const fetched = counts.attempted - counts.skipped - counts.deferred;
+  const answered = counts.created + counts.updated + counts.removed + counts.unchanged + counts.empty;
+  if (fetched > 0 && answered === 0) {
+    return `none of ${fetched} fetches got an answer`;
+  }
+  return null;
+}
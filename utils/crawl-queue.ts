@@ -0,0 +1,52 @@
+// utils/crawl-queue.ts
+
+/**
+ * Decisions behind the crawl queue in services/crawl-queue.ts, kept apart from Redis: what
+ * happens to an item once a worker is done with it, and which pending items a new run keeps.
+ */
+
+export interface CrawlItemDecision {
+  status: 'done' | 'pending' | 'failed';
+  attempts: number; // attempts recorded on the item
+  // front: ahead of every pending item; back: behind every pending item of normal priority
+  requeue: 'front' | 'back' | null;
+}
+
+/**
+ * Decides where an item goes after a worker finished with it.
+ * @param outcome - What the worker reported; deferred items were not attempted
+ * @param attempts - Attempts including the one just made
+ * @param maxAttempts - Attempts after which a failing item is given up on
+ */
+export function decideCrawlItem(
+  outcome: { ok: true } | { ok: false; deferred?: boolean },
+  attempts: number,
+  maxAttempts: number
+): CrawlItemDecision {
+  if (outcome.ok) return { status: 'done', attempts, requeue: null };
+  // Not attempted: the attempt is handed back
+  if (outcome.deferred) return { status: 'pending', attempts: attempts - 1, requeue: 'front' };
+  if (attempts < maxAttempts) return { status: 'pending', attempts, requeue: 'back' };
+  return { status: 'failed', attempts, requeue: null };
+}
+
+/**
+ * Splits the pending items when a new run replaces the current one. High-priority items
+ * (API misses, admin requests) were asked for one by one and stay queued; the rest belonged
+ * to the old run and are dropped.
+ * @param pendingIds - IDs in the pending set
+ * @param states - Recorded state of each pending ID, in the same order; null if missing
+ * @returns IDs to keep, which count towards the new run's total, and IDs to drop
+ */
+export function splitPendingForReset(
+  pendingIds: string[],
+  states: ({ priority?: 'high' | 'normal' } | null)[]
+): { kept: string[]; dropped: string[] } {
+  const kept: string[] = [];
+  const dropped: string[] = [];
+  pendingIds.forEach((activityId, i) => {
+    // States written before priorities were recorded count as normal
+    (states[i]?.priority === 'high' ? kept : dropped).push(activityId);
+  });
+  return { kept, dropped };
+}
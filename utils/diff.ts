@@ -0,0 +1,94 @@
+// utils/diff.ts
+
+export interface FieldChange {
+  path: string; // dotted path, e.g. "meeting.location.room"
+  before: any;
+  after: any;
+}
+
+// Bookkeeping fields that change on every crawl without the activity itself changing.
+// normalizedSchedule is derived from schedule, meeting and duration, which are diffed already.
+export const IGNORED_DIFF_FIELDS = new Set(['lastCheck', 'cache', 'source', 'error', 'normalizedSchedule']);
+
+function isPlainObject(value: any): value is Record<string, any> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isEqualValue(a: any, b: any): boolean {
+  if (a === b) return true;
+  // Missing and null mean the same thing in structured records
+  if (a == null && b == null) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, i) => isEqualValue(item, b[i]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => isEqualValue(a[key], b[key]));
+  }
+  return false;
+}
+
+function collectChanges(before: any, after: any, path: string, changes: FieldChange[]): void {
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    for (const key of keys) {
+      if (!path && IGNORED_DIFF_FIELDS.has(key)) continue;
+      collectChanges(before[key], after[key], path ? `${path}.${key}` : key, changes);
+    }
+    return;
+  }
+  // Arrays (staff, materials, ...) are reported as whole values
+  if (!isEqualValue(before, after)) {
+    changes.push({ path, before: before ?? null, after: after ?? null });
+  }
+}
+
+/**
+ * Field-level diff between two structured activity records.
+ * Nested objects are walked so that e.g. a room change shows up as "meeting.location.room";
+ * arrays are compared as whole values. Bookkeeping fields are ignored.
+ * @param before - Previous record
+ * @param after - New record
+ * @returns The changed fields, sorted by path
+ */
+export function diffActivity(before: Record<string, any>, after: Record<string, any>): FieldChange[] {
+  const changes: FieldChange[] = [];
+  collectChanges(before, after, '', changes);
+  return changes;
+}
+
+export interface StaffMapDiff {
+  added: Record<string, string>;
+  removed: Record<string, string>;
+  renamed: Record<string, { before: string; after: string }>;
+}
+
+// Keys in the cached staff object that are not staff entries
+const STAFF_METADATA_KEYS = new Set(['lastCheck', 'cache']);
+
+/**
+ * Diff between two cached staff maps (staff ID to name).
+ * @returns Added, removed and renamed staff, or null if nothing changed
+ */
+export function diffStaffMaps(before: Record<string, any> | null, after: Record<string, any>): StaffMapDiff | null {
+  const previous = before ?? {};
+  const diff: StaffMapDiff = { added: {}, removed: {}, renamed: {} };
+  let hasChanges = false;
+
+  for (const [id, name] of Object.entries(after)) {
+    if (STAFF_METADATA_KEYS.has(id)) continue;
+    if (!(id in previous)) {
+      diff.added[id] = String(name);
+      hasChanges = true;
+    } else if (previous[id] !== name) {
+      diff.renamed[id] = { before: String(previous[id]), after: String(name) };
+      hasChanges = true;
+    }
+  }
+  for (const [id, name] of Object.entries(previous)) {
+    if (STAFF_METADATA_KEYS.has(id) || id in after) continue;
+    diff.removed[id] = String(name);
+    hasChanges = true;
+  }
+  return hasChanges ? diff : null;
+}
@@ -0,0 +1,135 @@
+// utils/engage-accounts.ts
+import { createHash } from 'crypto';
+
+/**
+ * Engage accounts the service can log in with, and when an account is taken out of use.
+ * Each account has its own session, so a locked or rotated password on one leaves the
+ * others working.
+ */
+
+export interface EngageAccount {
+  id: string; // stable short hash of the username, safe to show
+  username: string; // URL-encoded, like API_USERNAME
+  password: string; // URL-encoded, like API_PASSWORD
+  // Suffix for the account's Redis keys and cookie file; empty for the API_USERNAME account,
+  // which keeps the keys used before there were several accounts
+  storageKey: string;
+}
+
+export interface AccountHealth {
+  consecutiveLoginFailures: number;
+  quarantinedUntil: number | null; // ms timestamp
+  lastLoginAt: number | null; // last successful login, ms timestamp
+  lastLoginError: string | null;
+}
+
+export interface QuarantinePolicy {
+  maxLoginFailures: number; // consecutive failed logins before quarantine
+  quarantineMs: number;
+}
+
+/**
+ * The id of an account: the first 10 hex characters of the SHA-256 of the lowercased,
+ * decoded username.
+ */
+export function accountId(username: string): string {
+  let decoded = username;
+  try {
+    decoded = decodeURIComponent(username);
+  } catch {
+    // Not URL-encoded; use as is
+  }
+  return createHash('sha256').update(decoded.trim().toLowerCase()).digest('hex').slice(0, 10);
+}
+
+/**
+ * A Redis key (or other name) scoped to an account.
+ * @param base - The key used by the API_USERNAME account
+ * @param storageKey - EngageAccount.storageKey
+ */
+export function accountScopedKey(base: string, storageKey: string): string {
+  return storageKey ? `${base}:${storageKey}` : base;
+}
+
+/**
+ * Builds the account list: API_USERNAME/API_PASSWORD first, then the `username:password`
+ * entries of ENGAGE_ACCOUNTS, separated by commas or whitespace. Both halves are
+ * URL-encoded, so neither contains a literal `:` or `,`. Repeated usernames are dropped.
+ * @returns The accounts, and the entries that could not be parsed
+ */
+export function parseEngageAccounts(
+  list: string | undefined,
+  primary?: { username?: string; password?: string }
+): { accounts: EngageAccount[]; invalid: string[] } {
+  const accounts: EngageAccount[] = [];
+  const invalid: string[] = [];
+  const add = (username: string, password: string, storageKey: string | null) => {
+    const id = accountId(username);
+    if (accounts.some(account => account.id === id)) return;
+    accounts.push({ id, username, password, storageKey: storageKey ?? id });
+  };
+
+  if (primary?.username && primary.password) {
+    add(primary.username, primary.password, '');
+  }
+  for (const entry of (list || '').split(/[\s,]+/).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      invalid.push(entry.slice(0, separator > 0 ? separator : 3) + '…');
+      continue;
+    }
+    add(entry.slice(0, separator), entry.slice(separator + 1), null);
+  }
+  return { accounts, invalid };
+}
+
+export function initialAccountHealth(): AccountHealth {
+  return { consecutiveLoginFailures: 0, quarantinedUntil: null, lastLoginAt: null, lastLoginError: null };
+}
+
+/**
+ * Updates an account's health after a login. A success clears the failures and any
+ * quarantine; the failure that reaches the limit quarantines the account.
+ * @param error - Why the login failed; omit for a success
+ */
+export function recordLoginResult(
+  health: AccountHealth,
+  now: number,
+  policy: QuarantinePolicy,
+  error?: string
+): AccountHealth {
+  if (error === undefined) {
+    return { consecutiveLoginFailures: 0, quarantinedUntil: null, lastLoginAt: now, lastLoginError: null };
+  }
+  const consecutiveLoginFailures = health.consecutiveLoginFailures + 1;
+  return {
+    ...health,
+    consecutiveLoginFailures,
+    lastLoginError: error,
+    quarantinedUntil: consecutiveLoginFailures >= policy.maxLoginFailures ? now + policy.quarantineMs : health.quarantinedUntil
+  };
+}
+
+export function isQuarantined(health: AccountHealth, now: number): boolean {
+  return health.quarantinedUntil !== null && health.quarantinedUntil > now;
+}
+
+/**
+ * The order to try accounts in: healthy ones first, rotated by `turn` so successive
+ * requests start on different accounts, then quarantined ones as a last resort.
+ * @param turn - A counter bumped once per request
+ */
+export function orderAccounts<T extends { id: string }>(
+  accounts: T[],
+  healthById: Map<string, AccountHealth>,
+  now: number,
+  turn: number
+): T[] {
+  const usable = accounts.filter(account => !isQuarantined(healthById.get(account.id) ?? initialAccountHealth(), now));
+  const start = usable.length > 0 ? turn % usable.length : 0;
+  return [
+    ...usable.slice(start),
+    ...usable.slice(0, start),
+    ...accounts.filter(account => !usable.includes(account))
+  ];
+}
@@ -0,0 +1,50 @@
+// utils/fuzzy-match.ts
+
+/**
+ * Number of typos tolerated for a query term of the given length.
+ * Short terms must match exactly, otherwise almost everything would match.
+ */
+export function maxTypoDistance(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment variant), so a swap
+ * of two adjacent letters counts as one typo.
+ * Gives up early once the distance is known to exceed maxDistance.
+ * @param a - First string
+ * @param b - Second string
+ * @param maxDistance - Largest distance of interest
+ * @returns The distance, or maxDistance + 1 if it is larger than maxDistance
+ */
+export function editDistance(a: string, b: string, maxDistance: number): number {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  if (a === b) return 0;
+
+  let previousPrevious: number[] = [];
+  let previous: number[] = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current: number[] = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j]! + 1,
+        current[j - 1]! + 1,
+        previous[j - 1]! + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2]! + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    previousPrevious = previous;
+    previous = current;
+  }
+  return Math.min(previous[b.length]!, maxDistance + 1);
+}
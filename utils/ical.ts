@@ -0,0 +1,190 @@
+// utils/ical.ts
+import type { ActivityData, Weekday } from '../models/activity';
+import { WEEKDAYS, getNormalizedSchedule } from './schedule-parser';
+
+/**
+ * iCalendar (RFC 5545) generation for activity meeting times.
+ * Times are written in the school's time zone, with a VTIMEZONE so calendar
+ * apps show them correctly wherever the subscriber is.
+ */
+
+const CALENDAR_TZID = 'Asia/Shanghai';
+const PRODUCT_ID = '-//DSAS CCA//Activity Calendar//EN';
+const UID_DOMAIN = 'dsas-cca';
+const MAX_LINE_OCTETS = 75;
+
+const ICAL_WEEKDAYS: Record<Weekday, string> = {
+  monday: 'MO',
+  tuesday: 'TU',
+  wednesday: 'WE',
+  thursday: 'TH',
+  friday: 'FR',
+  saturday: 'SA',
+  sunday: 'SU'
+};
+
+// China has no daylight saving time, so one STANDARD block covers every date
+const VTIMEZONE_LINES = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${CALENDAR_TZID}`,
+  'BEGIN:STANDARD',
+  'DTSTART:19700101T000000',
+  'TZOFFSETFROM:+0800',
+  'TZOFFSETTO:+0800',
+  'TZNAME:CST',
+  'END:STANDARD',
+  'END:VTIMEZONE'
+];
+const SCHOOL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+/**
+ * Escapes a TEXT property value.
+ */
+function escapeText(value: string): string {
+  return value
+    .replaceAll('\\', '\\\\')
+    .replaceAll(';', '\\;')
+    .replaceAll(',', '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Quotes a parameter value such as CN. Double quotes are not allowed inside, so they are dropped.
+ */
+function quoteParam(value: string): string {
+  return `"${value.replaceAll('"', '')}"`;
+}
+
+/**
+ * Folds a content line to at most 75 octets per line without splitting UTF-8 characters.
+ */
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+  for (const char of line) {
+    const octets = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = '';
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function compactDate(isoDate: string): string {
+  return isoDate.replaceAll('-', '');
+}
+
+function compactTime(time: string): string {
+  return `${time.replace(':', '')}00`;
+}
+
+function formatUtc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Finds the first date on or after startDate that falls on one of the weekdays.
+ */
+function firstOccurrence(startDate: string, weekdays: Weekday[]): string {
+  const date = new Date(`${startDate}T00:00:00Z`);
+  for (let i = 0; i < 7; i++) {
+    // getUTCDay() is 0 for Sunday; WEEKDAYS starts on Monday
+    const weekday = WEEKDAYS[(date.getUTCDay() + 6) % 7]!;
+    if (weekdays.includes(weekday)) break;
+    date.setUTCDate(date.getUTCDate() + 1);
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Builds the VEVENT lines for one activity.
+ * @returns The lines, or null if the activity has no usable day, times and start date
+ */
+function buildActivityEvent(activity: ActivityData, dtstamp: string): string[] | null {
+  const schedule = getNormalizedSchedule(activity);
+  if (!activity.id || schedule.weekdays.length === 0 || !schedule.startTime || !schedule.endTime || !schedule.startDate) {
+    return null;
+  }
+
+  const firstDate = firstOccurrence(schedule.startDate, schedule.weekdays);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:activity-${activity.id}@${UID_DOMAIN}`,
+    `DTSTAMP:${dtstamp}`,
+    `DTSTART;TZID=${CALENDAR_TZID}:${compactDate(firstDate)}T${compactTime(schedule.startTime)}`,
+    `DTEND;TZID=${CALENDAR_TZID}:${compactDate(firstDate)}T${compactTime(schedule.endTime)}`
+  ];
+
+  if (schedule.isRecurringWeekly) {
+    let rule = `RRULE:FREQ=WEEKLY;BYDAY=${schedule.weekdays.map(day => ICAL_WEEKDAYS[day]).join(',')}`;
+    if (schedule.endDate) {
+      // UNTIL must be in UTC when DTSTART has a TZID; include the whole last day
+      const until = new Date(new Date(`${schedule.endDate}T23:59:59Z`).getTime() - SCHOOL_UTC_OFFSET_MS);
+      rule += `;UNTIL=${formatUtc(until)}`;
+    }
+    lines.push(rule);
+  }
+
+  lines.push(`SUMMARY:${escapeText(activity.name ?? `Activity ${activity.id}`)}`);
+  if (activity.description) {
+    lines.push(`DESCRIPTION:${escapeText(activity.description)}`);
+  }
+  const location = activity.meeting?.location;
+  const locationText = [location?.room, location?.block, location?.site].filter(Boolean).join(', ');
+  if (locationText) {
+    lines.push(`LOCATION:${escapeText(locationText)}`);
+  }
+  if (activity.category) {
+    lines.push(`CATEGORIES:${escapeText(activity.category)}`);
+  }
+  // Staff have no published e-mail address; "invalid:nomail" is the conventional placeholder
+  for (const staffName of activity.staff ?? []) {
+    if (!staffName) continue;
+    lines.push(`ATTENDEE;CN=${quoteParam(staffName)};CUTYPE=INDIVIDUAL;ROLE=CHAIR:invalid:nomail`);
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Whether the activity has enough schedule data to appear in a calendar.
+ */
+export function hasCalendarEvent(activity: ActivityData): boolean {
+  return buildActivityEvent(activity, '') !== null;
+}
+
+/**
+ * Builds an iCalendar document with one (usually recurring) event per activity.
+ * Activities without a usable meeting day, times and start date are left out.
+ * @param activities - Activities to include
+ * @param calendarName - Name shown by calendar apps
+ * @param now - Timestamp for DTSTAMP
+ * @returns The calendar as a CRLF-separated string
+ */
+export function buildActivityCalendar(activities: ActivityData[], calendarName: string, now: Date = new Date()): string {
+  const dtstamp = formatUtc(now);
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(calendarName)}`,
+    `X-WR-TIMEZONE:${CALENDAR_TZID}`,
+    ...VTIMEZONE_LINES
+  ];
+  for (const activity of activities) {
+    const eventLines = buildActivityEvent(activity, dtstamp);
+    if (eventLines) lines.push(...eventLines);
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,96 @@
+// utils/id-range.ts
+
+// Activity IDs are at most four digits (see the /v1/activity/:activityId validation)
+export const MAX_ACTIVITY_ID = 9999;
+
+export interface IdRange {
+  min: number;
+  max: number;
+}
+
+/**
+ * Consecutive empty responses for an ID, and when it may be probed again.
+ */
+export interface EmptyProbeState {
+  emptyCount: number;
+  nextProbeAt: number; // ms timestamp
+}
+
+/**
+ * Computes the range a scan should cover. Without a learned range the configured one is used;
+ * once activities have been found the scan starts at the lowest one and extends past the
+ * highest one by probeAhead, so new activities are picked up as they are created.
+ * @param configured - MIN/MAX_ACTIVITY_ID_SCAN
+ * @param learned - Lowest and highest IDs that returned data, if any
+ * @param probeAhead - IDs to probe past the highest known one
+ */
+export function planScanRange(configured: IdRange, learned: IdRange | null, probeAhead: number): IdRange {
+  if (!learned) {
+    return { min: configured.min, max: Math.min(configured.max, MAX_ACTIVITY_ID) };
+  }
+  return {
+    min: Math.max(0, learned.min),
+    max: Math.min(Math.max(learned.max + probeAhead, learned.min), MAX_ACTIVITY_ID)
+  };
+}
+
+/**
+ * IDs just past the highest known one.
+ */
+export function probeAheadIds(learned: IdRange | null, probeAhead: number): string[] {
+  if (!learned) return [];
+  const ids: string[] = [];
+  for (let id = learned.max + 1; id <= Math.min(learned.max + probeAhead, MAX_ACTIVITY_ID); id++) {
+    ids.push(String(id));
+  }
+  return ids;
+}
+
+/**
+ * Delay before an ID that keeps returning nothing is probed again: baseMs after the first
+ * empty response, doubling with each further one, up to maxMs.
+ */
+export function emptyProbeBackoffMs(emptyCount: number, baseMs: number, maxMs: number): number {
+  if (emptyCount <= 0) return 0;
+  // Cap the exponent so large counts cannot overflow to Infinity
+  return Math.min(baseMs * 2 ** Math.min(emptyCount - 1, 30), maxMs);
+}
+
+/**
+ * Records one more empty response for an ID.
+ * @param previous - The ID's state before this probe, if it had returned empty before
+ * @param now - Time of the probe (ms)
+ */
+export function nextEmptyProbeState(
+  previous: EmptyProbeState | null,
+  now: number,
+  baseMs: number,
+  maxMs: number
+): EmptyProbeState {
+  const emptyCount = (previous?.emptyCount ?? 0) + 1;
+  return { emptyCount, nextProbeAt: now + emptyProbeBackoffMs(emptyCount, baseMs, maxMs) };
+}
+
+// back-off: nothing listed is cached, probe the ID less often; keep: leave the listed
+// activity as it is; remove: the listed activity is gone
+export type EmptyAnswerAction = 'back-off' | 'keep' | 'remove';
+
+/**
+ * Decides what an empty answer from Engage does to an ID. Engage sometimes answers that way
+ * for a live activity, so a listed activity is only removed once it has answered empty
+ * removeAfter times in a row.
+ * @param listed - Whether a listable record is cached for the ID
+ * @param consecutiveEmpty - Empty answers in a row while listed, this one included
+ * @param removeAfter - Empty answers in a row that remove a listed activity; 0 = never
+ */
+export function emptyAnswerAction(listed: boolean, consecutiveEmpty: number, removeAfter: number): EmptyAnswerAction {
+  if (!listed) return 'back-off';
+  return removeAfter > 0 && consecutiveEmpty >= removeAfter ? 'remove' : 'keep';
+}
+
+/**
+ * Whether an ID may be probed now.
+ */
+export function isProbeDue(state: EmptyProbeState | null | undefined, now: number): boolean {
+  return !state || state.nextProbeAt <= now;
+}
@@ -0,0 +1,119 @@
+// utils/metrics.ts
+import { Registry, Counter, Histogram, Gauge, collectDefaultMetrics } from 'prom-client';
+import type { Request, Response, NextFunction } from 'express';
+
+/**
+ * Prometheus metrics, served at /metrics. Modules record into the metrics defined here;
+ * label values are kept to small fixed sets so series counts stay bounded.
+ */
+
+export const metricsRegistry = new Registry();
+collectDefaultMetrics({ register: metricsRegistry });
+
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests by route, status and cache result',
+  labelNames: ['method', 'route', 'status', 'cache'] as const,
+  registers: [metricsRegistry]
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration by route and status',
+  labelNames: ['method', 'route', 'status'] as const,
+  buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [metricsRegistry]
+});
+
+// success, empty (no data or isError), auth (500 = expired cookie, 401, 403),
+// server_error (other 5xx), timeout, error (anything else)
+export type EngageFetchOutcome = 'success' | 'empty' | 'auth' | 'server_error' | 'timeout' | 'error';
+
+export const engageFetchDuration = new Histogram({
+  name: 'engage_fetch_duration_seconds',
+  help: 'Engage activity detail requests by outcome, one per attempt',
+  labelNames: ['outcome'] as const,
+  buckets: [0.1, 0.25, 0.5, 1, 2, 5, 10, 20, 30],
+  registers: [metricsRegistry]
+});
+
+export const engageLoginAttempts = new Counter({
+  name: 'engage_login_attempts_total',
+  help: 'Engage logins by strategy (playwright, http) and result',
+  labelNames: ['strategy', 'result'] as const,
+  registers: [metricsRegistry]
+});
+
+export const engageLoginDuration = new Histogram({
+  name: 'engage_login_duration_seconds',
+  help: 'Engage login duration by strategy and result',
+  labelNames: ['strategy', 'result'] as const,
+  buckets: [1, 2.5, 5, 10, 20, 30, 60, 120],
+  registers: [metricsRegistry]
+});
+
+// Set on each scrape, see updateCrawlMetrics
+export const crawlQueueItems = new Gauge({
+  name: 'crawl_queue_items',
+  help: 'Crawl queue items by status (pending, in_flight), across all instances',
+  labelNames: ['status'] as const,
+  registers: [metricsRegistry]
+});
+
+export const engageConcurrencyLimit = new Gauge({
+  name: 'engage_concurrency_limit',
+  help: 'Current adaptive limit on parallel Engage requests of this instance',
+  registers: [metricsRegistry]
+});
+
+export const engageRateLimitWaiting = new Gauge({
+  name: 'engage_rate_limit_waiting',
+  help: 'Requests on this instance waiting for an Engage rate limit token',
+  registers: [metricsRegistry]
+});
+
+// uploaded, deduplicated (same image already in S3), failed
+export const s3ImageUploads = new Counter({
+  name: 's3_image_uploads_total',
+  help: 'Activity images sent to S3 by result',
+  labelNames: ['result'] as const,
+  registers: [metricsRegistry]
+});
+
+export const redisCommandDuration = new Histogram({
+  name: 'redis_command_duration_seconds',
+  help: 'Redis command latency by command and result',
+  labelNames: ['command', 'result'] as const,
+  buckets: [0.0005, 0.001, 0.0025, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 1],
+  registers: [metricsRegistry]
+});
+
+/**
+ * Starts a timer; the returned function gives the elapsed seconds.
+ */
+export function startTimer(): () => number {
+  const startedAt = performance.now();
+  return () => (performance.now() - startedAt) / 1000;
+}
+
+/**
+ * Express middleware counting requests by route template (e.g. /v1/activity/:activityId)
+ * and, for JSON responses with a `cache` field, by cache result.
+ */
+export function httpMetricsMiddleware(req: Request, res: Response, next: NextFunction): void {
+  const elapsed = startTimer();
+  let cache = 'none';
+  const json = res.json.bind(res);
+  res.json = (body?: any) => {
+    if (body && typeof body.cache === 'string') cache = body.cache;
+    return json(body);
+  };
+  res.on('finish', () => {
+    // Unmatched paths share one label so scanners cannot create new series
+    const route = req.route?.path ? `${req.baseUrl}${req.route.path}` : 'unmatched';
+    const labels = { method: req.method, route, status: String(res.statusCode) };
+    httpRequestsTotal.inc({ ...labels, cache });
+    httpRequestDuration.observe(labels, elapsed());
+  });
+  next();
+}
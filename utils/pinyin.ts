@@ -0,0 +1,51 @@
+// utils/pinyin.ts
+import { pinyin } from 'pinyin-pro';
+
+/**
+ * A pinyin search term and the Han text it was derived from.
+ * The source is what gets highlighted when the term matches.
+ */
+export interface PinyinTerm {
+  term: string;
+  source: string;
+}
+
+const HAN_RUN_RE = /\p{Script=Han}+/gu;
+
+/**
+ * Transliterates every Han run in the text into toneless pinyin search terms.
+ * Uses the dictionary bundled with pinyin-pro, so no network access is needed.
+ * For "学生社团" this yields:
+ * - syllables: xue, sheng, she, tuan
+ * - adjacent pairs: xuesheng, shengshe, shetuan
+ * - the whole run: xueshengshetuan
+ * - initials: xsst
+ * ü is written as v ("lv"), the way it is typed on a keyboard.
+ * @param text - Text that may contain Chinese
+ * @returns Pinyin terms, empty if the text has no Han characters
+ */
+export function toPinyinTerms(text: string): PinyinTerm[] {
+  const terms: PinyinTerm[] = [];
+  for (const match of text.matchAll(HAN_RUN_RE)) {
+    const run = match[0];
+    const chars = [...run];
+    const syllables = pinyin(run, { toneType: 'none', type: 'array', v: true })
+      .map(s => s.toLowerCase());
+    // Should not happen for Han input, but the source mapping relies on it
+    if (syllables.length !== chars.length) continue;
+
+    syllables.forEach((syllable, i) => {
+      terms.push({ term: syllable, source: chars[i]! });
+      if (i + 1 < syllables.length) {
+        terms.push({ term: syllable + syllables[i + 1], source: chars[i]! + chars[i + 1] });
+      }
+    });
+    if (chars.length > 2) {
+      terms.push({ term: syllables.join(''), source: run });
+    }
+    if (chars.length > 1) {
+      terms.push({ term: syllables.map(s => s[0]).join(''), source: run });
+    }
+  }
+  return terms;
+}
@@ -0,0 +1,140 @@
+// utils/rate-limiter.ts
+/**
+ * Token-bucket rate limiting and retry backoff for outgoing requests
+ */
+
+/**
+ * Anything that can make a caller wait for its turn.
+ */
+export interface RateLimiter {
+  /**
+   * Wait until a request may be made. Rejects if the signal aborts while waiting.
+   */
+  acquire(signal?: AbortSignal): Promise<void>;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Token bucket: holds up to `capacity` tokens and gains `ratePerMinute` tokens per minute.
+ * Each request takes one token; callers wait in FIFO order when the bucket is empty.
+ * Over any minute at most ratePerMinute + capacity - 1 requests go out, so a capacity
+ * of 1 makes ratePerMinute a hard ceiling with requests evenly spaced.
+ */
+export class TokenBucket implements RateLimiter {
+  private readonly capacity: number;
+  private readonly msPerToken: number;
+  private tokens: number;
+  private lastRefill: number;
+  private queue: Waiter[] = [];
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private readonly now: () => number;
+
+  constructor(ratePerMinute: number, capacity: number = 1, now: () => number = Date.now) {
+    if (ratePerMinute <= 0) {
+      throw new Error('Token bucket rate must be positive');
+    }
+    if (capacity < 1) {
+      throw new Error('Token bucket capacity must be at least 1');
+    }
+    this.capacity = capacity;
+    this.msPerToken = 60000 / ratePerMinute;
+    this.tokens = capacity;
+    this.now = now;
+    this.lastRefill = now();
+  }
+
+  private refill(): void {
+    const now = this.now();
+    const elapsed = now - this.lastRefill;
+    if (elapsed <= 0) return;
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed / this.msPerToken);
+    this.lastRefill = now;
+  }
+
+  /**
+   * Take a token if one is available and nobody is queued ahead.
+   * @returns 0 if a token was taken, otherwise the ms until one will be available
+   */
+  tryTake(): number {
+    this.refill();
+    if (this.queue.length === 0 && this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - this.tokens) * this.msPerToken);
+  }
+
+  async acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      throw new Error('Aborted while waiting for rate limiter');
+    }
+    if (this.tryTake() === 0) return;
+
+    return new Promise<void>((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(new Error('Aborted while waiting for rate limiter'));
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.schedule();
+    });
+  }
+
+  private schedule(): void {
+    if (this.timer || this.queue.length === 0) return;
+    this.refill();
+    const waitMs = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) * this.msPerToken);
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.refill();
+      while (this.queue.length > 0 && this.tokens >= 1) {
+        const waiter = this.queue.shift()!;
+        this.tokens -= 1;
+        if (waiter.signal && waiter.onAbort) {
+          waiter.signal.removeEventListener('abort', waiter.onAbort);
+        }
+        waiter.resolve();
+      }
+      this.schedule();
+    }, waitMs);
+  }
+
+  /**
+   * Get number of callers waiting for a token.
+   */
+  getWaitingCount(): number {
+    return this.queue.length;
+  }
+}
+
+/**
+ * Create a limiter for a requests-per-minute setting.
+ * @param requestsPerMinute - Ceiling; 0 or less means unlimited
+ * @param burst - Requests allowed back to back before spacing kicks in
+ * @returns The limiter, or null when unlimited
+ */
+export function createRateLimiter(requestsPerMinute: number, burst: number = 1): TokenBucket | null {
+  if (!Number.isFinite(requestsPerMinute) || requestsPerMinute <= 0) return null;
+  return new TokenBucket(requestsPerMinute, Math.max(1, burst));
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): exponential from baseMs, capped at maxMs,
+ * with "equal jitter" so the delay is between half and all of the exponential value.
+ * @param random - Source of randomness in [0, 1), for tests
+ */
+export function retryBackoffMs(attempt: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+  // Cap the exponent so large attempt counts cannot overflow to Infinity
+  const exponential = Math.min(baseMs * 2 ** Math.min(Math.max(attempt - 1, 0), 30), maxMs);
+  return Math.round(exponential / 2 + random() * exponential / 2);
+}
@@ -0,0 +1,152 @@
+// utils/refresh-policy.ts
+import { getNormalizedSchedule } from './schedule-parser';
+import type { ActivityData } from '../models/activity';
+
+/**
+ * Decides how often a cached activity is re-fetched. Activities people are looking at right
+ * now (this year's, during sign-up or while they run, or ones that keep changing) are "hot";
+ * past academic years are "cold"; everything else is "warm".
+ */
+
+export type RefreshTier = 'hot' | 'warm' | 'cold';
+
+// Order in which stale activities are queued
+export const REFRESH_TIER_ORDER: Record<RefreshTier, number> = { hot: 0, warm: 1, cold: 2 };
+
+// A yearly date window such as a sign-up season; may wrap over the new year
+export interface SeasonWindow {
+  start: string; // "MM-DD"
+  end: string; // "MM-DD", inclusive
+}
+
+export interface RefreshPolicyConfig {
+  intervalsMs: Record<RefreshTier, number>;
+  academicYearStartMonth: number; // 1-12; the year "2024/2025" starts in this month of 2024
+  signupSeasons: SeasonWindow[];
+  upcomingDays: number; // activities starting within this many days are hot
+  volatileChangeCount: number; // this many recent changes moves an activity up a tier
+}
+
+export interface RefreshDecision {
+  tier: RefreshTier;
+  nextCheckAt: number; // ms timestamp
+  reason: string;
+}
+
+// Engage runs in China, which has no daylight saving time
+const SCHOOL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Today's date at the school, as "YYYY-MM-DD".
+ */
+function schoolDate(now: Date): string {
+  return new Date(now.getTime() + SCHOOL_UTC_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Parses season windows like "08-15..09-15,01-05..01-20".
+ * Malformed entries are skipped.
+ */
+export function parseSeasonWindows(spec: string | undefined): SeasonWindow[] {
+  if (!spec) return [];
+  const windows: SeasonWindow[] = [];
+  for (const part of spec.split(',')) {
+    const match = part.trim().match(/^(\d{2}-\d{2})\.\.(\d{2}-\d{2})$/);
+    if (match) windows.push({ start: match[1]!, end: match[2]! });
+  }
+  return windows;
+}
+
+/**
+ * Whether a date falls in any of the windows.
+ */
+export function isInSeason(now: Date, windows: SeasonWindow[]): boolean {
+  const monthDay = schoolDate(now).slice(5);
+  return windows.some(({ start, end }) =>
+    start <= end ? monthDay >= start && monthDay <= end : monthDay >= start || monthDay <= end
+  );
+}
+
+/**
+ * The academic year in progress, e.g. "2024/2025".
+ */
+export function currentAcademicYear(now: Date, startMonth: number): string {
+  const [year, month] = schoolDate(now).split('-').map(Number) as [number, number];
+  const startYear = month >= startMonth ? year : year - 1;
+  return `${startYear}/${startYear + 1}`;
+}
+
+function academicStartYear(academicYear: string | null | undefined): number | null {
+  const match = academicYear?.match(/^(\d{4})\/\d{4}$/);
+  return match ? parseInt(match[1]!, 10) : null;
+}
+
+function promote(tier: RefreshTier): RefreshTier {
+  return tier === 'cold' ? 'warm' : 'hot';
+}
+
+/**
+ * Decides an activity's refresh tier and next check time.
+ * @param activity - The cached record
+ * @param recentChanges - Changes recorded for it recently (see the change history)
+ * @param now - Current time
+ * @param config - Policy settings
+ */
+export function decideRefresh(
+  activity: ActivityData,
+  recentChanges: number,
+  now: Date,
+  config: RefreshPolicyConfig
+): RefreshDecision {
+  const lastCheck = activity.lastCheck ? new Date(activity.lastCheck).getTime() : NaN;
+  const base = Number.isNaN(lastCheck) ? now.getTime() : lastCheck;
+  const decide = (tier: RefreshTier, reason: string): RefreshDecision =>
+    ({ tier, nextCheckAt: base + config.intervalsMs[tier], reason });
+
+  // Failed fetches are retried soon; the record is not trustworthy enough to classify
+  if (activity.error) return decide('hot', 'error');
+
+  let tier: RefreshTier;
+  let reason: string;
+  const activityYear = academicStartYear(activity.academicYear);
+  const currentYear = academicStartYear(currentAcademicYear(now, config.academicYearStartMonth))!;
+  const today = schoolDate(now);
+  const { startDate, endDate } = getNormalizedSchedule(activity);
+
+  if (activityYear === null) {
+    tier = 'warm';
+    reason = 'unknown academic year';
+  } else if (activityYear < currentYear) {
+    tier = 'cold';
+    reason = 'past academic year';
+  } else if (isInSeason(now, config.signupSeasons)) {
+    tier = 'hot';
+    reason = 'sign-up season';
+  } else if (startDate && startDate <= today && (!endDate || endDate >= today)) {
+    tier = 'hot';
+    reason = 'running';
+  } else if (startDate && startDate > today && new Date(`${startDate}T00:00:00Z`).getTime() - new Date(`${today}T00:00:00Z`).getTime() <= config.upcomingDays * DAY_MS) {
+    tier = 'hot';
+    reason = 'starting soon';
+  } else {
+    tier = 'warm';
+    reason = activityYear > currentYear ? 'next academic year' : 'current academic year';
+  }
+
+  if (tier !== 'hot' && config.volatileChangeCount > 0 && recentChanges >= config.volatileChangeCount) {
+    tier = promote(tier);
+    reason = `${reason}, changed ${recentChanges} times recently`;
+  }
+  return decide(tier, reason);
+}
+
+/**
+ * Orders due activities: hotter tiers first, then the longest overdue.
+ */
+export function compareRefreshPriority(
+  a: { tier: RefreshTier; nextCheckAt: number },
+  b: { tier: RefreshTier; nextCheckAt: number }
+): number {
+  return REFRESH_TIER_ORDER[a.tier] - REFRESH_TIER_ORDER[b.tier] || a.nextCheckAt - b.nextCheckAt;
+}
@@ -0,0 +1,283 @@
+// utils/schedule-parser.ts
+import type { ActivityData, GradeRange, NormalizedSchedule, SchoolStage, Weekday } from '../models/activity';
+
+export const WEEKDAYS: Weekday[] = ['monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday'];
+
+// Bump when NormalizedSchedule gains fields, so entries cached with the old shape are re-derived
+export const NORMALIZED_SCHEDULE_VERSION = 2;
+
+// Every grade in school order. A grade's position is its ordinal for range comparisons.
+export const GRADE_LABELS: string[] = [
+  'KG1', 'KG2', 'KG3',
+  ...Array.from({ length: 12 }, (_, i) => `G${i + 1}`)
+];
+// Highest grade counted as primary; G6 and above are secondary
+const PRIMARY_MAX_GRADE = 5;
+
+// Engage runs in China, which has no daylight saving time
+const SCHOOL_UTC_OFFSET_MS = 8 * 60 * 60 * 1000;
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Chinese day numerals as used in 周一 / 星期一 / 礼拜一; 日 and 天 are Sunday
+const CHINESE_WEEKDAYS: Record<string, Weekday> = {
+  '一': 'monday',
+  '二': 'tuesday',
+  '三': 'wednesday',
+  '四': 'thursday',
+  '五': 'friday',
+  '六': 'saturday',
+  '日': 'sunday',
+  '天': 'sunday'
+};
+
+/**
+ * Parses a weekday name into its enumerated form.
+ * Accepts full names, abbreviations of at least two letters ("Tu", "Tue", "Tues") and Chinese (周二, 星期二).
+ * @param raw - A single day name
+ * @returns The weekday, or null if unrecognised
+ */
+export function parseWeekday(raw: string): Weekday | null {
+  const value = raw.trim().toLowerCase().replace(/\.$/, '');
+  if (!value) return null;
+
+  const chinese = value.match(/^(?:周|星期|礼拜)([一二三四五六日天])$/);
+  if (chinese) return CHINESE_WEEKDAYS[chinese[1]!] ?? null;
+
+  if (value.length < 2) return null;
+  return WEEKDAYS.find(day => day.startsWith(value)) ?? null;
+}
+
+/**
+ * Parses the raw meeting day field, which may name several days
+ * ("Monday, Wednesday", "Tue & Thu", "周一/周三").
+ * @param raw - Raw day string from Engage
+ * @returns Recognised weekdays in week order, without duplicates
+ */
+export function parseWeekdays(raw: string | null | undefined): Weekday[] {
+  if (!raw) return [];
+  const days = new Set<Weekday>();
+  for (const part of raw.split(/\s*(?:,|&|\/|;|、|\band\b|\s)\s*/i)) {
+    const day = parseWeekday(part);
+    if (day) days.add(day);
+  }
+  return WEEKDAYS.filter(day => days.has(day));
+}
+
+/**
+ * Parses a clock time into 24-hour "HH:mm".
+ * Accepts "15:30", "15:30:00", "3:30 PM", "3:30pm", "3 PM" and "15.30".
+ * @param raw - Raw time string from Engage or a query parameter
+ * @returns Normalized time, or null if unrecognised
+ */
+export function parseClockTime(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const match = raw.trim().match(/^(\d{1,2})(?:[:.](\d{2}))?(?::\d{2})?\s*([ap])?\.?\s*(?:m\.?)?$/i);
+  if (!match) return null;
+
+  let hours = parseInt(match[1]!, 10);
+  const minutes = match[2] ? parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  // A bare hour without minutes or am/pm is too ambiguous to be a time
+  if (!match[2] && !meridiem) return null;
+
+  if (meridiem) {
+    if (hours < 1 || hours > 12) return null;
+    if (meridiem === 'a' && hours === 12) hours = 0;
+    if (meridiem === 'p' && hours !== 12) hours += 12;
+  }
+  if (hours > 23 || minutes > 59) return null;
+  return `${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects impossible dates such as 31/02, which Date would roll over
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Parses a date into ISO "YYYY-MM-DD".
+ * Accepts "2024-09-02", "2024/09/02", "02/09/2024" (day first, as Engage formats dates),
+ * "2 Sep 2024", "Sep 2, 2024" and ASP.NET "/Date(1725206400000)/".
+ * @param raw - Raw date string from Engage
+ * @returns Normalized date, or null if unrecognised
+ */
+export function parseDate(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const value = raw.trim();
+
+  const aspNet = value.match(/^\/Date\((-?\d+)(?:[+-]\d{4})?\)\/$/);
+  if (aspNet) {
+    return new Date(parseInt(aspNet[1]!, 10) + SCHOOL_UTC_OFFSET_MS).toISOString().slice(0, 10);
+  }
+
+  let match = value.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})(?:[T\s].*)?$/);
+  if (match) return toIsoDate(+match[1]!, +match[2]!, +match[3]!);
+
+  match = value.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})(?:\s.*)?$/);
+  if (match) return toIsoDate(+match[3]!, +match[2]!, +match[1]!);
+
+  match = value.match(/^(\d{1,2})(?:st|nd|rd|th)?\s+([a-z]{3})[a-z]*\.?,?\s+(\d{4})$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[2]!.toLowerCase());
+    return month === -1 ? null : toIsoDate(+match[3]!, month + 1, +match[1]!);
+  }
+
+  match = value.match(/^([a-z]{3})[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?,?\s+(\d{4})$/i);
+  if (match) {
+    const month = MONTHS.indexOf(match[1]!.toLowerCase());
+    return month === -1 ? null : toIsoDate(+match[3]!, month + 1, +match[2]!);
+  }
+  return null;
+}
+
+/**
+ * Derives the term and semester from the raw schedule string.
+ * Falls back to the start date when the schedule names no term:
+ * August to January is semester 1, February to July is semester 2.
+ * @param schedule - Raw schedule string, e.g. "2024/2025 S1 G6-12"
+ * @param startDate - Normalized start date, if known
+ */
+export function parseTerm(
+  schedule: string | null | undefined,
+  startDate: string | null
+): { term: string | null; semester: 1 | 2 | null } {
+  const value = schedule ?? '';
+
+  if (/full[\s-]*year|whole[\s-]*year|全年/i.test(value)) {
+    return { term: 'FY', semester: null };
+  }
+  const semester = value.match(/\b(?:S|Sem(?:ester)?\s*)([12])\b/i);
+  if (semester) {
+    const n = parseInt(semester[1]!, 10) as 1 | 2;
+    return { term: `S${n}`, semester: n };
+  }
+  if (/第一学期|上学期/.test(value)) return { term: 'S1', semester: 1 };
+  if (/第二学期|下学期/.test(value)) return { term: 'S2', semester: 2 };
+
+  const term = value.match(/\b(?:T|Term\s*)([1-3])\b/i);
+  if (term) {
+    const n = parseInt(term[1]!, 10);
+    // Term 1 is autumn; terms 2 and 3 fall in the second semester
+    return { term: `T${n}`, semester: n === 1 ? 1 : 2 };
+  }
+
+  if (startDate) {
+    const month = parseInt(startDate.slice(5, 7), 10);
+    return { term: null, semester: month >= 8 || month === 1 ? 1 : 2 };
+  }
+  return { term: null, semester: null };
+}
+
+/**
+ * School stage a grade label belongs to.
+ */
+export function gradeStage(label: string): SchoolStage {
+  if (label.startsWith('KG')) return 'kg';
+  return parseInt(label.slice(1), 10) <= PRIMARY_MAX_GRADE ? 'primary' : 'secondary';
+}
+
+/**
+ * Position of a grade label in school order, or -1 if unknown.
+ */
+export function gradeOrdinal(label: string): number {
+  return GRADE_LABELS.indexOf(label);
+}
+
+/**
+ * Normalizes a grade as given by a user: "7", "G7", "Grade 7", "KG2" or "K2".
+ * @returns The grade label, or null if it is not a known grade
+ */
+export function parseGradeLabel(raw: string | null | undefined): string | null {
+  if (!raw) return null;
+  const value = raw.trim().toUpperCase();
+  const kg = value.match(/^KG?\s*(\d)$/);
+  if (kg) return GRADE_LABELS.includes(`KG${kg[1]}`) ? `KG${kg[1]}` : null;
+  const grade = value.match(/^(?:G|GRADE\s*|Y)?\s*(\d{1,2})$/);
+  if (grade) {
+    const label = `G${parseInt(grade[1]!, 10)}`;
+    return GRADE_LABELS.includes(label) ? label : null;
+  }
+  return null;
+}
+
+function buildGradeRange(minLabel: string, maxLabel: string): GradeRange | null {
+  const minOrdinal = gradeOrdinal(minLabel);
+  const maxOrdinal = gradeOrdinal(maxLabel);
+  if (minOrdinal === -1 || maxOrdinal === -1 || minOrdinal > maxOrdinal) return null;
+  const labels = GRADE_LABELS.slice(minOrdinal, maxOrdinal + 1);
+  return {
+    min: minLabel,
+    max: maxLabel,
+    stages: [...new Set(labels.map(gradeStage))],
+    labels
+  };
+}
+
+/**
+ * Parses the grade range from the raw schedule string.
+ * Unlike the legacy grades.min/max, kindergarten grades stay distinct from G1-G12:
+ * "KG1-KG3" is KG1 to KG3, not 1 to 3.
+ * @param schedule - Raw schedule string, e.g. "2024/2025 S1 G6-12" or "KG1-KG3"
+ * @returns The grade range, or null if the schedule names none
+ */
+export function parseGradeRange(schedule: string | null | undefined): GradeRange | null {
+  if (!schedule) return null;
+
+  const kgToKg = schedule.match(/\bKG?(\d)\s*-\s*KG?(\d)\b/i);
+  if (kgToKg) return buildGradeRange(`KG${kgToKg[1]}`, `KG${kgToKg[2]}`);
+
+  const kgToGrade = schedule.match(/\bKG?(\d)\s*-\s*G(\d{1,2})\b/i);
+  if (kgToGrade) return buildGradeRange(`KG${kgToGrade[1]}`, `G${parseInt(kgToGrade[2]!, 10)}`);
+
+  const gradeToGrade = schedule.match(/\bG(\d{1,2})\s*-\s*G?(\d{1,2})\b/i);
+  if (gradeToGrade) return buildGradeRange(`G${parseInt(gradeToGrade[1]!, 10)}`, `G${parseInt(gradeToGrade[2]!, 10)}`);
+
+  const singleKg = schedule.match(/\bKG(\d)\b/i);
+  if (singleKg) return buildGradeRange(`KG${singleKg[1]}`, `KG${singleKg[1]}`);
+
+  const singleGrade = schedule.match(/\bG(\d{1,2})\b/i);
+  if (singleGrade) {
+    const label = `G${parseInt(singleGrade[1]!, 10)}`;
+    return buildGradeRange(label, label);
+  }
+  return null;
+}
+
+/**
+ * Derives the normalized schedule from an activity's raw schedule, meeting and duration fields.
+ * @param activity - Structured activity data
+ * @returns The normalized schedule
+ */
+export function normalizeSchedule(activity: ActivityData): NormalizedSchedule {
+  const startDate = parseDate(activity.duration?.startDate);
+  const { term, semester } = parseTerm(activity.schedule, startDate);
+  return {
+    version: NORMALIZED_SCHEDULE_VERSION,
+    weekdays: parseWeekdays(activity.meeting?.day),
+    startTime: parseClockTime(activity.meeting?.startTime),
+    endTime: parseClockTime(activity.meeting?.endTime),
+    startDate,
+    endDate: parseDate(activity.duration?.endDate),
+    isRecurringWeekly: activity.duration?.isRecurringWeekly ?? null,
+    term,
+    semester,
+    gradeRange: parseGradeRange(activity.schedule)
+  };
+}
+
+/**
+ * Gets an activity's normalized schedule, deriving it for entries cached before it was stored
+ * or stored with an older shape.
+ */
+export function getNormalizedSchedule(activity: ActivityData): NormalizedSchedule {
+  const stored = activity.normalizedSchedule;
+  if (stored && stored.version === NORMALIZED_SCHEDULE_VERSION) {
+    return stored;
+  }
+  return normalizeSchedule(activity);
+}
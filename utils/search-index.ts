@@ -0,0 +1,379 @@
+// utils/search-index.ts
+/**
+ * In-memory inverted index with BM25 ranking for mixed Chinese/English text.
+ * Latin words and numbers are indexed as whole words. Han text has no word
+ * boundaries, so it is indexed as character unigrams and bigrams.
+ * Text is NFKC-normalized first, so full-width letters and brackets match
+ * their ASCII forms.
+ * Names and people are also indexed by pinyin (see utils/pinyin.ts), and Latin
+ * query terms that match nothing fall back to typo-tolerant matching.
+ */
+import { toPinyinTerms } from './pinyin';
+import { editDistance, maxTypoDistance } from './fuzzy-match';
+
+export type SearchField = 'name' | 'description' | 'staff' | 'studentLeaders' | 'category';
+
+export type SearchDocument = Record<SearchField, string>;
+
+// Fields derived from the document rather than supplied by the caller
+type PinyinField = 'namePinyin' | 'peoplePinyin';
+type IndexField = SearchField | PinyinField;
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  // Indexed terms that matched, used for highlighting
+  matchedTerms: string[];
+}
+
+interface IndexedDocument {
+  fieldLengths: number[];
+  terms: string[];
+  normalizedName: string;
+  // Pinyin term -> Han text it came from, so pinyin matches can be highlighted
+  pinyinSources: Map<string, Set<string>>;
+}
+
+// Relative importance of each field when ranking
+export const SEARCH_FIELD_WEIGHTS: Record<IndexField, number> = {
+  name: 4,
+  staff: 2.5,
+  studentLeaders: 2.5,
+  category: 2,
+  description: 1,
+  namePinyin: 3,
+  peoplePinyin: 2
+};
+const SEARCH_FIELDS = Object.keys(SEARCH_FIELD_WEIGHTS) as IndexField[];
+
+// Source fields that each pinyin field is transliterated from
+const PINYIN_SOURCES: Record<PinyinField, SearchField[]> = {
+  namePinyin: ['name'],
+  peoplePinyin: ['staff', 'studentLeaders']
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+const MIN_PREFIX_LENGTH = 2;
+const MAX_PREFIX_EXPANSIONS = 20;
+const PREFIX_MATCH_WEIGHT = 0.7;
+const MAX_FUZZY_EXPANSIONS = 10;
+const FUZZY_MATCH_WEIGHT = 0.5;
+const NAME_PHRASE_BONUS = 1.5;
+
+const TOKEN_RE = /\p{Script=Han}+|(?:(?!\p{Script=Han})[\p{L}\p{N}])+/gu;
+const HAN_RE = /^\p{Script=Han}/u;
+
+/**
+ * Normalizes text for indexing and matching.
+ */
+export function normalizeText(text: string): string {
+  return text.normalize('NFKC').toLowerCase();
+}
+
+/**
+ * Whether a token is Han text (as opposed to a Latin word or number).
+ */
+export function isHanToken(token: string): boolean {
+  return HAN_RE.test(token);
+}
+
+/**
+ * Splits text into index terms.
+ * "学生社团 Chess" -> ["学", "学生", "生", "生社", "社", "社团", "团", "chess"]
+ */
+export function tokenize(text: string): string[] {
+  const tokens: string[] = [];
+  for (const match of normalizeText(text).matchAll(TOKEN_RE)) {
+    const run = match[0];
+    if (isHanToken(run)) {
+      const chars = [...run];
+      chars.forEach((char, i) => {
+        tokens.push(char);
+        if (i + 1 < chars.length) tokens.push(char + chars[i + 1]);
+      });
+    } else {
+      tokens.push(run);
+    }
+  }
+  return tokens;
+}
+
+export class SearchIndex {
+  private documents = new Map<string, IndexedDocument>();
+  private postings = new Map<string, Map<string, number[]>>();
+  private totalFieldLengths: number[] = SEARCH_FIELDS.map(() => 0);
+  // Sorted vocabulary for prefix lookups, rebuilt lazily after writes
+  private sortedTerms: string[] | null = null;
+
+  /**
+   * Number of indexed documents.
+   */
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Adds or replaces a document.
+   */
+  upsert(id: string, document: SearchDocument): void {
+    this.remove(id);
+
+    const fieldLengths: number[] = [];
+    const termFrequencies = new Map<string, number[]>();
+    const pinyinSources = new Map<string, Set<string>>();
+    SEARCH_FIELDS.forEach((field, fieldIndex) => {
+      let tokens: string[];
+      if (field in PINYIN_SOURCES) {
+        const pinyinTerms = PINYIN_SOURCES[field as PinyinField].flatMap(source => toPinyinTerms(document[source] || ''));
+        for (const { term, source } of pinyinTerms) {
+          if (!pinyinSources.has(term)) pinyinSources.set(term, new Set());
+          pinyinSources.get(term)!.add(source);
+        }
+        tokens = pinyinTerms.map(t => t.term);
+      } else {
+        tokens = tokenize(document[field as SearchField] || '');
+      }
+      fieldLengths.push(tokens.length);
+      this.totalFieldLengths[fieldIndex]! += tokens.length;
+      for (const token of tokens) {
+        let frequencies = termFrequencies.get(token);
+        if (!frequencies) {
+          frequencies = SEARCH_FIELDS.map(() => 0);
+          termFrequencies.set(token, frequencies);
+        }
+        frequencies[fieldIndex]!++;
+      }
+    });
+
+    for (const [term, frequencies] of termFrequencies) {
+      let termPostings = this.postings.get(term);
+      if (!termPostings) {
+        termPostings = new Map();
+        this.postings.set(term, termPostings);
+        this.sortedTerms = null;
+      }
+      termPostings.set(id, frequencies);
+    }
+
+    this.documents.set(id, {
+      fieldLengths,
+      terms: [...termFrequencies.keys()],
+      normalizedName: normalizeText(document.name || ''),
+      pinyinSources
+    });
+  }
+
+  /**
+   * Removes a document if present.
+   */
+  remove(id: string): void {
+    const existing = this.documents.get(id);
+    if (!existing) return;
+
+    existing.fieldLengths.forEach((length, fieldIndex) => {
+      this.totalFieldLengths[fieldIndex]! -= length;
+    });
+    for (const term of existing.terms) {
+      const termPostings = this.postings.get(term);
+      if (!termPostings) continue;
+      termPostings.delete(id);
+      if (termPostings.size === 0) {
+        this.postings.delete(term);
+        this.sortedTerms = null;
+      }
+    }
+    this.documents.delete(id);
+  }
+
+  /**
+   * Removes all documents.
+   */
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalFieldLengths = SEARCH_FIELDS.map(() => 0);
+    this.sortedTerms = null;
+  }
+
+  /**
+   * Finds indexed Latin terms starting with the given prefix.
+   */
+  expandPrefix(prefix: string, max: number = MAX_PREFIX_EXPANSIONS): string[] {
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+    const terms = this.sortedTerms;
+    // Binary search for the first term >= prefix
+    let low = 0;
+    let high = terms.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (terms[mid]! < prefix) low = mid + 1;
+      else high = mid;
+    }
+    const expansions: string[] = [];
+    for (let i = low; i < terms.length && expansions.length < max; i++) {
+      const term = terms[i]!;
+      if (!term.startsWith(prefix)) break;
+      expansions.push(term);
+    }
+    return expansions;
+  }
+
+  /**
+   * Finds indexed Latin terms within typo distance of the given term.
+   */
+  expandFuzzy(term: string, max: number = MAX_FUZZY_EXPANSIONS): string[] {
+    const maxDistance = maxTypoDistance(term.length);
+    if (maxDistance === 0) return [];
+    if (!this.sortedTerms) {
+      this.sortedTerms = [...this.postings.keys()].sort();
+    }
+
+    const matches: Array<[string, number]> = [];
+    for (const candidate of this.sortedTerms) {
+      if (isHanToken(candidate) || Math.abs(candidate.length - term.length) > maxDistance) continue;
+      const distance = editDistance(term, candidate, maxDistance);
+      if (distance <= maxDistance) matches.push([candidate, distance]);
+    }
+    return matches
+      .sort((a, b) => a[1] - b[1])
+      .slice(0, max)
+      .map(([candidate]) => candidate);
+  }
+
+  /**
+   * Ranks documents against a free-text query.
+   * Every query term contributes independently; documents matching more of the
+   * query rank higher, and an exact phrase match in the name gets a bonus.
+   * @param query - Free-text query
+   * @param limit - Maximum number of hits to return
+   * @returns Total number of matching documents and the top hits
+   */
+  search(query: string, limit: number = 20): { total: number; hits: SearchHit[] } {
+    const queryTerms = [...new Set(tokenize(query))];
+    const documentCount = this.documents.size;
+    if (queryTerms.length === 0 || documentCount === 0) {
+      return { total: 0, hits: [] };
+    }
+
+    const averageFieldLengths = this.totalFieldLengths.map(total => total / documentCount || 1);
+    const scores = new Map<string, { score: number; matchedQueryTerms: Set<string>; matchedTerms: Set<string> }>();
+
+    for (const queryTerm of queryTerms) {
+      const candidates: Array<[string, number]> = [];
+      if (this.postings.has(queryTerm)) candidates.push([queryTerm, 1]);
+      if (!isHanToken(queryTerm) && queryTerm.length >= MIN_PREFIX_LENGTH) {
+        for (const expanded of this.expandPrefix(queryTerm)) {
+          if (expanded !== queryTerm) candidates.push([expanded, PREFIX_MATCH_WEIGHT]);
+        }
+      }
+      // Only treat the term as a typo if it matches nothing as typed
+      if (candidates.length === 0 && !isHanToken(queryTerm)) {
+        for (const corrected of this.expandFuzzy(queryTerm)) {
+          candidates.push([corrected, FUZZY_MATCH_WEIGHT]);
+        }
+      }
+
+      for (const [term, weight] of candidates) {
+        const termPostings = this.postings.get(term)!;
+        const idf = Math.log(1 + (documentCount - termPostings.size + 0.5) / (termPostings.size + 0.5));
+
+        for (const [id, frequencies] of termPostings) {
+          const document = this.documents.get(id)!;
+          let termScore = 0;
+          frequencies.forEach((tf, fieldIndex) => {
+            if (!tf) return;
+            const lengthRatio = document.fieldLengths[fieldIndex]! / averageFieldLengths[fieldIndex]!;
+            const fieldWeight = SEARCH_FIELD_WEIGHTS[SEARCH_FIELDS[fieldIndex]!];
+            termScore += fieldWeight * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * lengthRatio));
+          });
+
+          let entry = scores.get(id);
+          if (!entry) {
+            entry = { score: 0, matchedQueryTerms: new Set(), matchedTerms: new Set() };
+            scores.set(id, entry);
+          }
+          entry.score += idf * weight * termScore;
+          entry.matchedQueryTerms.add(queryTerm);
+          entry.matchedTerms.add(term);
+          for (const source of document.pinyinSources.get(term) ?? []) {
+            entry.matchedTerms.add(source);
+          }
+        }
+      }
+    }
+
+    const normalizedQuery = normalizeText(query).trim();
+    const hits: SearchHit[] = [];
+    for (const [id, entry] of scores) {
+      const coverage = entry.matchedQueryTerms.size / queryTerms.length;
+      let score = entry.score * coverage * coverage;
+      if (normalizedQuery && this.documents.get(id)!.normalizedName.includes(normalizedQuery)) {
+        score *= NAME_PHRASE_BONUS;
+      }
+      hits.push({ id, score, matchedTerms: [...entry.matchedTerms] });
+    }
+    hits.sort((a, b) => b.score - a.score || Number(a.id) - Number(b.id));
+
+    return { total: hits.length, hits: hits.slice(0, limit) };
+  }
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replaceAll('&', '&amp;')
+    .replaceAll('<', '&lt;')
+    .replaceAll('>', '&gt;')
+    .replaceAll('"', '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Wraps matched terms in <mark> tags. The rest of the text is HTML-escaped.
+ * @param text - Original field text
+ * @param terms - Indexed terms that matched (from SearchHit.matchedTerms)
+ * @param snippetRadius - If set, trims long text to this many characters around the first match
+ * @returns Highlighted text, or null if none of the terms occur in it
+ */
+export function highlightText(text: string, terms: string[], snippetRadius?: number): string | null {
+  if (!text || terms.length === 0) return null;
+
+  // Han unigrams are noisy on their own; only use them when no bigram matched
+  const hasHanBigram = terms.some(t => isHanToken(t) && [...t].length > 1);
+  const patterns = terms
+    .filter(t => !isHanToken(t) || !hasHanBigram || [...t].length > 1)
+    .sort((a, b) => b.length - a.length)
+    .map(t => isHanToken(t) ? escapeRegExp(t) : `(?<![\\p{L}\\p{N}])${escapeRegExp(t)}`);
+  if (patterns.length === 0) return null;
+
+  const matcher = new RegExp(patterns.join('|'), 'giu');
+  const firstMatch = matcher.exec(text);
+  if (!firstMatch) return null;
+
+  let start = 0;
+  let end = text.length;
+  if (snippetRadius !== undefined && text.length > snippetRadius * 2) {
+    start = Math.max(0, firstMatch.index - snippetRadius);
+    end = Math.min(text.length, firstMatch.index + firstMatch[0].length + snippetRadius);
+  }
+  const window = text.slice(start, end);
+  // matchAll() starts from lastIndex, which exec() above has advanced
+  matcher.lastIndex = 0;
+
+  let highlighted = '';
+  let cursor = 0;
+  for (const match of window.matchAll(matcher)) {
+    highlighted += escapeHtml(window.slice(cursor, match.index)) + `<mark>${escapeHtml(match[0])}</mark>`;
+    cursor = match.index + match[0].length;
+  }
+  highlighted += escapeHtml(window.slice(cursor));
+
+  return `${start > 0 ? '…' : ''}${highlighted.trim()}${end < text.length ? '…' : ''}`;
+}
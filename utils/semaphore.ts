@@ -70,6 +70,105 @@ export class Semaphore {
   }
 }
 
+export interface AdaptiveConcurrencyOptions {
+  min: number;
+  max: number;
+  initial?: number; // defaults to max
+  targetLatencyMs: number; // average latency above this counts as overload
+  maxErrorRate: number; // error share (0-1) above this counts as overload
+  windowSize: number; // samples per adjustment
+}
+
+export interface AdaptiveConcurrencyStatus {
+  limit: number;
+  min: number;
+  max: number;
+  lastWindow: { samples: number; errorRate: number; avgLatencyMs: number } | null;
+}
+
+/**
+ * Adjusts a concurrency limit from observed request outcomes (additive increase,
+ * multiplicative decrease): after each window of samples the limit halves if the
+ * upstream looks overloaded (slow or failing) and grows by one otherwise.
+ * The crawl queue reads getLimit() before claiming each item.
+ */
+export class AdaptiveConcurrency {
+  private readonly options: AdaptiveConcurrencyOptions;
+  private limit: number;
+  private samples = 0;
+  private errors = 0;
+  private totalLatencyMs = 0;
+  private lastWindow: AdaptiveConcurrencyStatus['lastWindow'] = null;
+  private listeners: Array<(limit: number) => void> = [];
+
+  constructor(options: AdaptiveConcurrencyOptions) {
+    const min = Math.max(1, options.min);
+    const max = Math.max(min, options.max);
+    this.options = { ...options, min, max, windowSize: Math.max(1, options.windowSize) };
+    this.limit = Math.min(max, Math.max(min, options.initial ?? max));
+  }
+
+  /**
+   * Record one finished request.
+   * @param latencyMs - How long it took
+   * @param ok - false for failures that suggest overload (timeouts, 5xx outages)
+   */
+  record(latencyMs: number, ok: boolean): void {
+    this.samples++;
+    this.totalLatencyMs += latencyMs;
+    if (!ok) this.errors++;
+    if (this.samples < this.options.windowSize) return;
+
+    const errorRate = this.errors / this.samples;
+    const avgLatencyMs = this.totalLatencyMs / this.samples;
+    this.lastWindow = { samples: this.samples, errorRate, avgLatencyMs: Math.round(avgLatencyMs) };
+    this.samples = 0;
+    this.errors = 0;
+    this.totalLatencyMs = 0;
+
+    const overloaded = errorRate > this.options.maxErrorRate || avgLatencyMs > this.options.targetLatencyMs;
+    const next = overloaded
+      ? Math.max(this.options.min, Math.floor(this.limit / 2))
+      : Math.min(this.options.max, this.limit + 1);
+    this.setLimit(next);
+  }
+
+  /**
+   * Drop straight to the minimum, e.g. when a circuit breaker opens.
+   */
+  reset(): void {
+    this.samples = 0;
+    this.errors = 0;
+    this.totalLatencyMs = 0;
+    this.setLimit(this.options.min);
+  }
+
+  private setLimit(limit: number): void {
+    if (limit === this.limit) return;
+    this.limit = limit;
+    for (const listener of this.listeners) listener(limit);
+  }
+
+  getLimit(): number {
+    return this.limit;
+  }
+
+  /**
+   * Subscribe to limit changes.
+   * @returns A function that unsubscribes
+   */
+  onChange(listener: (limit: number) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  getStatus(): AdaptiveConcurrencyStatus {
+    return { limit: this.limit, min: this.options.min, max: this.options.max, lastWindow: this.lastWindow };
+  }
+}
+
 /**
  * Execute async tasks with concurrency limit
  * @param tasks Array of async task functions
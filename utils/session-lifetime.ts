@@ -0,0 +1,89 @@
+// utils/session-lifetime.ts
+
+/**
+ * Estimates how long an Engage session lasts from the sessions seen so far, and decides
+ * when to log in again before the current one runs out. Engage does not say when a session
+ * ends: cookies are usually session cookies, and an expired session shows up as HTTP 500.
+ */
+
+export interface SessionRefreshConfig {
+  refreshFraction: number; // refresh once a session is this share (0-1) of the expected lifetime old
+  expiryMarginMs: number; // refresh this long before the earliest cookie expiry
+  maxAgeMs: number; // refresh sessions older than this regardless; 0 = no limit
+}
+
+export interface SessionRefreshInput {
+  ageMs: number; // time since login
+  expiresAt: number | null; // earliest cookie expiry, ms timestamp
+  expectedLifetimeMs: number | null;
+  now: number;
+}
+
+export interface SessionLifetimeObservation {
+  at: number; // when the session was seen to have ended, ms timestamp
+  lifetimeMs: number; // how long it was seen working; a lower bound
+}
+
+export interface SessionLifetimeConfig {
+  keep: number; // most observations kept
+  maxAgeMs: number; // observations older than this are dropped
+  minLifetimeMs: number; // shorter observations are not recorded, and estimates never go below it
+}
+
+/**
+ * Adds an observed session lifetime, keeping the most recent ones. Sessions seen ending
+ * within minLifetimeMs of their login are left out: with a probe only every few minutes,
+ * they say little about how long sessions last.
+ * @param observations - Earlier observations, oldest first
+ * @param lifetimeMs - How long the session was seen working
+ * @param now - When the session was seen to have ended
+ */
+export function addSessionLifetime(
+  observations: SessionLifetimeObservation[],
+  lifetimeMs: number,
+  now: number,
+  config: SessionLifetimeConfig
+): SessionLifetimeObservation[] {
+  const recent = observations.filter(observation => now - observation.at <= config.maxAgeMs);
+  if (lifetimeMs < config.minLifetimeMs) return recent.slice(-config.keep);
+  return [...recent, { at: now, lifetimeMs }].slice(-config.keep);
+}
+
+/**
+ * The lifetime to plan for: the median of the recent observations, so one short outlier
+ * (a session ended early, a 500 taken for an expiry) does not make every later session
+ * refresh early, and never below minLifetimeMs.
+ * @returns null until a session has been seen to end
+ */
+export function expectedSessionLifetime(
+  observations: SessionLifetimeObservation[],
+  now: number,
+  config: SessionLifetimeConfig
+): number | null {
+  const lifetimes = observations
+    .filter(observation => now - observation.at <= config.maxAgeMs)
+    .map(observation => observation.lifetimeMs)
+    .sort((a, b) => a - b);
+  if (lifetimes.length === 0) return null;
+  const middle = Math.floor(lifetimes.length / 2);
+  const median = lifetimes.length % 2 === 1 ? lifetimes[middle]! : (lifetimes[middle - 1]! + lifetimes[middle]!) / 2;
+  return Math.max(median, config.minLifetimeMs);
+}
+
+/**
+ * Whether the session should be refreshed now.
+ * @returns Why, or null if it can keep going
+ */
+export function sessionRefreshReason(input: SessionRefreshInput, config: SessionRefreshConfig): string | null {
+  const { ageMs, expiresAt, expectedLifetimeMs, now } = input;
+  if (expiresAt !== null && expiresAt - now <= config.expiryMarginMs) {
+    return 'cookies about to expire';
+  }
+  if (expectedLifetimeMs !== null && ageMs >= expectedLifetimeMs * config.refreshFraction) {
+    return `session ${Math.round(ageMs / 60000)}min old, sessions last about ${Math.round(expectedLifetimeMs / 60000)}min`;
+  }
+  if (config.maxAgeMs > 0 && ageMs >= config.maxAgeMs) {
+    return 'session reached the maximum age';
+  }
+  return null;
+}
@@ -0,0 +1,134 @@
+// utils/timetable.ts
+import type { ActivityData, NormalizedSchedule, Weekday } from '../models/activity';
+import { getNormalizedSchedule } from './schedule-parser';
+
+export interface TimetableClash {
+  ids: [string, string];
+  weekdays: Weekday[];
+  startTime: string; // "HH:mm", start of the overlap
+  endTime: string; // "HH:mm", end of the overlap
+}
+
+export interface TimetableSlot {
+  id: string;
+  name: string;
+  weekdays: Weekday[];
+  startTime: string | null;
+  endTime: string | null;
+}
+
+/**
+ * Whether a schedule has a weekday and both times, i.e. can be checked for clashes.
+ */
+export function isSchedulable(schedule: NormalizedSchedule): boolean {
+  return schedule.weekdays.length > 0 && !!schedule.startTime && !!schedule.endTime;
+}
+
+/**
+ * Whether two schedules run during overlapping parts of the year.
+ * Date ranges are compared when both are known; otherwise different semesters never overlap
+ * and anything else is assumed to overlap.
+ */
+function periodsOverlap(a: NormalizedSchedule, b: NormalizedSchedule): boolean {
+  if (a.startDate && a.endDate && b.startDate && b.endDate) {
+    // ISO dates compare correctly as strings
+    return a.startDate <= b.endDate && b.startDate <= a.endDate;
+  }
+  if (a.semester && b.semester) {
+    return a.semester === b.semester;
+  }
+  return true;
+}
+
+/**
+ * Finds where two activities overlap in weekday, time and period.
+ * Back-to-back sessions (one ending when the other starts) do not clash.
+ * @returns The clash, or null if they can both be attended
+ */
+export function findClash(a: ActivityData, b: ActivityData): TimetableClash | null {
+  const scheduleA = getNormalizedSchedule(a);
+  const scheduleB = getNormalizedSchedule(b);
+  if (!isSchedulable(scheduleA) || !isSchedulable(scheduleB)) return null;
+
+  const weekdays = scheduleA.weekdays.filter(day => scheduleB.weekdays.includes(day));
+  if (weekdays.length === 0) return null;
+
+  // Normalized times are zero-padded "HH:mm", so they compare correctly as strings
+  const startTime = scheduleA.startTime! > scheduleB.startTime! ? scheduleA.startTime! : scheduleB.startTime!;
+  const endTime = scheduleA.endTime! < scheduleB.endTime! ? scheduleA.endTime! : scheduleB.endTime!;
+  if (startTime >= endTime) return null;
+
+  if (!periodsOverlap(scheduleA, scheduleB)) return null;
+
+  return { ids: [String(a.id), String(b.id)], weekdays, startTime, endTime };
+}
+
+/**
+ * Finds every clashing pair in a set of activities.
+ */
+export function findClashes(activities: ActivityData[]): TimetableClash[] {
+  const clashes: TimetableClash[] = [];
+  for (let i = 0; i < activities.length; i++) {
+    for (let j = i + 1; j < activities.length; j++) {
+      const clash = findClash(activities[i]!, activities[j]!);
+      if (clash) clashes.push(clash);
+    }
+  }
+  return clashes;
+}
+
+/**
+ * Whether an activity is open to a grade. Activities without a known grade range are
+ * treated as open to everyone.
+ * @param activity - The activity
+ * @param grade - Grade label, e.g. "G7" or "KG2"
+ */
+export function isOpenToGrade(activity: ActivityData, grade: string): boolean {
+  const gradeRange = getNormalizedSchedule(activity).gradeRange;
+  return !gradeRange || gradeRange.labels.includes(grade);
+}
+
+/**
+ * Summarizes when an activity meets, for timetable responses.
+ */
+export function toTimetableSlot(activity: ActivityData): TimetableSlot {
+  const schedule = getNormalizedSchedule(activity);
+  return {
+    id: String(activity.id),
+    name: activity.name ?? '',
+    weekdays: schedule.weekdays,
+    startTime: schedule.startTime,
+    endTime: schedule.endTime
+  };
+}
+
+/**
+ * Picks alternatives for one activity of a selection: schedulable activities that are open to
+ * the grade and clash with none of the other selected activities.
+ * @param replacing - The activity to find alternatives for
+ * @param selection - The full selection, including the activity being replaced
+ * @param candidates - Candidate activities, usually the same category and academic year
+ * @param grade - Grade label to check against, if known
+ * @param limit - Maximum number of alternatives
+ * @returns Alternatives sorted by name
+ */
+export function findAlternatives(
+  replacing: ActivityData,
+  selection: ActivityData[],
+  candidates: ActivityData[],
+  grade: string | null,
+  limit: number
+): ActivityData[] {
+  const selectedIds = new Set(selection.map(activity => String(activity.id)));
+  const others = selection.filter(activity => String(activity.id) !== String(replacing.id));
+
+  return candidates
+    .filter(candidate =>
+      !selectedIds.has(String(candidate.id)) &&
+      isSchedulable(getNormalizedSchedule(candidate)) &&
+      (!grade || isOpenToGrade(candidate, grade)) &&
+      others.every(other => !findClash(candidate, other))
+    )
+    .sort((a, b) => (a.name ?? '').localeCompare(b.name ?? ''))
+    .slice(0, limit);
+}
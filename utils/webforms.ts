@@ -0,0 +1,127 @@
+// utils/webforms.ts
+import type { Cookie } from 'playwright';
+
+/**
+ * Helpers for posting ASP.NET WebForms pages without a browser: reading the form's inputs
+ * (__VIEWSTATE, __EVENTVALIDATION and friends) and turning Set-Cookie headers into the
+ * same cookie objects Playwright produces.
+ */
+
+export interface FormInput {
+  type: string;
+  name: string;
+  value: string;
+}
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+/**
+ * Decodes the HTML entities that appear in attribute values.
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|[a-zA-Z]+);/g, (match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+function parseAttributes(tag: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const pattern = /([^\s=<>"'\/]+)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+))/g;
+  for (const match of tag.matchAll(pattern)) {
+    attributes[match[1]!.toLowerCase()] = decodeHtmlEntities(match[2] ?? match[3] ?? match[4] ?? '');
+  }
+  return attributes;
+}
+
+/**
+ * Lists the named <input> elements of a page.
+ */
+export function extractFormInputs(html: string): FormInput[] {
+  const inputs: FormInput[] = [];
+  for (const [tag] of html.matchAll(/<input\b[^>]*>/gi)) {
+    const attributes = parseAttributes(tag);
+    if (!attributes.name) continue;
+    inputs.push({ type: (attributes.type || 'text').toLowerCase(), name: attributes.name, value: attributes.value ?? '' });
+  }
+  return inputs;
+}
+
+/**
+ * The hidden fields a WebForms postback has to send back, e.g. __VIEWSTATE.
+ */
+export function extractHiddenFields(html: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  for (const input of extractFormInputs(html)) {
+    if (input.type === 'hidden') fields[input.name] = input.value;
+  }
+  return fields;
+}
+
+/**
+ * Resolves the action of the first <form> against the page URL; the page itself if absent.
+ */
+export function extractFormAction(html: string, pageUrl: string): string {
+  const tag = html.match(/<form\b[^>]*>/i)?.[0];
+  const action = tag ? parseAttributes(tag).action : undefined;
+  return new URL(action || pageUrl, pageUrl).toString();
+}
+
+/**
+ * Parses Set-Cookie headers into Playwright-style cookies. Expires is in epoch seconds,
+ * -1 for session cookies, as Playwright reports it.
+ * @param headers - Set-Cookie header values
+ * @param requestUrl - URL the response came from, for the default domain and path
+ * @param now - Current time in ms, for Max-Age
+ */
+export function parseSetCookieHeaders(headers: string[], requestUrl: string, now: number = Date.now()): Cookie[] {
+  const url = new URL(requestUrl);
+  const cookies: Cookie[] = [];
+  for (const header of headers) {
+    const [pair, ...attributeParts] = header.split(';');
+    const separator = pair!.indexOf('=');
+    if (separator <= 0) continue;
+    const cookie: Cookie = {
+      name: pair!.slice(0, separator).trim(),
+      value: pair!.slice(separator + 1).trim(),
+      domain: url.hostname,
+      path: '/',
+      expires: -1,
+      httpOnly: false,
+      secure: false,
+      sameSite: 'Lax'
+    };
+    let maxAge: number | null = null;
+    for (const part of attributeParts) {
+      const [rawKey, ...rest] = part.split('=');
+      const key = rawKey!.trim().toLowerCase();
+      const value = rest.join('=').trim();
+      if (key === 'domain' && value) cookie.domain = value.replace(/^\./, '');
+      else if (key === 'path' && value) cookie.path = value;
+      else if (key === 'expires' && value && !Number.isNaN(Date.parse(value))) cookie.expires = Math.floor(Date.parse(value) / 1000);
+      else if (key === 'max-age' && /^-?\d+$/.test(value)) maxAge = parseInt(value, 10);
+      else if (key === 'httponly') cookie.httpOnly = true;
+      else if (key === 'secure') cookie.secure = true;
+      else if (key === 'samesite' && /^(strict|lax|none)$/i.test(value)) {
+        cookie.sameSite = (value[0]!.toUpperCase() + value.slice(1).toLowerCase()) as Cookie['sameSite'];
+      }
+    }
+    // Max-Age wins over Expires
+    if (maxAge !== null) cookie.expires = Math.floor(now / 1000) + maxAge;
+    cookies.push(cookie);
+  }
+  return cookies;
+}
+
+/**
+ * Merges cookie lists; later cookies replace earlier ones with the same name, domain and path,
+ * and cookies that have already expired (e.g. cleared by the server) are dropped.
+ */
+export function mergeCookies(existing: Cookie[], updates: Cookie[], now: number = Date.now()): Cookie[] {
+  const byKey = new Map<string, Cookie>();
+  for (const cookie of [...existing, ...updates]) {
+    byKey.set(`${cookie.name}\u0000${cookie.domain}\u0000${cookie.path}`, cookie);
+  }
+  return [...byKey.values()].filter(cookie => cookie.expires === -1 || cookie.expires * 1000 > now);
+}
@@ -0,0 +1,28 @@
+// utils/webhooks.ts
+import { createHmac } from 'crypto';
+
+/**
+ * Signing and retry timing for outgoing webhook deliveries.
+ */
+
+/**
+ * Signs a payload. Receivers recompute HMAC-SHA256 over "<timestamp>.<body>" with their secret
+ * and compare it to the X-Webhook-Signature header (after the "sha256=" prefix).
+ * @param secret - Subscription secret
+ * @param timestamp - Unix time in seconds, sent as X-Webhook-Timestamp
+ * @param body - Raw JSON body
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Delay before the next attempt: exponential from baseMs with up to 20% jitter, never above maxMs.
+ * @param attempts - Attempts made so far (1 after the first failure)
+ * @param random - Source of randomness in [0, 1), for tests
+ */
+export function webhookRetryDelayMs(attempts: number, baseMs: number, maxMs: number, random: () => number = Math.random): number {
+  // Cap the exponent so large attempt counts cannot overflow to Infinity
+  const delay = baseMs * 2 ** Math.min(Math.max(attempts - 1, 0), 30);
+  return Math.min(Math.round(delay * (1 + random() * 0.2)), maxMs);
+}